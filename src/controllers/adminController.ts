@@ -0,0 +1,73 @@
+import { Request, Response } from 'express';
+import ApiKeyService, { ApiKeyInput } from '../services/apiKeyService';
+import { ApiResponse } from '../types';
+import logger from '../utils/logger';
+
+class AdminController {
+  private apiKeyService: ApiKeyService;
+
+  constructor(apiKeyService: ApiKeyService = new ApiKeyService()) {
+    this.apiKeyService = apiKeyService;
+  }
+
+  // The response is the only place the plaintext key appears
+  async issueKey(req: Request, res: Response): Promise<void> {
+    try {
+      const input: ApiKeyInput = res.locals.apiKeyInput;
+      const apiKey = await this.apiKeyService.issue(input);
+
+      res.status(201).json({
+        success: true,
+        data: apiKey,
+        timestamp: new Date()
+      } as ApiResponse<typeof apiKey>);
+
+    } catch (error) {
+      this.sendError(res, 'issueKey', error);
+    }
+  }
+
+  async listKeys(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = typeof req.query.userId === 'string' ? req.query.userId : undefined;
+      const keys = await this.apiKeyService.list(userId);
+
+      res.json({
+        success: true,
+        data: keys,
+        timestamp: new Date()
+      } as ApiResponse<typeof keys>);
+
+    } catch (error) {
+      this.sendError(res, 'listKeys', error);
+    }
+  }
+
+  async revokeKey(req: Request, res: Response): Promise<void> {
+    try {
+      if (!await this.apiKeyService.revoke(req.params.id)) {
+        res.status(404).json({
+          success: false,
+          error: `API key not found: ${req.params.id}`,
+          timestamp: new Date()
+        } as ApiResponse<never>);
+        return;
+      }
+      res.status(204).end();
+
+    } catch (error) {
+      this.sendError(res, 'revokeKey', error);
+    }
+  }
+
+  private sendError(res: Response, handler: string, error: unknown): void {
+    logger.error(`Error in ${handler}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date()
+    } as ApiResponse<never>);
+  }
+}
+
+export default AdminController;
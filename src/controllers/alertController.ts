@@ -0,0 +1,165 @@
+import { Request, Response } from 'express';
+import AlertService, { AlertInput } from '../services/alertService';
+import { SymbolLookupUnavailableError, UnknownSymbolError } from '../services/symbols';
+import { WebhookTargetError } from '../services/webhookService';
+import { Alert, ApiResponse } from '../types';
+import { actingUserId, ownerScope } from '../middleware/auth';
+import logger from '../utils/logger';
+
+class AlertController {
+  private alertService: AlertService;
+
+  constructor(alertService: AlertService = new AlertService()) {
+    this.alertService = alertService;
+  }
+
+  start(): void {
+    this.alertService.start();
+  }
+
+  getStatus(): ReturnType<AlertService['getStatus']> {
+    return this.alertService.getStatus();
+  }
+
+  async createAlert(req: Request, res: Response): Promise<void> {
+    try {
+      const input: AlertInput = res.locals.alertInput;
+      const userId = actingUserId(res, input.userId);
+      const alert = await this.alertService.createAlert({ ...input, userId });
+
+      res.status(201).json({
+        success: true,
+        data: alert,
+        timestamp: new Date()
+      } as ApiResponse<typeof alert>);
+
+    } catch (error) {
+      this.sendError(res, 'createAlert', error);
+    }
+  }
+
+  async listAlerts(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = ownerScope(res) ?? (typeof req.query.userId === 'string' ? req.query.userId : undefined);
+      const alerts = await this.alertService.listAlerts(userId);
+
+      res.json({
+        success: true,
+        data: alerts,
+        timestamp: new Date()
+      } as ApiResponse<typeof alerts>);
+
+    } catch (error) {
+      this.sendError(res, 'listAlerts', error);
+    }
+  }
+
+  async getAlert(req: Request, res: Response): Promise<void> {
+    try {
+      const alert = await this.alertService.getAlert(req.params.id, ownerScope(res));
+      if (!alert) {
+        this.sendNotFound(res, req.params.id);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: alert,
+        timestamp: new Date()
+      } as ApiResponse<typeof alert>);
+
+    } catch (error) {
+      this.sendError(res, 'getAlert', error);
+    }
+  }
+
+  async setStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const status: Alert['status'] = res.locals.alertStatus;
+      const alert = await this.alertService.setStatus(req.params.id, status, ownerScope(res));
+      if (!alert) {
+        this.sendNotFound(res, req.params.id);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: alert,
+        timestamp: new Date()
+      } as ApiResponse<typeof alert>);
+
+    } catch (error) {
+      this.sendError(res, 'setStatus', error);
+    }
+  }
+
+  async deleteAlert(req: Request, res: Response): Promise<void> {
+    try {
+      if (!await this.alertService.deleteAlert(req.params.id, ownerScope(res))) {
+        this.sendNotFound(res, req.params.id);
+        return;
+      }
+      res.status(204).end();
+
+    } catch (error) {
+      this.sendError(res, 'deleteAlert', error);
+    }
+  }
+
+  async getTriggers(req: Request, res: Response): Promise<void> {
+    try {
+      const triggers = await this.alertService.getTriggers(req.params.id, ownerScope(res));
+      if (!triggers) {
+        this.sendNotFound(res, req.params.id);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: triggers,
+        timestamp: new Date()
+      } as ApiResponse<typeof triggers>);
+
+    } catch (error) {
+      this.sendError(res, 'getTriggers', error);
+    }
+  }
+
+  private sendNotFound(res: Response, id: string): void {
+    res.status(404).json({
+      success: false,
+      error: `Alert not found: ${id}`,
+      timestamp: new Date()
+    } as ApiResponse<never>);
+  }
+
+  private sendError(res: Response, handler: string, error: unknown): void {
+    if (error instanceof UnknownSymbolError || error instanceof WebhookTargetError) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date()
+      } as ApiResponse<never>);
+      return;
+    }
+
+    if (error instanceof SymbolLookupUnavailableError) {
+      res.status(503).json({
+        success: false,
+        error: 'Symbol lookup is temporarily unavailable',
+        details: { failedProviders: error.failures },
+        timestamp: new Date()
+      } as ApiResponse<never>);
+      return;
+    }
+
+    logger.error(`Error in ${handler}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date()
+    } as ApiResponse<never>);
+  }
+}
+
+export default AlertController;
@@ -0,0 +1,132 @@
+import { Request, Response } from 'express';
+import OpenAIService from '../services/openaiService';
+import ConversationService from '../services/conversationService';
+import { LLMUnavailableError } from '../services/llm';
+import { BudgetExceededError } from '../services/usageService';
+import { ApiResponse } from '../types';
+import { actingUserId, ownerScope } from '../middleware/auth';
+import logger from '../utils/logger';
+
+class ConversationController {
+  private conversationService: ConversationService;
+
+  constructor() {
+    this.conversationService = new ConversationService(new OpenAIService());
+  }
+
+  async createConversation(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.body || {};
+
+      if (userId !== undefined && typeof userId !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'userId must be a string',
+          timestamp: new Date()
+        } as ApiResponse<never>);
+        return;
+      }
+
+      const conversation = await this.conversationService.createConversation(actingUserId(res, userId));
+
+      res.status(201).json({
+        success: true,
+        data: conversation,
+        timestamp: new Date()
+      } as ApiResponse<typeof conversation>);
+
+    } catch (error) {
+      logger.error('Error in createConversation:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        timestamp: new Date()
+      } as ApiResponse<never>);
+    }
+  }
+
+  async addMessage(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { question, currency } = req.body;
+
+      logger.info(`Processing conversation ${id} message: ${question.substring(0, 100)}...`);
+
+      const turn = await this.conversationService.addMessage(id, question, currency, ownerScope(res));
+
+      if (!turn) {
+        res.status(404).json({
+          success: false,
+          error: `Conversation not found: ${id}`,
+          timestamp: new Date()
+        } as ApiResponse<never>);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: turn,
+        timestamp: new Date()
+      } as ApiResponse<typeof turn>);
+
+    } catch (error) {
+      if (error instanceof LLMUnavailableError) {
+        res.status(503).json({
+          success: false,
+          error: 'Analysis is unavailable: no LLM provider is configured',
+          timestamp: new Date()
+        } as ApiResponse<never>);
+        return;
+      }
+
+      if (error instanceof BudgetExceededError) {
+        res.status(429).json({
+          success: false,
+          error: error.message,
+          details: { budget: error.budget, resetsAt: error.resetsAt },
+          timestamp: new Date()
+        } as ApiResponse<never>);
+        return;
+      }
+
+      logger.error('Error in addMessage:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        timestamp: new Date()
+      } as ApiResponse<never>);
+    }
+  }
+
+  async getConversation(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const conversation = await this.conversationService.getConversation(id, ownerScope(res));
+
+      if (!conversation) {
+        res.status(404).json({
+          success: false,
+          error: `Conversation not found: ${id}`,
+          timestamp: new Date()
+        } as ApiResponse<never>);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: conversation,
+        timestamp: new Date()
+      } as ApiResponse<typeof conversation>);
+
+    } catch (error) {
+      logger.error('Error in getConversation:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        timestamp: new Date()
+      } as ApiResponse<never>);
+    }
+  }
+}
+
+export default ConversationController;
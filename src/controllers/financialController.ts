@@ -1,24 +1,52 @@
 import { Request, Response } from 'express';
 import OpenAIService from '../services/openaiService';
 import MarketDataService from '../services/marketDataService';
-import NewsService from '../services/newsService';
-import { FinancialQuery, ApiResponse } from '../types';
+import NewsService, { NewsFilters } from '../services/newsService';
+import { InvalidCursorError, NewsSearchOptions } from '../services/news';
+import IndicatorService from '../services/indicatorService';
+import SymbolResolver from '../services/symbolResolver';
+import FxService from '../services/fxService';
+import { dataService } from '../services/dataService';
+import { FxUnavailableError } from '../services/fx';
+import { LLMUnavailableError } from '../services/llm';
+import { BudgetExceededError } from '../services/usageService';
+import { ProviderFailure, QuoteUnavailableError } from '../services/quotes';
+import { SymbolLookupUnavailableError } from '../services/symbols';
+import { FinancialQuery, ApiResponse, HistoryRange, AssetType, BatchQuotes, Instrument, MarketData, DataServiceHealth } from '../types';
+import { IndicatorSpec } from '../utils/indicators';
+import { actingUserId } from '../middleware/auth';
 import logger from '../utils/logger';
 
+// Upstream outages that surface as 503 with the failed providers listed
+const isMarketDataUnavailable = (error: unknown): error is QuoteUnavailableError | SymbolLookupUnavailableError | FxUnavailableError =>
+  error instanceof QuoteUnavailableError || error instanceof SymbolLookupUnavailableError || error instanceof FxUnavailableError;
+
 class FinancialController {
   private openaiService: OpenAIService;
   private marketDataService: MarketDataService;
   private newsService: NewsService;
+  private indicatorService: IndicatorService;
+  private symbolResolver: SymbolResolver;
+  private fxService: FxService;
 
   constructor() {
     this.openaiService = new OpenAIService();
     this.marketDataService = new MarketDataService();
     this.newsService = new NewsService();
+    this.fxService = new FxService();
+    this.indicatorService = new IndicatorService(this.marketDataService, this.fxService);
+    this.symbolResolver = new SymbolResolver();
+  }
+
+  // Starts the background news and retrieval ingestion
+  start(): void {
+    this.newsService.start();
+    dataService.start();
   }
 
   async analyzeQuery(req: Request, res: Response): Promise<void> {
     try {
-      const { question, userId }: FinancialQuery = req.body;
+      const { question, userId, currency, holdings }: FinancialQuery = req.body;
 
       if (!question || question.trim().length === 0) {
         res.status(400).json({
@@ -31,7 +59,7 @@ class FinancialController {
 
       logger.info(`Processing financial query: ${question.substring(0, 100)}...`);
 
-      const analysis = await this.openaiService.analyzeFinancialQuery({ question, userId });
+      const analysis = await this.openaiService.analyzeFinancialQuery({ question, userId: actingUserId(res, userId), currency, holdings });
 
       res.json({
         success: true,
@@ -40,6 +68,25 @@ class FinancialController {
       } as ApiResponse<typeof analysis>);
 
     } catch (error) {
+      if (error instanceof LLMUnavailableError) {
+        res.status(503).json({
+          success: false,
+          error: 'Analysis is unavailable: no LLM provider is configured',
+          timestamp: new Date()
+        } as ApiResponse<never>);
+        return;
+      }
+
+      if (error instanceof BudgetExceededError) {
+        res.status(429).json({
+          success: false,
+          error: error.message,
+          details: { budget: error.budget, resetsAt: error.resetsAt },
+          timestamp: new Date()
+        } as ApiResponse<never>);
+        return;
+      }
+
       logger.error('Error in analyzeQuery:', error);
       res.status(500).json({
         success: false,
@@ -49,6 +96,92 @@ class FinancialController {
     }
   }
 
+  async streamAnalysis(req: Request, res: Response): Promise<void> {
+    const { question, userId, currency, holdings }: FinancialQuery = req.body;
+    const abortController = new AbortController();
+
+    if (!this.openaiService.isAvailable()) {
+      res.status(503).json({
+        success: false,
+        error: 'Analysis is unavailable: no LLM provider is configured',
+        timestamp: new Date()
+      } as ApiResponse<never>);
+      return;
+    }
+
+    // Budgets are checked up front so a rejection gets a status code instead of an SSE error
+    try {
+      await this.openaiService.checkBudget();
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        res.status(429).json({
+          success: false,
+          error: error.message,
+          details: { budget: error.budget, resetsAt: error.resetsAt },
+          timestamp: new Date()
+        } as ApiResponse<never>);
+        return;
+      }
+      logger.error('Error checking LLM budget:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        timestamp: new Date()
+      } as ApiResponse<never>);
+      return;
+    }
+
+    // Cancel the upstream OpenAI call if the client goes away mid-stream
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
+    });
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    logger.info(`Streaming financial query: ${question.substring(0, 100)}...`);
+
+    try {
+      const events = this.openaiService.streamFinancialQuery({ question, userId: actingUserId(res, userId), currency, holdings }, abortController.signal);
+      for await (const event of events) {
+        const { type, ...payload } = event;
+        this.writeSseEvent(res, type, payload);
+      }
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        logger.info('Client disconnected, analysis stream cancelled');
+        return;
+      }
+      if (error instanceof BudgetExceededError) {
+        this.writeSseEvent(res, 'error', { error: error.message });
+      } else {
+        logger.error('Error in streamAnalysis:', error);
+        this.writeSseEvent(res, 'error', { error: 'Internal server error' });
+      }
+    }
+
+    res.end();
+  }
+
+  private writeSseEvent(res: Response, event: string, data: unknown): void {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  getLLMStatus(): { name: string; model: string } | null {
+    return this.openaiService.getProviderInfo();
+  }
+
+  getDataServiceHealth(): Promise<DataServiceHealth> {
+    return dataService.getHealth();
+  }
+
   async getMarketData(req: Request, res: Response): Promise<void> {
     try {
       const { symbol, type = 'stock' } = req.params;
@@ -62,14 +195,14 @@ class FinancialController {
         return;
       }
 
-      let marketData;
-      if (type === 'crypto') {
-        marketData = await this.marketDataService.getCryptoPrice(symbol);
-      } else {
-        marketData = await this.marketDataService.getStockPrice(symbol);
+      const instrument = await this.resolveInstrument(res, symbol, type as AssetType);
+      if (!instrument) {
+        return;
       }
 
-      if (!marketData) {
+      const quote = await this.marketDataService.getQuote(instrument);
+
+      if (!quote) {
         res.status(404).json({
           success: false,
           error: `No data found for symbol: ${symbol}`,
@@ -78,6 +211,8 @@ class FinancialController {
         return;
       }
 
+      const marketData = await this.fxService.convertQuote(quote, res.locals.currency);
+
       res.json({
         success: true,
         data: marketData,
@@ -85,6 +220,11 @@ class FinancialController {
       } as ApiResponse<typeof marketData>);
 
     } catch (error) {
+      if (isMarketDataUnavailable(error)) {
+        this.sendMarketDataUnavailable(res, error.failures);
+        return;
+      }
+
       logger.error('Error in getMarketData:', error);
       res.status(500).json({
         success: false,
@@ -94,18 +234,155 @@ class FinancialController {
     }
   }
 
-  async getNews(req: Request, res: Response): Promise<void> {
+  async getQuotes(req: Request, res: Response): Promise<void> {
     try {
-      const { keyword, limit = '10' } = req.query;
-      const limitNum = parseInt(limit as string, 10);
+      const { stocks, crypto }: { stocks: string[]; crypto: string[] } = res.locals.quoteSymbols;
+      const currency: string = res.locals.currency;
 
-      let news;
-      if (keyword) {
-        news = await this.newsService.searchFinancialNews(keyword as string, limitNum);
-      } else {
-        news = await this.newsService.getLatestFinancialNews(limitNum);
+      // Lookups all start in the same tick, so crypto quotes still share one upstream call
+      const lookup = async (symbol: string, type: AssetType) => {
+        const instrument = await this.symbolResolver.resolve(symbol, type);
+        const quote = instrument && await this.marketDataService.getQuote(instrument);
+        return { instrument, quote: quote && await this.fxService.convertQuote(quote, currency) };
+      };
+
+      const [stockResults, cryptoResults] = await Promise.all([
+        Promise.allSettled(stocks.map(symbol => lookup(symbol, 'stock'))),
+        Promise.allSettled(crypto.map(symbol => lookup(symbol, 'crypto')))
+      ]);
+
+      const result: BatchQuotes = { quotes: {}, errors: {} };
+      const record = (symbol: string, outcome: PromiseSettledResult<{ instrument: Instrument | null; quote: MarketData | null }>) => {
+        const key = symbol.toUpperCase();
+        if (outcome.status === 'rejected') {
+          const reason = outcome.reason;
+          result.errors[key] = isMarketDataUnavailable(reason)
+            ? `${reason.message} (failed: ${reason.failures.map(f => f.provider).join(', ')})`
+            : 'Failed to fetch quote';
+        } else if (!outcome.value.instrument) {
+          result.errors[key] = `Unknown symbol: ${symbol}`;
+        } else if (!outcome.value.quote) {
+          result.errors[key] = `No data found for symbol: ${symbol}`;
+        } else {
+          result.quotes[key] = outcome.value.quote;
+        }
+      };
+
+      stocks.forEach((symbol, i) => record(symbol, stockResults[i]));
+      crypto.forEach((symbol, i) => record(symbol, cryptoResults[i]));
+
+      res.json({
+        success: true,
+        data: result,
+        timestamp: new Date()
+      } as ApiResponse<BatchQuotes>);
+
+    } catch (error) {
+      logger.error('Error in getQuotes:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        timestamp: new Date()
+      } as ApiResponse<never>);
+    }
+  }
+
+  async getPriceHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { symbol, type = 'stock' } = req.params;
+      const range: HistoryRange = res.locals.historyRange;
+
+      const instrument = await this.resolveInstrument(res, symbol, type as AssetType);
+      if (!instrument) {
+        return;
       }
 
+      const history = await this.fxService.convertHistory(await this.marketDataService.getHistory(instrument, range), res.locals.currency);
+
+      res.json({
+        success: true,
+        data: history,
+        timestamp: new Date()
+      } as ApiResponse<typeof history>);
+
+    } catch (error) {
+      if (isMarketDataUnavailable(error)) {
+        this.sendMarketDataUnavailable(res, error.failures);
+        return;
+      }
+
+      logger.error('Error in getPriceHistory:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        timestamp: new Date()
+      } as ApiResponse<never>);
+    }
+  }
+
+  async getIndicators(req: Request, res: Response): Promise<void> {
+    try {
+      const { symbol, type } = req.params;
+      const range: HistoryRange = res.locals.historyRange;
+      const specs: IndicatorSpec[] = res.locals.indicatorSpecs;
+
+      const instrument = await this.resolveInstrument(res, symbol, type as AssetType);
+      if (!instrument) {
+        return;
+      }
+
+      const indicators = await this.indicatorService.getIndicators(instrument, specs, range, res.locals.currency);
+
+      res.json({
+        success: true,
+        data: indicators,
+        timestamp: new Date()
+      } as ApiResponse<typeof indicators>);
+
+    } catch (error) {
+      if (isMarketDataUnavailable(error)) {
+        this.sendMarketDataUnavailable(res, error.failures);
+        return;
+      }
+
+      logger.error('Error in getIndicators:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        timestamp: new Date()
+      } as ApiResponse<never>);
+    }
+  }
+
+  async searchSymbols(req: Request, res: Response): Promise<void> {
+    try {
+      const { query, type, limit }: { query: string; type?: AssetType; limit: number } = res.locals.symbolSearch;
+
+      const { instruments, failures } = await this.symbolResolver.search(query, type, limit);
+
+      res.json({
+        success: true,
+        data: instruments,
+        // Results may be incomplete when a search provider could not be reached
+        ...(failures.length > 0 && { details: { failedProviders: failures } }),
+        timestamp: new Date()
+      } as ApiResponse<Instrument[]>);
+
+    } catch (error) {
+      logger.error('Error in searchSymbols:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        timestamp: new Date()
+      } as ApiResponse<never>);
+    }
+  }
+
+  async getNews(req: Request, res: Response): Promise<void> {
+    try {
+      const filters: NewsFilters = res.locals.newsQuery;
+      const news = await this.newsService.findNews(filters);
+
       res.json({
         success: true,
         data: news,
@@ -121,6 +398,88 @@ class FinancialController {
       } as ApiResponse<never>);
     }
   }
+
+  async getNewsSentiment(req: Request, res: Response): Promise<void> {
+    try {
+      const { hours, headlineLimit } = res.locals.sentimentOptions;
+      const sentiment = await this.newsService.getSymbolSentiment(req.params.symbol, hours, headlineLimit);
+
+      res.json({
+        success: true,
+        data: sentiment,
+        timestamp: new Date()
+      } as ApiResponse<typeof sentiment>);
+
+    } catch (error) {
+      logger.error('Error in getNewsSentiment:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        timestamp: new Date()
+      } as ApiResponse<never>);
+    }
+  }
+
+  async searchNews(req: Request, res: Response): Promise<void> {
+    try {
+      const options: NewsSearchOptions = res.locals.newsSearch;
+      const result = await this.newsService.search(options);
+
+      res.json({
+        success: true,
+        data: result,
+        timestamp: new Date()
+      } as ApiResponse<typeof result>);
+
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+          timestamp: new Date()
+        } as ApiResponse<never>);
+        return;
+      }
+      logger.error('Error in searchNews:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        timestamp: new Date()
+      } as ApiResponse<never>);
+    }
+  }
+
+  getNewsFeeds(req: Request, res: Response): void {
+    const feeds = this.newsService.getFeedHealth();
+    res.json({
+      success: true,
+      data: feeds,
+      timestamp: new Date()
+    } as ApiResponse<typeof feeds>);
+  }
+
+
+  // Sends 404 and resolves to null when no source knows the symbol
+  private async resolveInstrument(res: Response, symbol: string, type: AssetType): Promise<Instrument | null> {
+    const instrument = await this.symbolResolver.resolve(symbol, type);
+    if (!instrument) {
+      res.status(404).json({
+        success: false,
+        error: `Unknown symbol: ${symbol}`,
+        timestamp: new Date()
+      } as ApiResponse<never>);
+    }
+    return instrument;
+  }
+
+  private sendMarketDataUnavailable(res: Response, failures: ProviderFailure[]): void {
+    res.status(503).json({
+      success: false,
+      error: 'Market data is temporarily unavailable',
+      details: { failedProviders: failures },
+      timestamp: new Date()
+    } as ApiResponse<never>);
+  }
 }
 
 export default FinancialController;
\ No newline at end of file
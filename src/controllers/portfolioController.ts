@@ -0,0 +1,208 @@
+import { Request, Response } from 'express';
+import PortfolioService, { PortfolioInput, PositionChanges, PositionInput } from '../services/portfolioService';
+import { SymbolLookupUnavailableError, UnknownSymbolError } from '../services/symbols';
+import { ApiResponse } from '../types';
+import { actingUserId, ownerScope } from '../middleware/auth';
+import logger from '../utils/logger';
+
+class PortfolioController {
+  private portfolioService: PortfolioService;
+
+  constructor(portfolioService: PortfolioService = new PortfolioService()) {
+    this.portfolioService = portfolioService;
+  }
+
+  async createPortfolio(req: Request, res: Response): Promise<void> {
+    try {
+      const input: PortfolioInput = res.locals.portfolioInput;
+      const portfolio = await this.portfolioService.createPortfolio({ ...input, userId: actingUserId(res, input.userId) });
+
+      res.status(201).json({
+        success: true,
+        data: portfolio,
+        timestamp: new Date()
+      } as ApiResponse<typeof portfolio>);
+
+    } catch (error) {
+      this.sendError(res, 'createPortfolio', error);
+    }
+  }
+
+  async listPortfolios(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = ownerScope(res) ?? (typeof req.query.userId === 'string' ? req.query.userId : undefined);
+      const portfolios = await this.portfolioService.listPortfolios(userId);
+
+      res.json({
+        success: true,
+        data: portfolios,
+        timestamp: new Date()
+      } as ApiResponse<typeof portfolios>);
+
+    } catch (error) {
+      this.sendError(res, 'listPortfolios', error);
+    }
+  }
+
+  async getPortfolio(req: Request, res: Response): Promise<void> {
+    try {
+      const portfolio = await this.portfolioService.getPortfolio(req.params.id, ownerScope(res));
+      if (!portfolio) {
+        this.sendNotFound(res, `Portfolio not found: ${req.params.id}`);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: portfolio,
+        timestamp: new Date()
+      } as ApiResponse<typeof portfolio>);
+
+    } catch (error) {
+      this.sendError(res, 'getPortfolio', error);
+    }
+  }
+
+  async renamePortfolio(req: Request, res: Response): Promise<void> {
+    try {
+      const { name }: PortfolioInput = res.locals.portfolioInput;
+      const portfolio = await this.portfolioService.renamePortfolio(req.params.id, name, ownerScope(res));
+      if (!portfolio) {
+        this.sendNotFound(res, `Portfolio not found: ${req.params.id}`);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: portfolio,
+        timestamp: new Date()
+      } as ApiResponse<typeof portfolio>);
+
+    } catch (error) {
+      this.sendError(res, 'renamePortfolio', error);
+    }
+  }
+
+  async deletePortfolio(req: Request, res: Response): Promise<void> {
+    try {
+      if (!await this.portfolioService.deletePortfolio(req.params.id, ownerScope(res))) {
+        this.sendNotFound(res, `Portfolio not found: ${req.params.id}`);
+        return;
+      }
+      res.status(204).end();
+
+    } catch (error) {
+      this.sendError(res, 'deletePortfolio', error);
+    }
+  }
+
+  async addPosition(req: Request, res: Response): Promise<void> {
+    try {
+      const input: PositionInput = res.locals.positionInput;
+      const position = await this.portfolioService.addPosition(req.params.id, input, ownerScope(res));
+      if (!position) {
+        this.sendNotFound(res, `Portfolio not found: ${req.params.id}`);
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: position,
+        timestamp: new Date()
+      } as ApiResponse<typeof position>);
+
+    } catch (error) {
+      this.sendError(res, 'addPosition', error);
+    }
+  }
+
+  async updatePosition(req: Request, res: Response): Promise<void> {
+    try {
+      const changes: PositionChanges = res.locals.positionInput;
+      const position = await this.portfolioService.updatePosition(req.params.id, req.params.positionId, changes, ownerScope(res));
+      if (!position) {
+        this.sendNotFound(res, `Position not found: ${req.params.positionId}`);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: position,
+        timestamp: new Date()
+      } as ApiResponse<typeof position>);
+
+    } catch (error) {
+      this.sendError(res, 'updatePosition', error);
+    }
+  }
+
+  async removePosition(req: Request, res: Response): Promise<void> {
+    try {
+      if (!await this.portfolioService.removePosition(req.params.id, req.params.positionId, ownerScope(res))) {
+        this.sendNotFound(res, `Position not found: ${req.params.positionId}`);
+        return;
+      }
+      res.status(204).end();
+
+    } catch (error) {
+      this.sendError(res, 'removePosition', error);
+    }
+  }
+
+  async getValuation(req: Request, res: Response): Promise<void> {
+    try {
+      const valuation = await this.portfolioService.valuePortfolio(req.params.id, ownerScope(res));
+      if (!valuation) {
+        this.sendNotFound(res, `Portfolio not found: ${req.params.id}`);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: valuation,
+        timestamp: new Date()
+      } as ApiResponse<typeof valuation>);
+
+    } catch (error) {
+      this.sendError(res, 'getValuation', error);
+    }
+  }
+
+  private sendNotFound(res: Response, error: string): void {
+    res.status(404).json({
+      success: false,
+      error,
+      timestamp: new Date()
+    } as ApiResponse<never>);
+  }
+
+  private sendError(res: Response, handler: string, error: unknown): void {
+    if (error instanceof UnknownSymbolError) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date()
+      } as ApiResponse<never>);
+      return;
+    }
+
+    if (error instanceof SymbolLookupUnavailableError) {
+      res.status(503).json({
+        success: false,
+        error: 'Symbol lookup is temporarily unavailable',
+        details: { failedProviders: error.failures },
+        timestamp: new Date()
+      } as ApiResponse<never>);
+      return;
+    }
+
+    logger.error(`Error in ${handler}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date()
+    } as ApiResponse<never>);
+  }
+}
+
+export default PortfolioController;
@@ -0,0 +1,262 @@
+import { IncomingMessage, Server } from 'http';
+import { WebSocket, WebSocketServer, RawData } from 'ws';
+import PriceStreamService from '../services/priceStreamService';
+import SymbolResolver from '../services/symbolResolver';
+import { AssetType, Instrument, MarketData, PriceStreamMessage, PriceStreamRequest } from '../types';
+import logger from '../utils/logger';
+
+const HEARTBEAT_INTERVAL_MS = 30000;
+const MAX_MESSAGE_BYTES = 16 * 1024;
+// Above this many unsent bytes, quote updates are held back and only the latest per symbol is kept
+const BUFFER_HIGH_WATER_MARK = 64 * 1024;
+// A consumer that lets the buffer grow past this is disconnected
+const BUFFER_HARD_LIMIT = 1024 * 1024;
+const DRAIN_CHECK_MS = 250;
+
+interface Connection {
+  socket: WebSocket;
+  isAlive: boolean;
+  // Keyed by `${type}:${symbol}`; the value removes the listener from the stream service
+  subscriptions: Map<string, () => void>;
+  pendingQuotes: Map<string, MarketData>;
+  drainTimer: NodeJS.Timeout | null;
+  // Messages are handled one at a time so symbol lookups can't reorder them
+  queue: Promise<void>;
+}
+
+class PriceStreamController {
+  private priceStreamService: PriceStreamService;
+  private symbolResolver: SymbolResolver;
+  private server: WebSocketServer | null = null;
+  private connections = new Set<Connection>();
+  private maxSubscriptions: number;
+
+  constructor(priceStreamService = new PriceStreamService(), symbolResolver = new SymbolResolver()) {
+    this.priceStreamService = priceStreamService;
+    this.symbolResolver = symbolResolver;
+    this.maxSubscriptions = parseInt(process.env.PRICE_STREAM_MAX_SUBSCRIPTIONS || '', 10) || 50;
+  }
+
+  // Without `authorize`, every upgrade is accepted
+  attach(httpServer: Server, authorize?: (req: IncomingMessage) => Promise<boolean>, path = '/ws/prices'): void {
+    this.server = new WebSocketServer({
+      server: httpServer,
+      path,
+      maxPayload: MAX_MESSAGE_BYTES,
+      verifyClient: authorize
+        ? (info, callback) => {
+          authorize(info.req).then(allowed => callback(allowed, 401, 'Unauthorized'), () => callback(false, 500));
+        }
+        : undefined
+    });
+
+    this.server.on('connection', socket => this.handleConnection(socket));
+
+    // Connections that stop answering pings (dropped networks, sleeping laptops) are reaped
+    const heartbeat = setInterval(() => {
+      this.connections.forEach(connection => {
+        if (!connection.isAlive) {
+          connection.socket.terminate();
+          return;
+        }
+        connection.isAlive = false;
+        connection.socket.ping();
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+
+    this.server.on('close', () => clearInterval(heartbeat));
+    logger.info(`Price stream WebSocket available at ${path}`);
+  }
+
+  getStatus(): { connections: number; symbols: number; listeners: number } {
+    return { connections: this.connections.size, ...this.priceStreamService.getStats() };
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    const connection: Connection = {
+      socket,
+      isAlive: true,
+      subscriptions: new Map(),
+      pendingQuotes: new Map(),
+      drainTimer: null,
+      queue: Promise.resolve()
+    };
+    this.connections.add(connection);
+
+    socket.on('pong', () => {
+      connection.isAlive = true;
+    });
+
+    socket.on('message', data => {
+      connection.queue = connection.queue.then(() => this.handleMessage(connection, data));
+    });
+
+    socket.on('close', () => {
+      connection.subscriptions.forEach(unsubscribe => unsubscribe());
+      connection.subscriptions.clear();
+      connection.pendingQuotes.clear();
+      if (connection.drainTimer) {
+        clearTimeout(connection.drainTimer);
+      }
+      this.connections.delete(connection);
+    });
+
+    socket.on('error', error => {
+      logger.warn('Price stream socket error:', { message: error.message });
+    });
+
+    this.sendSubscriptions(connection);
+  }
+
+  private async handleMessage(connection: Connection, data: RawData): Promise<void> {
+    let request: PriceStreamRequest;
+    try {
+      request = JSON.parse(data.toString());
+    } catch {
+      this.send(connection, { type: 'error', error: 'Messages must be JSON' });
+      return;
+    }
+
+    if (!request || (request.action !== 'subscribe' && request.action !== 'unsubscribe')) {
+      this.send(connection, { type: 'error', error: 'action must be subscribe or unsubscribe' });
+      return;
+    }
+
+    const stocks = request.stocks ?? [];
+    const crypto = request.crypto ?? [];
+    if (!Array.isArray(stocks) || !Array.isArray(crypto)) {
+      this.send(connection, { type: 'error', error: 'stocks and crypto must be arrays of symbols' });
+      return;
+    }
+
+    const invalid = [...stocks, ...crypto].find(symbol => typeof symbol !== 'string' || !/^[A-Za-z0-9-]+$/.test(symbol));
+    if (invalid !== undefined) {
+      this.send(connection, { type: 'error', error: `Invalid symbol format: ${invalid}` });
+      return;
+    }
+
+    const requested: [AssetType, string][] = [
+      ...stocks.map((symbol): [AssetType, string] => ['stock', symbol]),
+      ...crypto.map((symbol): [AssetType, string] => ['crypto', symbol])
+    ];
+
+    // Checked again after resolution; this bound keeps an oversized request from triggering lookups
+    if (requested.length > this.maxSubscriptions) {
+      this.send(connection, { type: 'error', error: `Too many subscriptions (max ${this.maxSubscriptions} per connection)` });
+      return;
+    }
+
+    let instruments: Instrument[];
+    try {
+      const resolved = await Promise.all(requested.map(([type, symbol]) => this.symbolResolver.resolve(symbol, type)));
+      const unknown = requested.find((_, i) => !resolved[i]);
+      if (unknown && request.action === 'subscribe') {
+        this.send(connection, { type: 'error', error: `Unknown symbol: ${unknown[1]}`, symbol: unknown[1] });
+        return;
+      }
+      instruments = resolved.filter((instrument): instrument is Instrument => instrument !== null);
+    } catch (error: any) {
+      this.send(connection, { type: 'error', error: error.message });
+      return;
+    }
+
+    // The socket may have closed while symbols were being resolved
+    if (connection.socket.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    if (request.action === 'unsubscribe') {
+      instruments.forEach(instrument => {
+        const key = PriceStreamService.key(instrument);
+        connection.subscriptions.get(key)?.();
+        connection.subscriptions.delete(key);
+        connection.pendingQuotes.delete(key);
+      });
+      this.sendSubscriptions(connection);
+      return;
+    }
+
+    // The request is rejected as a whole rather than partially applied
+    const added = new Set(instruments
+      .map(instrument => PriceStreamService.key(instrument))
+      .filter(key => !connection.subscriptions.has(key)));
+    if (connection.subscriptions.size + added.size > this.maxSubscriptions) {
+      this.send(connection, { type: 'error', error: `Too many subscriptions (max ${this.maxSubscriptions} per connection)` });
+      return;
+    }
+
+    instruments.forEach(instrument => {
+      const key = PriceStreamService.key(instrument);
+      if (connection.subscriptions.has(key)) {
+        return;
+      }
+      const unsubscribe = this.priceStreamService.subscribe(instrument, update => {
+        if ('quote' in update) {
+          this.sendQuote(connection, key, update.quote);
+        } else {
+          this.send(connection, { type: 'error', error: update.error, symbol: instrument.symbol });
+        }
+      });
+      connection.subscriptions.set(key, unsubscribe);
+    });
+    this.sendSubscriptions(connection);
+  }
+
+  private sendSubscriptions(connection: Connection): void {
+    const stocks: string[] = [];
+    const crypto: string[] = [];
+    connection.subscriptions.forEach((_, key) => {
+      const [type, symbol] = key.split(':');
+      (type === 'crypto' ? crypto : stocks).push(symbol);
+    });
+    this.send(connection, { type: 'subscriptions', stocks, crypto });
+  }
+
+  // Slow consumers get conflated updates: while the socket buffer is above the high-water
+  // mark only the newest quote per symbol is held, and it is sent once the buffer drains.
+  private sendQuote(connection: Connection, key: string, quote: MarketData): void {
+    const { socket } = connection;
+    if (socket.bufferedAmount > BUFFER_HARD_LIMIT) {
+      logger.warn('Disconnecting slow price stream consumer');
+      socket.terminate();
+      return;
+    }
+
+    if (socket.bufferedAmount > BUFFER_HIGH_WATER_MARK || connection.pendingQuotes.size > 0) {
+      connection.pendingQuotes.set(key, quote);
+      this.scheduleDrain(connection);
+      return;
+    }
+
+    this.send(connection, { type: 'quote', data: quote });
+  }
+
+  private scheduleDrain(connection: Connection): void {
+    if (connection.drainTimer) {
+      return;
+    }
+
+    connection.drainTimer = setTimeout(() => {
+      connection.drainTimer = null;
+      if (connection.socket.readyState !== WebSocket.OPEN) {
+        return;
+      }
+      if (connection.socket.bufferedAmount > BUFFER_HIGH_WATER_MARK) {
+        this.scheduleDrain(connection);
+        return;
+      }
+
+      const pending = Array.from(connection.pendingQuotes.values());
+      connection.pendingQuotes.clear();
+      pending.forEach(quote => this.send(connection, { type: 'quote', data: quote }));
+    }, DRAIN_CHECK_MS);
+  }
+
+  private send(connection: Connection, message: PriceStreamMessage): void {
+    if (connection.socket.readyState === WebSocket.OPEN) {
+      connection.socket.send(JSON.stringify(message));
+    }
+  }
+}
+
+export default PriceStreamController;
@@ -0,0 +1,38 @@
+import { Request, Response } from 'express';
+import UsageService, { UsageQuery, usageService as sharedUsageService } from '../services/usageService';
+import { ApiResponse } from '../types';
+import { ownerScope } from '../middleware/auth';
+import logger from '../utils/logger';
+
+class UsageController {
+  private usageService: UsageService;
+
+  constructor(usageService: UsageService = sharedUsageService) {
+    this.usageService = usageService;
+  }
+
+  // Regular keys only see their own user's usage; admins may pick a user or see everyone
+  async getUsage(req: Request, res: Response): Promise<void> {
+    try {
+      const query: UsageQuery = res.locals.usageQuery;
+      const userId = ownerScope(res) ?? (typeof req.query.userId === 'string' ? req.query.userId : undefined);
+      const report = await this.usageService.getReport({ ...query, userId });
+
+      res.json({
+        success: true,
+        data: report,
+        timestamp: new Date()
+      } as ApiResponse<typeof report>);
+
+    } catch (error) {
+      logger.error('Error in getUsage:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        timestamp: new Date()
+      } as ApiResponse<never>);
+    }
+  }
+}
+
+export default UsageController;
@@ -0,0 +1,159 @@
+import { Request, Response } from 'express';
+import WatchlistService, { WatchlistChanges, WatchlistInput } from '../services/watchlistService';
+import { SymbolLookupUnavailableError, UnknownSymbolError } from '../services/symbols';
+import { ApiResponse } from '../types';
+import { actingUserId, ownerScope } from '../middleware/auth';
+import logger from '../utils/logger';
+
+class WatchlistController {
+  private watchlistService: WatchlistService;
+
+  constructor(watchlistService: WatchlistService = new WatchlistService()) {
+    this.watchlistService = watchlistService;
+  }
+
+  async createWatchlist(req: Request, res: Response): Promise<void> {
+    try {
+      const input: WatchlistInput = res.locals.watchlistInput;
+      const userId = actingUserId(res, input.userId);
+      const watchlist = await this.watchlistService.createWatchlist({ ...input, userId });
+
+      res.status(201).json({
+        success: true,
+        data: watchlist,
+        timestamp: new Date()
+      } as ApiResponse<typeof watchlist>);
+
+    } catch (error) {
+      this.sendError(res, 'createWatchlist', error);
+    }
+  }
+
+  async listWatchlists(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = ownerScope(res) ?? (typeof req.query.userId === 'string' ? req.query.userId : undefined);
+      const watchlists = await this.watchlistService.listWatchlists(userId);
+
+      res.json({
+        success: true,
+        data: watchlists,
+        timestamp: new Date()
+      } as ApiResponse<typeof watchlists>);
+
+    } catch (error) {
+      this.sendError(res, 'listWatchlists', error);
+    }
+  }
+
+  async getWatchlist(req: Request, res: Response): Promise<void> {
+    try {
+      const watchlist = await this.watchlistService.getWatchlist(req.params.id, ownerScope(res));
+      if (!watchlist) {
+        this.sendNotFound(res, req.params.id);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: watchlist,
+        timestamp: new Date()
+      } as ApiResponse<typeof watchlist>);
+
+    } catch (error) {
+      this.sendError(res, 'getWatchlist', error);
+    }
+  }
+
+  async updateWatchlist(req: Request, res: Response): Promise<void> {
+    try {
+      const changes: WatchlistChanges = res.locals.watchlistInput;
+      const watchlist = await this.watchlistService.updateWatchlist(req.params.id, changes, ownerScope(res));
+      if (!watchlist) {
+        this.sendNotFound(res, req.params.id);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: watchlist,
+        timestamp: new Date()
+      } as ApiResponse<typeof watchlist>);
+
+    } catch (error) {
+      this.sendError(res, 'updateWatchlist', error);
+    }
+  }
+
+  async deleteWatchlist(req: Request, res: Response): Promise<void> {
+    try {
+      if (!await this.watchlistService.deleteWatchlist(req.params.id, ownerScope(res))) {
+        this.sendNotFound(res, req.params.id);
+        return;
+      }
+      res.status(204).end();
+
+    } catch (error) {
+      this.sendError(res, 'deleteWatchlist', error);
+    }
+  }
+
+  async getDigest(req: Request, res: Response): Promise<void> {
+    try {
+      const digest = await this.watchlistService.getDigest(req.params.id, {
+        ...res.locals.digestOptions,
+        currency: res.locals.currency
+      }, ownerScope(res));
+      if (!digest) {
+        this.sendNotFound(res, req.params.id);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: digest,
+        timestamp: new Date()
+      } as ApiResponse<typeof digest>);
+
+    } catch (error) {
+      this.sendError(res, 'getDigest', error);
+    }
+  }
+
+  private sendNotFound(res: Response, id: string): void {
+    res.status(404).json({
+      success: false,
+      error: `Watchlist not found: ${id}`,
+      timestamp: new Date()
+    } as ApiResponse<never>);
+  }
+
+  private sendError(res: Response, handler: string, error: unknown): void {
+    if (error instanceof UnknownSymbolError) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date()
+      } as ApiResponse<never>);
+      return;
+    }
+
+    if (error instanceof SymbolLookupUnavailableError) {
+      res.status(503).json({
+        success: false,
+        error: 'Symbol lookup is temporarily unavailable',
+        details: { failedProviders: error.failures },
+        timestamp: new Date()
+      } as ApiResponse<never>);
+      return;
+    }
+
+    logger.error(`Error in ${handler}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: new Date()
+    } as ApiResponse<never>);
+  }
+}
+
+export default WatchlistController;
@@ -0,0 +1,154 @@
+import { IncomingMessage } from 'http';
+import { Request, Response, NextFunction } from 'express';
+import ApiKeyService from '../services/apiKeyService';
+import { ApiKey, ApiResponse, ApiScope } from '../types';
+import { ANONYMOUS_USER_ID, setRequestCaller } from '../utils/requestContext';
+import logger from '../utils/logger';
+
+// Reachable without a key even when authentication is required
+const PUBLIC_PATHS = new Set(['/health']);
+
+const unauthorized = (res: Response, error: string): void => {
+  res.setHeader('WWW-Authenticate', 'Bearer');
+  res.status(401).json({
+    success: false,
+    error,
+    timestamp: new Date()
+  } as ApiResponse<never>);
+};
+
+// Accepts `Authorization: Bearer <key>` or `X-API-Key: <key>`
+const extractKey = (headers: IncomingMessage['headers']): string | null => {
+  const authorization = headers.authorization;
+  if (typeof authorization === 'string' && /^Bearer\s+/i.test(authorization)) {
+    return authorization.replace(/^Bearer\s+/i, '').trim() || null;
+  }
+  const header = headers['x-api-key'];
+  return typeof header === 'string' && header.trim() ? header.trim() : null;
+};
+
+const hasScope = (apiKey: ApiKey, scope: ApiScope): boolean =>
+  apiKey.scopes.includes(scope) || apiKey.scopes.includes('admin');
+
+// The user whose resources a request is confined to: the key's user for regular keys,
+// the shared anonymous user for requests without a key, and undefined (no restriction)
+// for admin keys
+export const ownerScope = (res: Response): string | undefined => {
+  const auth: ApiKey | undefined = res.locals.auth;
+  if (!auth) {
+    return ANONYMOUS_USER_ID;
+  }
+  return auth.scopes.includes('admin') ? undefined : auth.userId;
+};
+
+// The user a request acts as. Only admin keys may name another user in the request.
+export const actingUserId = (res: Response, requested?: string): string => {
+  const auth: ApiKey | undefined = res.locals.auth;
+  if (!auth) {
+    return ANONYMOUS_USER_ID;
+  }
+  return auth.scopes.includes('admin') ? requested ?? auth.userId : auth.userId;
+};
+
+// Resolves API keys into res.locals.auth. With AUTH_REQUIRED off (the default outside
+// production) requests without a key still pass, acting as the anonymous user, but a key
+// that is sent must be valid, and admin routes always need one.
+class Authenticator {
+  private apiKeyService: ApiKeyService;
+  private required: boolean;
+
+  constructor(apiKeyService: ApiKeyService) {
+    this.apiKeyService = apiKeyService;
+    this.required = process.env.AUTH_REQUIRED !== undefined
+      ? process.env.AUTH_REQUIRED === 'true'
+      : process.env.NODE_ENV === 'production';
+
+    if (!this.required) {
+      logger.warn('AUTH_REQUIRED is off: requests without an API key are accepted');
+    }
+  }
+
+  middleware = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const key = extractKey(req.headers);
+
+    if (!key) {
+      if (this.required && !PUBLIC_PATHS.has(req.path)) {
+        unauthorized(res, 'API key required');
+        return;
+      }
+      this.identify(req, res);
+      next();
+      return;
+    }
+
+    try {
+      const apiKey = await this.apiKeyService.authenticate(key);
+      if (!apiKey) {
+        unauthorized(res, 'Invalid or revoked API key');
+        return;
+      }
+      res.locals.auth = apiKey;
+      this.identify(req, res);
+      next();
+    } catch (error) {
+      logger.error('Error authenticating API key:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        timestamp: new Date()
+      } as ApiResponse<never>);
+    }
+  };
+
+  requireScope = (scope: ApiScope) => (req: Request, res: Response, next: NextFunction): void => {
+    const auth: ApiKey | undefined = res.locals.auth;
+
+    if (!auth) {
+      if (this.required || scope === 'admin') {
+        unauthorized(res, 'API key required');
+        return;
+      }
+      next();
+      return;
+    }
+
+    if (!hasScope(auth, scope)) {
+      res.status(403).json({
+        success: false,
+        error: `API key lacks the ${scope} scope`,
+        timestamp: new Date()
+      } as ApiResponse<never>);
+      return;
+    }
+
+    next();
+  };
+
+  // Records who the request acts for, so LLM usage deeper in the call is attributed to them
+  private identify(req: Request, res: Response): void {
+    const auth: ApiKey | undefined = res.locals.auth;
+    const requested = typeof req.body?.userId === 'string' ? req.body.userId : undefined;
+    setRequestCaller({ userId: actingUserId(res, requested), apiKeyId: auth?.id });
+  }
+
+  // WebSocket upgrades skip Express, so they are checked here. Browsers can't set headers
+  // on a WebSocket, so the key may also come as ?api_key=.
+  async authorizeUpgrade(req: IncomingMessage, scope: ApiScope): Promise<boolean> {
+    const query = new URL(req.url || '/', 'http://localhost').searchParams.get('api_key');
+    const key = extractKey(req.headers) || query;
+
+    if (!key) {
+      return !this.required;
+    }
+
+    try {
+      const apiKey = await this.apiKeyService.authenticate(key);
+      return apiKey !== null && hasScope(apiKey, scope);
+    } catch (error) {
+      logger.error('Error authenticating WebSocket upgrade:', error);
+      return false;
+    }
+  }
+}
+
+export default Authenticator;
@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from 'express';
+import { getRequestContext, runWithRequestContext } from '../utils/requestContext';
+
+// Adds `cached` and `cacheAge` (seconds) to JSON API responses whose handler read
+// through the cache. A response only counts as cached if every lookup was a hit.
+export const cacheMetadata = (req: Request, res: Response, next: NextFunction): void => {
+  runWithRequestContext(() => {
+    const context = getRequestContext();
+    const json = res.json.bind(res);
+
+    res.json = (body?: any) => {
+      const lookups = context?.cacheLookups || [];
+      if (lookups.length > 0 && body && typeof body === 'object' && 'success' in body) {
+        const cached = lookups.every(lookup => lookup.hit);
+        body = {
+          ...body,
+          cached,
+          cacheAge: cached ? Math.round(Math.max(...lookups.map(lookup => lookup.ageMs)) / 1000) : undefined
+        };
+      }
+      return json(body);
+    };
+
+    next();
+  });
+};
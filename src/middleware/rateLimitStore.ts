@@ -0,0 +1,100 @@
+export interface BucketPolicy {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface ConsumeResult {
+  allowed: boolean;
+  // Tokens left after this request (or before it, when it was rejected)
+  remaining: number;
+  // Until enough tokens for the request are available; 0 when allowed
+  retryAfterMs: number;
+  // Until the bucket is full again
+  resetMs: number;
+}
+
+// Backend for the rate limiter. Both operations must be atomic per key so that
+// instances sharing a store (e.g. Redis with a Lua script) can't overspend a bucket.
+export interface RateLimitStore {
+  // Refills the bucket for the time elapsed since its last use, then takes `cost`
+  // tokens if that many are available. Unknown keys start full.
+  consume(key: string, cost: number, policy: BucketPolicy): Promise<ConsumeResult>;
+  // Gives back tokens taken by consume, up to the bucket's capacity
+  refund(key: string, cost: number, policy: BucketPolicy): Promise<void>;
+  // Adds one to a counter that disappears at `expiresAt` (epoch ms) and returns the new count
+  increment(key: string, expiresAt: number): Promise<number>;
+  // Drops expired state; stores that expire keys themselves can omit it
+  cleanup?(): Promise<void>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  // When the bucket would be full, after which it can be dropped
+  fullAt: number;
+}
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, Bucket>();
+  private counters = new Map<string, { count: number; expiresAt: number }>();
+
+  async consume(key: string, cost: number, policy: BucketPolicy): Promise<ConsumeResult> {
+    const now = Date.now();
+    const bucket = this.buckets.get(key);
+    const elapsedSeconds = bucket ? (now - bucket.updatedAt) / 1000 : 0;
+    let tokens = bucket
+      ? Math.min(policy.capacity, bucket.tokens + elapsedSeconds * policy.refillPerSecond)
+      : policy.capacity;
+
+    const allowed = tokens >= cost;
+    if (allowed) {
+      tokens -= cost;
+    }
+
+    const resetMs = Math.ceil(((policy.capacity - tokens) / policy.refillPerSecond) * 1000);
+    this.buckets.set(key, { tokens, updatedAt: now, fullAt: now + resetMs });
+
+    return {
+      allowed,
+      remaining: Math.floor(tokens),
+      retryAfterMs: allowed ? 0 : Math.ceil(((cost - tokens) / policy.refillPerSecond) * 1000),
+      resetMs
+    };
+  }
+
+  async refund(key: string, cost: number, policy: BucketPolicy): Promise<void> {
+    const bucket = this.buckets.get(key);
+    if (!bucket) {
+      return;
+    }
+    const now = Date.now();
+    const tokens = Math.min(policy.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * policy.refillPerSecond + cost);
+    const resetMs = Math.ceil(((policy.capacity - tokens) / policy.refillPerSecond) * 1000);
+    this.buckets.set(key, { tokens, updatedAt: now, fullAt: now + resetMs });
+  }
+
+  async increment(key: string, expiresAt: number): Promise<number> {
+    const counter = this.counters.get(key);
+    if (!counter || Date.now() >= counter.expiresAt) {
+      this.counters.set(key, { count: 1, expiresAt });
+      return 1;
+    }
+    counter.count++;
+    return counter.count;
+  }
+
+  // Full buckets behave exactly like missing ones, so they are dropped
+  async cleanup(): Promise<void> {
+    const now = Date.now();
+    this.buckets.forEach((bucket, key) => {
+      if (now >= bucket.fullAt) {
+        this.buckets.delete(key);
+      }
+    });
+    this.counters.forEach((counter, key) => {
+      if (now >= counter.expiresAt) {
+        this.counters.delete(key);
+      }
+    });
+  }
+}
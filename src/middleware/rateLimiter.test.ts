@@ -0,0 +1,163 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+import RateLimiter, { parseTrustProxy } from './rateLimiter';
+import { InMemoryRateLimitStore } from './rateLimitStore';
+import { ApiKey } from '../types';
+
+const POLICIES = {
+  ai: { capacity: 6, refillPerSecond: 0.001 },
+  data: { capacity: 10, refillPerSecond: 0.001 },
+  default: { capacity: 20, refillPerSecond: 0.001 }
+};
+
+const apiKey = (overrides: Partial<ApiKey> = {}): ApiKey => ({
+  id: 'key-1',
+  name: 'test',
+  userId: 'user-1',
+  scopes: ['market'],
+  prefix: 'fsk_abcdef',
+  rateLimit: null,
+  dailyQuota: null,
+  createdAt: new Date(),
+  revokedAt: null,
+  ...overrides
+});
+
+interface Outcome {
+  passed: boolean;
+  status: number | null;
+  body: any;
+  headers: Record<string, unknown>;
+}
+
+// Runs one request through a limiter middleware with a minimal request and response
+const send = async (
+  middleware: ReturnType<RateLimiter['limitAll']>,
+  options: { auth?: ApiKey; query?: Record<string, string>; ip?: string } = {}
+): Promise<Outcome> => {
+  const outcome: Outcome = { passed: false, status: null, body: null, headers: {} };
+  const req = { ip: options.ip ?? '203.0.113.1', socket: {}, query: options.query ?? {} } as unknown as Request;
+  const res = {
+    locals: { auth: options.auth },
+    setHeader: (name: string, value: unknown) => {
+      outcome.headers[name] = value;
+    },
+    status: (code: number) => {
+      outcome.status = code;
+      return res;
+    },
+    json: (body: unknown) => {
+      outcome.body = body;
+      return res;
+    }
+  } as unknown as Response;
+
+  await middleware(req, res, () => {
+    outcome.passed = true;
+  });
+  return outcome;
+};
+
+test('a group bucket allows requests until its tokens are spent', async () => {
+  const limiter = new RateLimiter(new InMemoryRateLimitStore(), POLICIES);
+  const middleware = limiter.limit('data', 3);
+
+  for (let i = 0; i < 3; i++) {
+    assert.equal((await send(middleware)).passed, true);
+  }
+  const denied = await send(middleware);
+  assert.equal(denied.passed, false);
+  assert.equal(denied.status, 429);
+  assert.deepEqual(denied.body.details, { group: 'data', cost: 3 });
+  assert.ok(Number(denied.headers['Retry-After']) >= 1);
+  assert.equal(denied.headers['RateLimit-Limit'], 10);
+});
+
+test('clients are counted separately, by key or by address', async () => {
+  const limiter = new RateLimiter(new InMemoryRateLimitStore(), POLICIES);
+  const middleware = limiter.limit('ai', 6);
+
+  assert.equal((await send(middleware, { ip: '203.0.113.1' })).passed, true);
+  assert.equal((await send(middleware, { ip: '203.0.113.1' })).passed, false);
+  assert.equal((await send(middleware, { ip: '203.0.113.2' })).passed, true);
+  assert.equal((await send(middleware, { ip: '203.0.113.1', auth: apiKey() })).passed, true);
+});
+
+test('a denied multi-group request refunds the buckets it already charged', async () => {
+  const limiter = new RateLimiter(new InMemoryRateLimitStore(), POLICIES);
+  const digest = limiter.limitAll({ data: 3, ai: req => (req.query.summary === 'true' ? 3 : 0) });
+  const analyze = limiter.limit('ai', 6);
+  const market = limiter.limit('data', 10);
+
+  // Spend the ai bucket, then try digests with summaries: each is denied by ai
+  assert.equal((await send(analyze)).passed, true);
+  for (let i = 0; i < 3; i++) {
+    const denied = await send(digest, { query: { summary: 'true' } });
+    assert.equal(denied.status, 429);
+    assert.deepEqual(denied.body.details, { group: 'data+ai', cost: 6 });
+  }
+
+  // The data bucket was refunded each time, so it is still full
+  assert.equal((await send(market)).passed, true);
+});
+
+test("a key's own rate limit is shared across groups and refunded on denial", async () => {
+  const limiter = new RateLimiter(new InMemoryRateLimitStore(), POLICIES);
+  const auth = apiKey({ rateLimit: 8 });
+
+  assert.equal((await send(limiter.limit('default', 5), { auth })).passed, true);
+  const denied = await send(limiter.limit('data', 4), { auth });
+  assert.equal(denied.status, 429);
+  assert.equal((await send(limiter.limit('data', 3), { auth })).passed, true);
+});
+
+test('a request costing more than a bucket holds is refused with 403, not 429', async () => {
+  const limiter = new RateLimiter(new InMemoryRateLimitStore(), POLICIES);
+  const digest = limiter.limitAll({ data: 3, ai: 3 });
+
+  const keyLimited = await send(digest, { auth: apiKey({ rateLimit: 5 }) });
+  assert.equal(keyLimited.status, 403);
+  assert.match(keyLimited.body.error, /API key's rate limit/);
+  assert.equal(keyLimited.headers['Retry-After'], undefined);
+
+  const groupLimited = await send(limiter.limit('ai', 7));
+  assert.equal(groupLimited.status, 403);
+  assert.deepEqual(groupLimited.body.details, { group: 'ai', cost: 7, capacity: 6 });
+});
+
+test('the daily quota counts matched requests and rejects once used up', async () => {
+  const limiter = new RateLimiter(new InMemoryRateLimitStore(), POLICIES);
+  const auth = apiKey({ dailyQuota: 2 });
+  const free = limiter.limit('default', 0);
+
+  const first = await send(free, { auth });
+  assert.equal(first.passed, true);
+  assert.equal(first.headers['X-Daily-Quota-Remaining'], 1);
+  assert.equal((await send(free, { auth })).passed, true);
+
+  const exceeded = await send(free, { auth });
+  assert.equal(exceeded.status, 429);
+  assert.equal(exceeded.body.error, 'Daily quota exceeded');
+});
+
+test('the in-memory store refills over time and caps refunds at capacity', async () => {
+  const store = new InMemoryRateLimitStore();
+  const policy = { capacity: 2, refillPerSecond: 1000 };
+
+  assert.equal((await store.consume('k', 2, policy)).allowed, true);
+  await new Promise(resolve => setTimeout(resolve, 5));
+  assert.equal((await store.consume('k', 2, policy)).allowed, true);
+
+  await store.refund('k', 50, policy);
+  const result = await store.consume('k', 0, policy);
+  assert.equal(result.remaining, 2);
+});
+
+test('parseTrustProxy accepts booleans, hop counts and address lists', () => {
+  assert.equal(parseTrustProxy(undefined), false);
+  assert.equal(parseTrustProxy('false'), false);
+  assert.equal(parseTrustProxy('true'), true);
+  assert.equal(parseTrustProxy('2'), 2);
+  assert.equal(parseTrustProxy('loopback, 10.0.0.0/8'), 'loopback, 10.0.0.0/8');
+});
@@ -1,57 +1,201 @@
 import { Request, Response, NextFunction } from 'express';
-import { ApiResponse } from '../types';
+import { ApiKey, ApiResponse } from '../types';
+import { BucketPolicy, ConsumeResult, InMemoryRateLimitStore, RateLimitStore } from './rateLimitStore';
+import logger from '../utils/logger';
 
-interface RateLimitStore {
-  [key: string]: {
-    count: number;
-    resetTime: number;
-  };
-}
+// Each group has its own bucket per client, so heavy analysis traffic can't starve
+// market data lookups and the other way round
+export type RouteGroup = 'ai' | 'data' | 'default';
+
+// Tokens a request costs, fixed or priced from its parameters
+type Cost = number | ((req: Request) => number);
+
+const DEFAULT_POLICIES: Record<RouteGroup, BucketPolicy> = {
+  ai: { capacity: 30, refillPerSecond: 10 / 60 },
+  data: { capacity: 120, refillPerSecond: 1 },
+  default: { capacity: 200, refillPerSecond: 2 }
+};
+
+// A key's own rateLimit is spent over this window, on top of the group buckets
+const KEY_LIMIT_WINDOW_SECONDS = 15 * 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// RATE_LIMIT_<GROUP>_CAPACITY / RATE_LIMIT_<GROUP>_REFILL_PER_MINUTE override the defaults
+const loadPolicies = (): Record<RouteGroup, BucketPolicy> => {
+  const policies = { ...DEFAULT_POLICIES };
+  for (const group of Object.keys(policies) as RouteGroup[]) {
+    const prefix = `RATE_LIMIT_${group.toUpperCase()}`;
+    const capacity = parseInt(process.env[`${prefix}_CAPACITY`] || '', 10);
+    const refill = parseFloat(process.env[`${prefix}_REFILL_PER_MINUTE`] || '');
+    policies[group] = {
+      capacity: capacity > 0 ? capacity : policies[group].capacity,
+      refillPerSecond: refill > 0 ? refill / 60 : policies[group].refillPerSecond
+    };
+  }
+  return policies;
+};
+
+// Value for Express's `trust proxy` setting from TRUST_PROXY: a hop count, a list of
+// trusted proxy addresses/subnets (or `loopback`, `uniquelocal`...), or true/false.
+// With it set, req.ip is the client address from X-Forwarded-For instead of the proxy's.
+export const parseTrustProxy = (value: string | undefined): boolean | number | string => {
+  if (!value || value === 'false') {
+    return false;
+  }
+  if (value === 'true') {
+    return true;
+  }
+  return /^\d+$/.test(value) ? parseInt(value, 10) : value;
+};
+
+const startOfNextUtcDay = (now: number): number => Math.floor(now / DAY_MS) * DAY_MS + DAY_MS;
 
+// Token-bucket limiting per route group. Requests with an API key are counted per key
+// (plus the key's own rateLimit and daily quota); anonymous requests per client IP.
 class RateLimiter {
-  private store: RateLimitStore = {};
-  private maxRequests: number;
-  private windowMs: number;
+  private store: RateLimitStore;
+  private policies: Record<RouteGroup, BucketPolicy>;
+
+  constructor(store: RateLimitStore = new InMemoryRateLimitStore(), policies: Record<RouteGroup, BucketPolicy> = loadPolicies()) {
+    this.store = store;
+    this.policies = policies;
+  }
 
-  constructor(maxRequests: number = 500, windowMs: number = 15 * 60 * 1000) {
-    this.maxRequests = maxRequests;
-    this.windowMs = windowMs;
+  // Takes `cost` tokens from the client's bucket for `group`. A cost function can price
+  // a request by its parameters; a cost of 0 skips the check.
+  limit(group: RouteGroup, cost: Cost = 1) {
+    return this.limitAll({ [group]: cost });
   }
 
-  middleware = (req: Request, res: Response, next: NextFunction): void => {
-    const key = req.ip || 'unknown';
-    const now = Date.now();
+  // Charges several groups at once, e.g. a route that fetches data and may call the model.
+  // The request passes only if every bucket allows it; when one denies it, the tokens
+  // already taken from the others are given back, so rejected requests cost nothing.
+  // Requests are also counted against the key's daily quota here, once a route has
+  // matched, so unknown paths don't use it up.
+  limitAll(costs: Partial<Record<RouteGroup, Cost>>) {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const auth: ApiKey | undefined = res.locals.auth;
+      if (auth && !await this.checkQuota(auth, res)) {
+        return;
+      }
+
+      const charges = (Object.entries(costs) as [RouteGroup, Cost][])
+        .map(([group, cost]) => ({ group, price: typeof cost === 'function' ? cost(req) : cost }))
+        .filter(charge => charge.price > 0);
+      if (charges.length === 0) {
+        next();
+        return;
+      }
+
+      const client = auth ? `key:${auth.id}` : `ip:${req.ip || req.socket.remoteAddress || 'unknown'}`;
+
+      // The key's own bucket is charged for the whole request, then each group's bucket
+      const total = charges.reduce((sum, charge) => sum + charge.price, 0);
+      const buckets: Array<{ key: string; policy: BucketPolicy; price: number }> = [];
+      if (auth?.rateLimit) {
+        buckets.push({
+          key: client,
+          policy: { capacity: auth.rateLimit, refillPerSecond: auth.rateLimit / KEY_LIMIT_WINDOW_SECONDS },
+          price: total
+        });
+      }
+      charges.forEach(({ group, price }) => buckets.push({ key: `${group}:${client}`, policy: this.policies[group], price }));
+
+      // A request that costs more than a bucket holds would be denied forever, so it is
+      // refused outright rather than told to retry
+      const oversized = buckets.find(bucket => bucket.price > bucket.policy.capacity);
+      if (oversized) {
+        res.status(403).json({
+          success: false,
+          error: oversized.key === client
+            ? "Request costs more than the API key's rate limit allows"
+            : 'Request costs more than the rate limit allows',
+          details: {
+            group: charges.map(charge => charge.group).join('+'),
+            cost: oversized.price,
+            capacity: oversized.policy.capacity
+          },
+          timestamp: new Date()
+        } as ApiResponse<never>);
+        return;
+      }
+
+      try {
+        const checks: Array<{ policy: BucketPolicy; result: ConsumeResult }> = [];
+        for (const bucket of buckets) {
+          const result = await this.store.consume(bucket.key, bucket.price, bucket.policy);
+          checks.push({ policy: bucket.policy, result });
+          if (!result.allowed) {
+            await Promise.all(buckets.slice(0, checks.length - 1).map(taken => this.store.refund(taken.key, taken.price, taken.policy)));
+            break;
+          }
+        }
+
+        // Headers describe the bucket that denied the request, or else the one closest to empty
+        const binding = checks.find(check => !check.result.allowed)
+          || checks.reduce((a, b) => (b.result.remaining < a.result.remaining ? b : a));
+        this.setHeaders(res, binding.policy, binding.result);
+
+        if (!binding.result.allowed) {
+          res.setHeader('Retry-After', Math.max(Math.ceil(binding.result.retryAfterMs / 1000), 1));
+          res.status(429).json({
+            success: false,
+            error: 'Too many requests',
+            details: {
+              group: charges.map(charge => charge.group).join('+'),
+              cost: total
+            },
+            timestamp: new Date()
+          } as ApiResponse<never>);
+          return;
+        }
+      } catch (error) {
+        // A store outage shouldn't take the API down with it
+        logger.error('Rate limit store unavailable, allowing request:', error);
+      }
 
-    if (!this.store[key] || now > this.store[key].resetTime) {
-      this.store[key] = {
-        count: 1,
-        resetTime: now + this.windowMs
-      };
       next();
-      return;
-    }
+    };
+  }
+
+  async cleanup(): Promise<void> {
+    await this.store.cleanup?.();
+  }
 
-    if (this.store[key].count >= this.maxRequests) {
-      res.status(429).json({
-        success: false,
-        error: 'Too many requests',
-        timestamp: new Date()
-      } as ApiResponse<never>);
-      return;
+  // Counts the request against the key's daily quota (per UTC day); false once it is
+  // used up and the 429 has been sent
+  private async checkQuota(auth: ApiKey, res: Response): Promise<boolean> {
+    if (auth.dailyQuota === null) {
+      return true;
     }
 
-    this.store[key].count++;
-    next();
-  };
+    try {
+      const now = Date.now();
+      const used = await this.store.increment(`quota:${auth.id}:${new Date(now).toISOString().slice(0, 10)}`, startOfNextUtcDay(now));
+      res.setHeader('X-Daily-Quota-Limit', auth.dailyQuota);
+      res.setHeader('X-Daily-Quota-Remaining', Math.max(auth.dailyQuota - used, 0));
 
-  cleanup() {
-    const now = Date.now();
-    Object.keys(this.store).forEach(key => {
-      if (now > this.store[key].resetTime) {
-        delete this.store[key];
+      if (used > auth.dailyQuota) {
+        res.setHeader('Retry-After', Math.ceil((startOfNextUtcDay(now) - now) / 1000));
+        res.status(429).json({
+          success: false,
+          error: 'Daily quota exceeded',
+          timestamp: new Date()
+        } as ApiResponse<never>);
+        return false;
       }
-    });
+    } catch (error) {
+      logger.error('Rate limit store unavailable, skipping daily quota:', error);
+    }
+    return true;
+  }
+
+  private setHeaders(res: Response, policy: BucketPolicy, result: ConsumeResult): void {
+    res.setHeader('RateLimit-Limit', policy.capacity);
+    res.setHeader('RateLimit-Remaining', result.remaining);
+    res.setHeader('RateLimit-Reset', Math.ceil(result.resetMs / 1000));
+    res.setHeader('RateLimit-Policy', `${policy.capacity};w=${Math.round(policy.capacity / policy.refillPerSecond)}`);
   }
 }
 
-export default RateLimiter;
\ No newline at end of file
+export default RateLimiter;
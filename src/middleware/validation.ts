@@ -1,45 +1,84 @@
 import { Request, Response, NextFunction } from 'express';
-import { ApiResponse } from '../types';
+import { ApiResponse, ApiScope, CandleInterval, HistoryRange, NewsSentiment } from '../types';
+import { INTERVAL_MS } from '../utils/candles';
+import { parseIndicatorSet } from '../utils/indicators';
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES } from '../services/fx';
+import { API_SCOPES } from '../services/apiKeyService';
+import { isPublicWebhookUrl } from '../services/webhookService';
+import { QueryNode, QuerySyntaxError, parseSearchQuery } from '../services/news';
+
+const badRequest = (res: Response, error: string): void => {
+  res.status(400).json({
+    success: false,
+    error,
+    timestamp: new Date()
+  } as ApiResponse<never>);
+};
+
+const MAX_ANALYSIS_HOLDINGS = 50;
 
 export const validateFinancialQuery = (req: Request, res: Response, next: NextFunction): void => {
   const { question } = req.body;
 
   if (!question) {
-    res.status(400).json({
-      success: false,
-      error: 'Question is required',
-      timestamp: new Date()
-    } as ApiResponse<never>);
+    badRequest(res, 'Question is required');
     return;
   }
 
   if (typeof question !== 'string') {
-    res.status(400).json({
-      success: false,
-      error: 'Question must be a string',
-      timestamp: new Date()
-    } as ApiResponse<never>);
+    badRequest(res, 'Question must be a string');
     return;
   }
 
   if (question.trim().length === 0) {
-    res.status(400).json({
-      success: false,
-      error: 'Question cannot be empty',
-      timestamp: new Date()
-    } as ApiResponse<never>);
+    badRequest(res, 'Question cannot be empty');
     return;
   }
 
   if (question.length > 1000) {
-    res.status(400).json({
-      success: false,
-      error: 'Question is too long (max 1000 characters)',
-      timestamp: new Date()
-    } as ApiResponse<never>);
+    badRequest(res, 'Question is too long (max 1000 characters)');
+    return;
+  }
+
+  const { currency } = req.body;
+  if (currency !== undefined && (typeof currency !== 'string' || !SUPPORTED_CURRENCIES.includes(currency.toUpperCase()))) {
+    badRequest(res, `Unsupported currency (expected one of ${SUPPORTED_CURRENCIES.join(', ')})`);
+    return;
+  }
+  if (currency !== undefined) {
+    req.body.currency = currency.toUpperCase();
+  }
+
+  const { holdings } = req.body;
+  if (holdings !== undefined) {
+    if (!Array.isArray(holdings) || holdings.length > MAX_ANALYSIS_HOLDINGS) {
+      badRequest(res, `holdings must be an array of at most ${MAX_ANALYSIS_HOLDINGS} entries`);
+      return;
+    }
+    for (const [i, holding] of holdings.entries()) {
+      const missing = ['symbol', 'type', 'quantity', 'costBasis'].find(field => holding?.[field] === undefined);
+      const error = missing ? `${missing} is required` : checkPositionFields(holding);
+      if (error) {
+        badRequest(res, `holdings[${i}]: ${error}`);
+        return;
+      }
+    }
+    req.body.holdings = holdings.map(({ symbol, type, quantity, costBasis }: any) => ({ symbol, type, quantity, costBasis }));
+  }
+
+  next();
+};
+
+// Parses the optional `currency` query parameter into res.locals.currency (default USD)
+export const validateCurrency = (req: Request, res: Response, next: NextFunction): void => {
+  const { currency = BASE_CURRENCY } = req.query;
+
+  if (typeof currency !== 'string' || !SUPPORTED_CURRENCIES.includes(currency.toUpperCase())) {
+    badRequest(res, `Unsupported currency (expected one of ${SUPPORTED_CURRENCIES.join(', ')})`);
     return;
   }
 
+  res.locals.currency = currency.toUpperCase();
   next();
 };
 
@@ -47,22 +86,648 @@ export const validateSymbol = (req: Request, res: Response, next: NextFunction):
   const { symbol } = req.params;
 
   if (!symbol) {
-    res.status(400).json({
-      success: false,
-      error: 'Symbol is required',
-      timestamp: new Date()
-    } as ApiResponse<never>);
+    badRequest(res, 'Symbol is required');
     return;
   }
 
   if (!/^[A-Za-z0-9-]+$/.test(symbol)) {
-    res.status(400).json({
-      success: false,
-      error: 'Invalid symbol format',
-      timestamp: new Date()
-    } as ApiResponse<never>);
+    badRequest(res, 'Invalid symbol format');
+    return;
+  }
+
+  next();
+};
+
+const CANDLE_INTERVALS: CandleInterval[] = ['1m', '5m', '1h', '1d'];
+
+// Window used when `from` is omitted
+const DEFAULT_SPAN_MS: Record<CandleInterval, number> = {
+  '1m': 6 * 60 * 60 * 1000,
+  '5m': 24 * 60 * 60 * 1000,
+  '1h': 7 * 24 * 60 * 60 * 1000,
+  '1d': 365 * 24 * 60 * 60 * 1000
+};
+
+const MAX_CANDLES = 5000;
+
+// Accepts ISO 8601 strings or unix timestamps in seconds
+const parseTimeParam = (value: unknown): Date | null => {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return null;
+  }
+  const date = /^\d+$/.test(value) ? new Date(parseInt(value, 10) * 1000) : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// Parses and checks `from`, `to` and `interval`; the result is stored in res.locals.historyRange
+export const validateHistoryRange = (req: Request, res: Response, next: NextFunction): void => {
+  const { from, to, interval = '1d' } = req.query;
+
+  if (!CANDLE_INTERVALS.includes(interval as CandleInterval)) {
+    badRequest(res, `Invalid interval (expected one of ${CANDLE_INTERVALS.join(', ')})`);
+    return;
+  }
+
+  const candleInterval = interval as CandleInterval;
+  const toDate = to === undefined ? new Date() : parseTimeParam(to);
+  const fromDate = from === undefined && toDate
+    ? new Date(toDate.getTime() - DEFAULT_SPAN_MS[candleInterval])
+    : parseTimeParam(from);
+
+  if (!fromDate || !toDate) {
+    badRequest(res, 'Invalid date (use ISO 8601 or unix seconds for from/to)');
+    return;
+  }
+
+  if (fromDate >= toDate) {
+    badRequest(res, '"from" must be before "to"');
+    return;
+  }
+
+  if (toDate.getTime() > Date.now() + INTERVAL_MS[candleInterval]) {
+    badRequest(res, '"to" cannot be in the future');
+    return;
+  }
+
+  if ((toDate.getTime() - fromDate.getTime()) / INTERVAL_MS[candleInterval] > MAX_CANDLES) {
+    badRequest(res, `Range too large for ${candleInterval} interval (max ${MAX_CANDLES} candles)`);
+    return;
+  }
+
+  const range: HistoryRange = { from: fromDate, to: toDate, interval: candleInterval };
+  res.locals.historyRange = range;
+  next();
+};
+
+export const validateAssetType = (req: Request, res: Response, next: NextFunction): void => {
+  const { type } = req.params;
+
+  if (type !== 'stock' && type !== 'crypto') {
+    badRequest(res, 'Invalid asset type (expected stock or crypto)');
+    return;
+  }
+
+  next();
+};
+
+// Parses the `set` query parameter; the specs are stored in res.locals.indicatorSpecs
+export const validateIndicatorSet = (req: Request, res: Response, next: NextFunction): void => {
+  const { set = 'sma20,ema50,rsi14,macd,bollinger' } = req.query;
+
+  if (typeof set !== 'string') {
+    badRequest(res, 'Indicator set must be a comma-separated string');
+    return;
+  }
+
+  try {
+    res.locals.indicatorSpecs = parseIndicatorSet(set);
+  } catch (error: any) {
+    badRequest(res, error.message);
+    return;
+  }
+
+  next();
+};
+
+const MAX_BATCH_SYMBOLS = 50;
+
+// Parses the `stocks` and `crypto` lists; results are stored in res.locals.quoteSymbols
+export const validateQuoteList = (req: Request, res: Response, next: NextFunction): void => {
+  const parseList = (value: unknown): string[] | null => {
+    if (value === undefined) {
+      return [];
+    }
+    if (typeof value !== 'string') {
+      return null;
+    }
+    return Array.from(new Set(value.split(',').map(symbol => symbol.trim()).filter(Boolean)));
+  };
+
+  const stocks = parseList(req.query.stocks);
+  const crypto = parseList(req.query.crypto);
+
+  if (!stocks || !crypto) {
+    badRequest(res, 'stocks and crypto must be comma-separated lists');
+    return;
+  }
+
+  if (stocks.length + crypto.length === 0) {
+    badRequest(res, 'At least one symbol is required');
+    return;
+  }
+
+  if (stocks.length + crypto.length > MAX_BATCH_SYMBOLS) {
+    badRequest(res, `Too many symbols (max ${MAX_BATCH_SYMBOLS})`);
+    return;
+  }
+
+  const invalid = [...stocks, ...crypto].find(symbol => !/^[A-Za-z0-9-]+$/.test(symbol));
+  if (invalid) {
+    badRequest(res, `Invalid symbol format: ${invalid}`);
+    return;
+  }
+
+  res.locals.quoteSymbols = { stocks, crypto };
+  next();
+};
+
+const MAX_SEARCH_RESULTS = 25;
+
+// Parses q, type and limit for symbol search into res.locals.symbolSearch
+export const validateSymbolSearch = (req: Request, res: Response, next: NextFunction): void => {
+  const { q, type, limit = '10' } = req.query;
+
+  if (typeof q !== 'string' || q.trim().length === 0) {
+    badRequest(res, 'Query parameter q is required');
+    return;
+  }
+
+  if (q.length > 50) {
+    badRequest(res, 'Query is too long (max 50 characters)');
+    return;
+  }
+
+  if (type !== undefined && type !== 'stock' && type !== 'crypto') {
+    badRequest(res, 'Invalid asset type (expected stock or crypto)');
+    return;
+  }
+
+  const limitNum = parseInt(limit as string, 10);
+  if (Number.isNaN(limitNum) || limitNum < 1) {
+    badRequest(res, 'limit must be a positive integer');
+    return;
+  }
+
+  res.locals.symbolSearch = { query: q.trim(), type, limit: Math.min(limitNum, MAX_SEARCH_RESULTS) };
+  next();
+};
+
+// Checks the position fields that are present; returns an error message or null
+const checkPositionFields = (body: any): string | null => {
+  if (body.symbol !== undefined && (typeof body.symbol !== 'string' || !/^\$?[A-Za-z0-9-]+$/.test(body.symbol))) {
+    return 'Invalid symbol format';
+  }
+  if (body.type !== undefined && body.type !== 'stock' && body.type !== 'crypto') {
+    return 'Invalid asset type (expected stock or crypto)';
+  }
+  if (body.quantity !== undefined && (typeof body.quantity !== 'number' || !Number.isFinite(body.quantity) || body.quantity <= 0)) {
+    return 'quantity must be a positive number';
+  }
+  if (body.costBasis !== undefined && (typeof body.costBasis !== 'number' || !Number.isFinite(body.costBasis) || body.costBasis < 0)) {
+    return 'costBasis must be a non-negative number';
+  }
+  if (body.acquiredAt !== undefined) {
+    const acquiredAt = typeof body.acquiredAt === 'string' ? new Date(body.acquiredAt) : null;
+    if (!acquiredAt || Number.isNaN(acquiredAt.getTime())) {
+      return 'acquiredAt must be an ISO 8601 date';
+    }
+    if (acquiredAt.getTime() > Date.now()) {
+      return 'acquiredAt cannot be in the future';
+    }
+  }
+  return null;
+};
+
+// Parsed portfolio fields go to res.locals.portfolioInput
+export const validatePortfolio = (req: Request, res: Response, next: NextFunction): void => {
+  const { name, currency, userId } = req.body || {};
+  const creating = req.method === 'POST';
+
+  if ((creating || name !== undefined) && (typeof name !== 'string' || name.trim().length === 0 || name.length > 100)) {
+    badRequest(res, 'name must be a non-empty string (max 100 characters)');
+    return;
+  }
+
+  if (!creating && (currency !== undefined || userId !== undefined)) {
+    badRequest(res, 'Only name can be changed; currency and owner are fixed at creation');
+    return;
+  }
+
+  if (currency !== undefined && (typeof currency !== 'string' || !SUPPORTED_CURRENCIES.includes(currency.toUpperCase()))) {
+    badRequest(res, `Unsupported currency (expected one of ${SUPPORTED_CURRENCIES.join(', ')})`);
+    return;
+  }
+
+  if (userId !== undefined && typeof userId !== 'string') {
+    badRequest(res, 'userId must be a string');
+    return;
+  }
+
+  res.locals.portfolioInput = {
+    name: name?.trim(),
+    currency: currency?.toUpperCase(),
+    userId
+  };
+  next();
+};
+
+// POST requires every field except acquiredAt; PATCH accepts any of quantity, costBasis
+// and acquiredAt. Parsed fields go to res.locals.positionInput.
+export const validatePosition = (req: Request, res: Response, next: NextFunction): void => {
+  const body = req.body || {};
+  const creating = req.method === 'POST';
+
+  if (creating) {
+    const missing = ['symbol', 'type', 'quantity', 'costBasis'].find(field => body[field] === undefined);
+    if (missing) {
+      badRequest(res, `${missing} is required`);
+      return;
+    }
+  } else {
+    if (body.symbol !== undefined || body.type !== undefined) {
+      badRequest(res, 'symbol and type cannot be changed; remove the position and add a new one');
+      return;
+    }
+    if (body.quantity === undefined && body.costBasis === undefined && body.acquiredAt === undefined) {
+      badRequest(res, 'Provide at least one of quantity, costBasis or acquiredAt');
+      return;
+    }
+  }
+
+  const error = checkPositionFields(body);
+  if (error) {
+    badRequest(res, error);
+    return;
+  }
+
+  res.locals.positionInput = Object.fromEntries(Object.entries({
+    symbol: body.symbol,
+    type: body.type,
+    quantity: body.quantity,
+    costBasis: body.costBasis,
+    acquiredAt: body.acquiredAt !== undefined ? new Date(body.acquiredAt) : undefined
+  }).filter(([, value]) => value !== undefined));
+  next();
+};
+
+// Longest percent-change window; samples for shorter windows are kept in memory
+const MAX_ALERT_WINDOW_MINUTES = 7 * 24 * 60;
+
+const checkAlertCondition = (condition: any): string | null => {
+  if (!condition || typeof condition !== 'object') {
+    return 'condition is required';
+  }
+
+  if (condition.type === 'above' || condition.type === 'below') {
+    if (typeof condition.price !== 'number' || !Number.isFinite(condition.price) || condition.price <= 0) {
+      return 'condition.price must be a positive number';
+    }
+    return null;
+  }
+
+  if (condition.type === 'percentChange') {
+    if (typeof condition.percent !== 'number' || !Number.isFinite(condition.percent) || condition.percent === 0 || Math.abs(condition.percent) > 1000) {
+      return 'condition.percent must be a non-zero number between -1000 and 1000 (negative for drops)';
+    }
+    const { windowMinutes } = condition;
+    if (windowMinutes !== undefined && (!Number.isInteger(windowMinutes) || windowMinutes < 1 || windowMinutes > MAX_ALERT_WINDOW_MINUTES)) {
+      return `condition.windowMinutes must be an integer between 1 and ${MAX_ALERT_WINDOW_MINUTES}`;
+    }
+    return null;
+  }
+
+  return 'condition.type must be above, below or percentChange';
+};
+
+// Parsed alert fields go to res.locals.alertInput
+export const validateAlert = (req: Request, res: Response, next: NextFunction): void => {
+  const { userId, symbol, type, currency, condition, webhookUrl } = req.body || {};
+
+  // Only admin keys act for the user named here; other requests act as their own user
+  if (userId !== undefined && (typeof userId !== 'string' || userId.trim().length === 0 || userId.length > 100)) {
+    badRequest(res, 'userId must be a non-empty string (max 100 characters)');
+    return;
+  }
+
+  if (symbol === undefined || type === undefined) {
+    badRequest(res, 'symbol and type are required');
+    return;
+  }
+  const fieldError = checkPositionFields({ symbol, type }) || checkAlertCondition(condition);
+  if (fieldError) {
+    badRequest(res, fieldError);
+    return;
+  }
+
+  if (currency !== undefined && (typeof currency !== 'string' || !SUPPORTED_CURRENCIES.includes(currency.toUpperCase()))) {
+    badRequest(res, `Unsupported currency (expected one of ${SUPPORTED_CURRENCIES.join(', ')})`);
+    return;
+  }
+
+  let url: URL | null = null;
+  try {
+    url = typeof webhookUrl === 'string' && webhookUrl.length <= 2048 ? new URL(webhookUrl) : null;
+  } catch {
+    url = null;
+  }
+  if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+    badRequest(res, 'webhookUrl must be an http(s) URL');
+    return;
+  }
+  // Host names are resolved and checked when the alert is created
+  if (!isPublicWebhookUrl(url)) {
+    badRequest(res, 'webhookUrl must point to a public host');
+    return;
+  }
+
+  res.locals.alertInput = {
+    userId,
+    symbol,
+    type,
+    currency: currency?.toUpperCase(),
+    condition: condition.type === 'percentChange'
+      ? { type: condition.type, percent: condition.percent, windowMinutes: condition.windowMinutes ?? 24 * 60 }
+      : { type: condition.type, price: condition.price },
+    webhookUrl: url.toString()
+  };
+  next();
+};
+
+export const validateAlertStatus = (req: Request, res: Response, next: NextFunction): void => {
+  const { status } = req.body || {};
+
+  if (status !== 'active' && status !== 'paused') {
+    badRequest(res, 'status must be active or paused');
+    return;
+  }
+
+  res.locals.alertStatus = status;
+  next();
+};
+
+const MAX_WATCHLIST_SYMBOLS = 50;
+const MAX_DIGEST_HEADLINES = 25;
+
+// POST requires name (userId is only used with admin keys); PATCH accepts name and/or
+// symbols (a symbols list replaces the current one). Parsed fields go to res.locals.watchlistInput.
+export const validateWatchlist = (req: Request, res: Response, next: NextFunction): void => {
+  const { userId, name, symbols } = req.body || {};
+  const creating = req.method === 'POST';
+
+  if (creating && userId !== undefined && (typeof userId !== 'string' || userId.trim().length === 0 || userId.length > 100)) {
+    badRequest(res, 'userId must be a non-empty string (max 100 characters)');
+    return;
+  }
+  if (!creating && userId !== undefined) {
+    badRequest(res, 'The owner of a watchlist cannot be changed');
+    return;
+  }
+  if (!creating && name === undefined && symbols === undefined) {
+    badRequest(res, 'Provide name and/or symbols');
+    return;
+  }
+
+  if ((creating || name !== undefined) && (typeof name !== 'string' || name.trim().length === 0 || name.length > 100)) {
+    badRequest(res, 'name must be a non-empty string (max 100 characters)');
+    return;
+  }
+
+  if (symbols !== undefined) {
+    if (!Array.isArray(symbols) || symbols.length > MAX_WATCHLIST_SYMBOLS) {
+      badRequest(res, `symbols must be an array of at most ${MAX_WATCHLIST_SYMBOLS} { symbol, type } entries`);
+      return;
+    }
+    for (const [i, item] of symbols.entries()) {
+      const error = item?.symbol === undefined || item?.type === undefined
+        ? 'symbol and type are required'
+        : checkPositionFields({ symbol: item.symbol, type: item.type });
+      if (error) {
+        badRequest(res, `symbols[${i}]: ${error}`);
+        return;
+      }
+    }
+  }
+
+  res.locals.watchlistInput = Object.fromEntries(Object.entries({
+    userId: creating ? userId : undefined,
+    name: name?.trim(),
+    symbols: symbols?.map(({ symbol, type }: any) => ({ symbol, type })) ?? (creating ? [] : undefined)
+  }).filter(([, value]) => value !== undefined));
+  next();
+};
+
+// Parses ?headlines= (default 10) and ?summary=true into res.locals.digestOptions
+export const validateDigestOptions = (req: Request, res: Response, next: NextFunction): void => {
+  const { headlines = '10', summary = 'false' } = req.query;
+
+  const headlineLimit = Number(headlines);
+  if (typeof headlines !== 'string' || !Number.isInteger(headlineLimit) || headlineLimit < 0 || headlineLimit > MAX_DIGEST_HEADLINES) {
+    badRequest(res, `headlines must be an integer between 0 and ${MAX_DIGEST_HEADLINES}`);
+    return;
+  }
+
+  if (summary !== 'true' && summary !== 'false') {
+    badRequest(res, 'summary must be true or false');
+    return;
+  }
+
+  res.locals.digestOptions = { headlineLimit, summary: summary === 'true' };
+  next();
+};
+
+const isLimit = (value: unknown): boolean =>
+  value === undefined || value === null || (Number.isInteger(value) && (value as number) > 0);
+
+// Body for issuing an API key; parsed fields go to res.locals.apiKeyInput
+export const validateApiKey = (req: Request, res: Response, next: NextFunction): void => {
+  const { name, userId, scopes, rateLimit, dailyQuota } = req.body || {};
+
+  if (typeof name !== 'string' || name.trim().length === 0 || name.length > 100) {
+    badRequest(res, 'name is required (max 100 characters)');
+    return;
+  }
+  if (typeof userId !== 'string' || userId.trim().length === 0 || userId.length > 100) {
+    badRequest(res, 'userId is required (max 100 characters)');
+    return;
+  }
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(scope => API_SCOPES.includes(scope))) {
+    badRequest(res, `scopes must be a non-empty array of ${API_SCOPES.join(', ')}`);
+    return;
+  }
+  if (!isLimit(rateLimit) || !isLimit(dailyQuota)) {
+    badRequest(res, 'rateLimit and dailyQuota must be positive integers or null');
+    return;
+  }
+
+  res.locals.apiKeyInput = {
+    name: name.trim(),
+    userId,
+    scopes: Array.from(new Set<ApiScope>(scopes)),
+    rateLimit,
+    dailyQuota
+  };
+  next();
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_USAGE_SPAN_DAYS = 731;
+
+const isDay = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+
+// Parses ?granularity=day|month&from=&to= (YYYY-MM-DD) into res.locals.usageQuery. By default
+// days cover the last 30 days and months the last 12 months, both up to today (UTC).
+export const validateUsageQuery = (req: Request, res: Response, next: NextFunction): void => {
+  const { granularity = 'day', from, to, apiKeyId } = req.query;
+
+  if (granularity !== 'day' && granularity !== 'month') {
+    badRequest(res, 'granularity must be day or month');
+    return;
+  }
+  if ((from !== undefined && !isDay(from)) || (to !== undefined && !isDay(to))) {
+    badRequest(res, 'from and to must be dates in YYYY-MM-DD format');
+    return;
+  }
+  if (apiKeyId !== undefined && typeof apiKeyId !== 'string') {
+    badRequest(res, 'apiKeyId must be a string');
+    return;
+  }
+
+  const end = (to as string | undefined) ?? new Date().toISOString().slice(0, 10);
+  let start = from as string | undefined;
+  if (start === undefined) {
+    const endDate = new Date(`${end}T00:00:00Z`);
+    start = granularity === 'month'
+      ? new Date(Date.UTC(endDate.getUTCFullYear(), endDate.getUTCMonth() - 11, 1)).toISOString().slice(0, 10)
+      : new Date(endDate.getTime() - 29 * DAY_MS).toISOString().slice(0, 10);
+  }
+
+  if (start > end) {
+    badRequest(res, 'from must not be after to');
+    return;
+  }
+  if ((Date.parse(end) - Date.parse(start)) / DAY_MS > MAX_USAGE_SPAN_DAYS) {
+    badRequest(res, `The range may span at most ${MAX_USAGE_SPAN_DAYS} days`);
+    return;
+  }
+
+  res.locals.usageQuery = { granularity, from: start, to: end, apiKeyId };
+  next();
+};
+
+const MAX_NEWS_RESULTS = 50;
+const NEWS_SENTIMENTS: NewsSentiment[] = ['positive', 'negative', 'neutral'];
+
+const parseBoundedInt = (value: unknown, fallback: number, min: number, max: number): number | null => {
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  return typeof value === 'string' && Number.isInteger(parsed) && parsed >= min && parsed <= max ? parsed : null;
+};
+
+// Parses ?keyword=&symbol=&sentiment=&limit= into res.locals.newsQuery
+export const validateNewsQuery = (req: Request, res: Response, next: NextFunction): void => {
+  const { keyword, symbol, sentiment } = req.query;
+
+  if (keyword !== undefined && (typeof keyword !== 'string' || keyword.trim().length === 0 || keyword.length > 100)) {
+    badRequest(res, 'keyword must be a non-empty string (max 100 characters)');
+    return;
+  }
+  if (symbol !== undefined && (typeof symbol !== 'string' || !/^[A-Za-z0-9-]{1,20}$/.test(symbol))) {
+    badRequest(res, 'Invalid symbol format');
+    return;
+  }
+  if (sentiment !== undefined && !NEWS_SENTIMENTS.includes(sentiment as NewsSentiment)) {
+    badRequest(res, `sentiment must be one of ${NEWS_SENTIMENTS.join(', ')}`);
+    return;
+  }
+
+  const limit = parseBoundedInt(req.query.limit, 10, 1, MAX_NEWS_RESULTS);
+  if (limit === null) {
+    badRequest(res, `limit must be an integer between 1 and ${MAX_NEWS_RESULTS}`);
+    return;
+  }
+
+  res.locals.newsQuery = { keyword: keyword?.trim(), symbol, sentiment, limit };
+  next();
+};
+
+const MAX_SENTIMENT_HOURS = 30 * 24;
+const MAX_SENTIMENT_HEADLINES = 25;
+
+// Parses ?hours= (default 72) and ?headlines= (default 5) into res.locals.sentimentOptions
+export const validateSentimentOptions = (req: Request, res: Response, next: NextFunction): void => {
+  const hours = parseBoundedInt(req.query.hours, 72, 1, MAX_SENTIMENT_HOURS);
+  if (hours === null) {
+    badRequest(res, `hours must be an integer between 1 and ${MAX_SENTIMENT_HOURS}`);
     return;
   }
 
+  const headlineLimit = parseBoundedInt(req.query.headlines, 5, 0, MAX_SENTIMENT_HEADLINES);
+  if (headlineLimit === null) {
+    badRequest(res, `headlines must be an integer between 0 and ${MAX_SENTIMENT_HEADLINES}`);
+    return;
+  }
+
+  res.locals.sentimentOptions = { hours, headlineLimit };
   next();
-};
\ No newline at end of file
+};
+
+const MAX_SEARCH_QUERY_LENGTH = 200;
+const MAX_SEARCH_SOURCES = 20;
+
+// A YYYY-MM-DD `to` covers the whole day
+const parseSearchDate = (value: unknown, endOfDay: boolean): Date | null => {
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+    return null;
+  }
+  return isDay(value) && endOfDay ? new Date(Date.parse(value) + DAY_MS - 1) : new Date(value);
+};
+
+// Parses ?q=&from=&to=&source=&sort=&limit=&cursor= into res.locals.newsSearch
+export const validateNewsSearch = (req: Request, res: Response, next: NextFunction): void => {
+  const { q, from, to, source, sort = 'relevance', cursor } = req.query;
+
+  if (typeof q !== 'string' || q.trim().length === 0 || q.length > MAX_SEARCH_QUERY_LENGTH) {
+    badRequest(res, `q must be a non-empty string (max ${MAX_SEARCH_QUERY_LENGTH} characters)`);
+    return;
+  }
+  let query: QueryNode;
+  try {
+    query = parseSearchQuery(q);
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      badRequest(res, `Invalid query: ${error.message}`);
+      return;
+    }
+    throw error;
+  }
+
+  const fromDate = from === undefined ? undefined : parseSearchDate(from, false);
+  const toDate = to === undefined ? undefined : parseSearchDate(to, true);
+  if (fromDate === null || toDate === null) {
+    badRequest(res, 'from and to must be ISO 8601 dates (YYYY-MM-DD or a full timestamp)');
+    return;
+  }
+  if (fromDate && toDate && fromDate > toDate) {
+    badRequest(res, 'from must not be after to');
+    return;
+  }
+
+  let sources: string[] | undefined;
+  if (source !== undefined) {
+    sources = typeof source === 'string' ? source.split(',').map(name => name.trim()).filter(Boolean) : [];
+    if (sources.length === 0 || sources.length > MAX_SEARCH_SOURCES) {
+      badRequest(res, `source must be a comma-separated list of 1 to ${MAX_SEARCH_SOURCES} feed names`);
+      return;
+    }
+  }
+
+  if (sort !== 'relevance' && sort !== 'date') {
+    badRequest(res, 'sort must be relevance or date');
+    return;
+  }
+  const limit = parseBoundedInt(req.query.limit, 10, 1, MAX_NEWS_RESULTS);
+  if (limit === null) {
+    badRequest(res, `limit must be an integer between 1 and ${MAX_NEWS_RESULTS}`);
+    return;
+  }
+  if (cursor !== undefined && (typeof cursor !== 'string' || cursor.length === 0 || cursor.length > 200)) {
+    badRequest(res, 'Invalid cursor');
+    return;
+  }
+
+  res.locals.newsSearch = { query, queryText: q.trim(), from: fromDate, to: toDate, sources, sort, limit, cursor };
+  next();
+};
@@ -1,20 +1,61 @@
+// Loaded before anything else so modules that read settings at import time see .env
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
-import dotenv from 'dotenv';
 import FinancialController from './controllers/financialController';
-import { validateFinancialQuery, validateSymbol } from './middleware/validation';
-import RateLimiter from './middleware/rateLimiter';
+import ConversationController from './controllers/conversationController';
+import PriceStreamController from './controllers/priceStreamController';
+import PortfolioController from './controllers/portfolioController';
+import AlertController from './controllers/alertController';
+import WatchlistController from './controllers/watchlistController';
+import AdminController from './controllers/adminController';
+import UsageController from './controllers/usageController';
+import {
+  validateFinancialQuery,
+  validateSymbol,
+  validateHistoryRange,
+  validateAssetType,
+  validateIndicatorSet,
+  validateQuoteList,
+  validateSymbolSearch,
+  validateCurrency,
+  validatePortfolio,
+  validatePosition,
+  validateAlert,
+  validateAlertStatus,
+  validateWatchlist,
+  validateDigestOptions,
+  validateApiKey,
+  validateUsageQuery,
+  validateNewsQuery,
+  validateSentimentOptions,
+  validateNewsSearch
+} from './middleware/validation';
+import RateLimiter, { parseTrustProxy } from './middleware/rateLimiter';
+import Authenticator from './middleware/auth';
+import ApiKeyService from './services/apiKeyService';
+import { cacheMetadata } from './middleware/cacheMetadata';
 import logger from './utils/logger';
 
-dotenv.config();
-
 const app = express();
 const port = process.env.PORT || 3000;
 
+// Behind a load balancer req.ip is the balancer's address unless its hops are trusted
+app.set('trust proxy', parseTrustProxy(process.env.TRUST_PROXY));
+
 // Initialize services
 const financialController = new FinancialController();
+const conversationController = new ConversationController();
+const priceStreamController = new PriceStreamController();
+const portfolioController = new PortfolioController();
+const alertController = new AlertController();
+const watchlistController = new WatchlistController();
+const apiKeyService = new ApiKeyService();
+const authenticator = new Authenticator(apiKeyService);
+const adminController = new AdminController(apiKeyService);
+const usageController = new UsageController();
 const rateLimiter = new RateLimiter();
 
 // Middleware
@@ -23,36 +64,196 @@ app.use(cors());
 app.use(morgan('combined'));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
-app.use(rateLimiter.middleware);
+// Opens the request context, which authentication fills with the caller
+app.use(cacheMetadata);
+// Keys are resolved first so rate limits and quotas are counted per key
+app.use(authenticator.middleware);
 
 // Health check endpoint
-app.get('/health', (req, res) => {
+app.get('/health', async (req, res) => {
+  const llm = financialController.getLLMStatus();
+  const dataServiceHealth = await financialController.getDataServiceHealth();
+
   res.json({
-    status: 'healthy',
+    status: llm && dataServiceHealth.status === 'healthy' ? 'healthy' : 'degraded',
     timestamp: new Date(),
-    version: '1.0.0'
+    version: '1.0.0',
+    llm: llm || { status: 'unavailable' },
+    dataService: dataServiceHealth,
+    priceStream: priceStreamController.getStatus(),
+    alerts: alertController.getStatus()
   });
 });
 
 // API Routes
-app.post('/api/analyze', validateFinancialQuery, async (req, res) => {
+app.post('/api/analyze', authenticator.requireScope('analyze'), rateLimiter.limit('ai', 3), validateFinancialQuery, async (req, res) => {
   await financialController.analyzeQuery(req, res);
 });
 
-app.get('/api/market/stock/:symbol', validateSymbol, async (req, res) => {
+app.post('/api/analyze/stream', authenticator.requireScope('analyze'), rateLimiter.limit('ai', 3), validateFinancialQuery, async (req, res) => {
+  await financialController.streamAnalysis(req, res);
+});
+
+app.post('/api/conversations', authenticator.requireScope('analyze'), rateLimiter.limit('default'), async (req, res) => {
+  await conversationController.createConversation(req, res);
+});
+
+app.get('/api/conversations/:id', authenticator.requireScope('analyze'), rateLimiter.limit('default'), async (req, res) => {
+  await conversationController.getConversation(req, res);
+});
+
+app.post('/api/conversations/:id/messages', authenticator.requireScope('analyze'), rateLimiter.limit('ai', 3), validateFinancialQuery, async (req, res) => {
+  await conversationController.addMessage(req, res);
+});
+
+app.post('/api/portfolios', authenticator.requireScope('portfolio'), rateLimiter.limit('default'), validatePortfolio, async (req, res) => {
+  await portfolioController.createPortfolio(req, res);
+});
+
+app.get('/api/portfolios', authenticator.requireScope('portfolio'), rateLimiter.limit('default'), async (req, res) => {
+  await portfolioController.listPortfolios(req, res);
+});
+
+app.get('/api/portfolios/:id', authenticator.requireScope('portfolio'), rateLimiter.limit('default'), async (req, res) => {
+  await portfolioController.getPortfolio(req, res);
+});
+
+app.patch('/api/portfolios/:id', authenticator.requireScope('portfolio'), rateLimiter.limit('default'), validatePortfolio, async (req, res) => {
+  await portfolioController.renamePortfolio(req, res);
+});
+
+app.delete('/api/portfolios/:id', authenticator.requireScope('portfolio'), rateLimiter.limit('default'), async (req, res) => {
+  await portfolioController.deletePortfolio(req, res);
+});
+
+app.get('/api/portfolios/:id/valuation', authenticator.requireScope('portfolio'), rateLimiter.limit('data', 3), async (req, res) => {
+  await portfolioController.getValuation(req, res);
+});
+
+app.post('/api/portfolios/:id/positions', authenticator.requireScope('portfolio'), rateLimiter.limit('default'), validatePosition, async (req, res) => {
+  await portfolioController.addPosition(req, res);
+});
+
+app.patch('/api/portfolios/:id/positions/:positionId', authenticator.requireScope('portfolio'), rateLimiter.limit('default'), validatePosition, async (req, res) => {
+  await portfolioController.updatePosition(req, res);
+});
+
+app.delete('/api/portfolios/:id/positions/:positionId', authenticator.requireScope('portfolio'), rateLimiter.limit('default'), async (req, res) => {
+  await portfolioController.removePosition(req, res);
+});
+
+app.post('/api/watchlists', authenticator.requireScope('portfolio'), rateLimiter.limit('default'), validateWatchlist, async (req, res) => {
+  await watchlistController.createWatchlist(req, res);
+});
+
+app.get('/api/watchlists', authenticator.requireScope('portfolio'), rateLimiter.limit('default'), async (req, res) => {
+  await watchlistController.listWatchlists(req, res);
+});
+
+app.get('/api/watchlists/:id', authenticator.requireScope('portfolio'), rateLimiter.limit('default'), async (req, res) => {
+  await watchlistController.getWatchlist(req, res);
+});
+
+app.patch('/api/watchlists/:id', authenticator.requireScope('portfolio'), rateLimiter.limit('default'), validateWatchlist, async (req, res) => {
+  await watchlistController.updateWatchlist(req, res);
+});
+
+app.delete('/api/watchlists/:id', authenticator.requireScope('portfolio'), rateLimiter.limit('default'), async (req, res) => {
+  await watchlistController.deleteWatchlist(req, res);
+});
+
+app.get('/api/watchlists/:id/digest', authenticator.requireScope('portfolio'), rateLimiter.limitAll({ data: 3, ai: req => (req.query.summary === 'true' ? 3 : 0) }), validateDigestOptions, validateCurrency, async (req, res) => {
+  await watchlistController.getDigest(req, res);
+});
+
+app.post('/api/alerts', authenticator.requireScope('portfolio'), rateLimiter.limit('default'), validateAlert, async (req, res) => {
+  await alertController.createAlert(req, res);
+});
+
+app.get('/api/alerts', authenticator.requireScope('portfolio'), rateLimiter.limit('default'), async (req, res) => {
+  await alertController.listAlerts(req, res);
+});
+
+app.get('/api/alerts/:id', authenticator.requireScope('portfolio'), rateLimiter.limit('default'), async (req, res) => {
+  await alertController.getAlert(req, res);
+});
+
+app.patch('/api/alerts/:id', authenticator.requireScope('portfolio'), rateLimiter.limit('default'), validateAlertStatus, async (req, res) => {
+  await alertController.setStatus(req, res);
+});
+
+app.delete('/api/alerts/:id', authenticator.requireScope('portfolio'), rateLimiter.limit('default'), async (req, res) => {
+  await alertController.deleteAlert(req, res);
+});
+
+app.get('/api/alerts/:id/triggers', authenticator.requireScope('portfolio'), rateLimiter.limit('default'), async (req, res) => {
+  await alertController.getTriggers(req, res);
+});
+
+app.get('/api/symbols/search', authenticator.requireScope('market'), rateLimiter.limit('data'), validateSymbolSearch, async (req, res) => {
+  await financialController.searchSymbols(req, res);
+});
+
+app.get('/api/market/quotes', authenticator.requireScope('market'), rateLimiter.limit('data', 3), validateQuoteList, validateCurrency, async (req, res) => {
+  await financialController.getQuotes(req, res);
+});
+
+app.get('/api/market/stock/:symbol', authenticator.requireScope('market'), rateLimiter.limit('data'), validateSymbol, validateCurrency, async (req, res) => {
   req.params.type = 'stock';
   await financialController.getMarketData(req, res);
 });
 
-app.get('/api/market/crypto/:symbol', validateSymbol, async (req, res) => {
+app.get('/api/market/crypto/:symbol', authenticator.requireScope('market'), rateLimiter.limit('data'), validateSymbol, validateCurrency, async (req, res) => {
   req.params.type = 'crypto';
   await financialController.getMarketData(req, res);
 });
 
-app.get('/api/news', async (req, res) => {
+app.get('/api/market/stock/:symbol/history', authenticator.requireScope('market'), rateLimiter.limit('data', 2), validateSymbol, validateHistoryRange, validateCurrency, async (req, res) => {
+  req.params.type = 'stock';
+  await financialController.getPriceHistory(req, res);
+});
+
+app.get('/api/market/crypto/:symbol/history', authenticator.requireScope('market'), rateLimiter.limit('data', 2), validateSymbol, validateHistoryRange, validateCurrency, async (req, res) => {
+  req.params.type = 'crypto';
+  await financialController.getPriceHistory(req, res);
+});
+
+app.get('/api/market/:type/:symbol/indicators', authenticator.requireScope('market'), rateLimiter.limit('data', 3), validateAssetType, validateSymbol, validateHistoryRange, validateIndicatorSet, validateCurrency, async (req, res) => {
+  await financialController.getIndicators(req, res);
+});
+
+app.get('/api/news', authenticator.requireScope('news'), rateLimiter.limit('data'), validateNewsQuery, async (req, res) => {
   await financialController.getNews(req, res);
 });
 
+app.get('/api/news/search', authenticator.requireScope('news'), rateLimiter.limit('data'), validateNewsSearch, async (req, res) => {
+  await financialController.searchNews(req, res);
+});
+
+app.get('/api/news/sentiment/:symbol', authenticator.requireScope('news'), rateLimiter.limit('data'), validateSymbol, validateSentimentOptions, async (req, res) => {
+  await financialController.getNewsSentiment(req, res);
+});
+
+app.get('/api/news/feeds', authenticator.requireScope('admin'), rateLimiter.limit('default'), (req, res) => {
+  financialController.getNewsFeeds(req, res);
+});
+
+app.get('/api/usage', authenticator.requireScope('analyze'), rateLimiter.limit('default'), validateUsageQuery, async (req, res) => {
+  await usageController.getUsage(req, res);
+});
+
+app.post('/api/admin/keys', authenticator.requireScope('admin'), rateLimiter.limit('default'), validateApiKey, async (req, res) => {
+  await adminController.issueKey(req, res);
+});
+
+app.get('/api/admin/keys', authenticator.requireScope('admin'), rateLimiter.limit('default'), async (req, res) => {
+  await adminController.listKeys(req, res);
+});
+
+app.delete('/api/admin/keys/:id', authenticator.requireScope('admin'), rateLimiter.limit('default'), async (req, res) => {
+  await adminController.revokeKey(req, res);
+});
+
 // Error handling middleware
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
   logger.error('Unhandled error:', err);
@@ -74,12 +275,17 @@ app.use('*', (req, res) => {
 
 // Cleanup interval for rate limiter
 setInterval(() => {
-  rateLimiter.cleanup();
+  rateLimiter.cleanup().catch(error => logger.error('Rate limiter cleanup failed:', error));
 }, 60000); // Clean up every minute
 
-app.listen(port, () => {
+const server = app.listen(port, () => {
   logger.info(`Financial Advisor API server running on port ${port}`);
   logger.info(`Health check available at: http://localhost:${port}/health`);
 });
 
+// Real-time quotes share the HTTP server; upgrades to /ws/prices bypass the Express stack
+priceStreamController.attach(server, req => authenticator.authorizeUpgrade(req, 'market'));
+alertController.start();
+financialController.start();
+
 export default app;
\ No newline at end of file
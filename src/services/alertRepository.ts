@@ -0,0 +1,34 @@
+import { Alert, AlertTrigger, Instrument } from '../types';
+import { JsonDocumentStore, createJsonDocumentStore } from './jsonDocumentStore';
+
+// What is stored per alert: the public fields plus the resolved instrument, the webhook
+// signing secret and the most recent triggers
+export interface AlertRecord extends Alert {
+  instrument: Instrument;
+  secret: string;
+  triggers: AlertTrigger[];
+}
+
+export type AlertRepository = JsonDocumentStore<AlertRecord>;
+
+const reviveAlert = (data: any): AlertRecord => {
+  const date = (value: string | null): Date | null => value ? new Date(value) : null;
+  return {
+    ...data,
+    createdAt: new Date(data.createdAt),
+    updatedAt: new Date(data.updatedAt),
+    lastTriggeredAt: date(data.lastTriggeredAt),
+    triggers: data.triggers.map((trigger: any) => ({
+      ...trigger,
+      triggeredAt: new Date(trigger.triggeredAt),
+      delivery: { ...trigger.delivery, deliveredAt: date(trigger.delivery.deliveredAt) }
+    }))
+  };
+};
+
+export const createAlertRepository = (): AlertRepository => createJsonDocumentStore({
+  label: 'alert repository',
+  envPrefix: 'ALERT',
+  defaultDirectory: 'data/alerts',
+  revive: reviveAlert
+});
@@ -0,0 +1,357 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { Alert, AlertCondition, AlertDelivery, AlertTrigger, AssetType, MarketData } from '../types';
+import MarketDataService from './marketDataService';
+import SymbolResolver from './symbolResolver';
+import FxService from './fxService';
+import WebhookService, { assertWebhookTarget } from './webhookService';
+import { BASE_CURRENCY } from './fx';
+import { UnknownSymbolError } from './symbols';
+import { AlertRecord, AlertRepository, createAlertRepository } from './alertRepository';
+import { KeyedMutex } from '../utils/keyedMutex';
+import logger from '../utils/logger';
+
+export interface AlertInput {
+  userId: string;
+  symbol: string;
+  type: AssetType;
+  currency?: string;
+  condition: AlertCondition;
+  webhookUrl: string;
+}
+
+const DEFAULT_EVAL_INTERVAL_MS = 60000;
+// Triggers kept per alert; older ones drop off the history
+const TRIGGER_HISTORY_LIMIT = 50;
+// A one-day window uses the provider's daily change, so it works right after startup
+const DAY_MINUTES = 24 * 60;
+
+interface PriceSample {
+  price: number;
+  at: number;
+}
+
+const toPublic = ({ instrument, secret, triggers, ...alert }: AlertRecord): Alert => alert;
+
+const describe = (alert: AlertRecord, price: number, changePercent: number | null): string => {
+  const { condition, symbol, currency } = alert;
+  if (condition.type === 'percentChange') {
+    const direction = condition.percent < 0 ? 'fell' : 'rose';
+    const window = condition.windowMinutes % 60 === 0 ? `${condition.windowMinutes / 60}h` : `${condition.windowMinutes} minutes`;
+    return `${symbol} ${direction} ${Math.abs(changePercent ?? 0).toFixed(2)}% in ${window} to ${price} ${currency}`;
+  }
+  return `${symbol} is ${condition.type} ${condition.price} ${currency} at ${price} ${currency}`;
+};
+
+// Stores alert rules and evaluates them on a schedule. Each run quotes every distinct
+// instrument with an active alert once, however many alerts watch it, and fires an alert
+// when its condition goes from false to true. Webhooks are delivered in the background.
+class AlertService {
+  private repository: AlertRepository;
+  private marketDataService: MarketDataService;
+  private symbolResolver: SymbolResolver;
+  private fxService: FxService;
+  private webhookService: WebhookService;
+  private intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private evaluating = false;
+  private lastEvaluatedAt: Date | null = null;
+  private pendingDeliveries = 0;
+  // Recent prices per `${type}:${symbol}`, for percent-change windows other than a day
+  private samples = new Map<string, PriceSample[]>();
+  // Updates to one alert are applied in order, so a pause can't be lost to a concurrent trigger
+  private locks = new KeyedMutex();
+
+  constructor(
+    repository: AlertRepository = createAlertRepository(),
+    marketDataService: MarketDataService = new MarketDataService(),
+    symbolResolver: SymbolResolver = new SymbolResolver(),
+    fxService: FxService = new FxService(),
+    webhookService: WebhookService = new WebhookService()
+  ) {
+    this.repository = repository;
+    this.marketDataService = marketDataService;
+    this.symbolResolver = symbolResolver;
+    this.fxService = fxService;
+    this.webhookService = webhookService;
+    this.intervalMs = parseInt(process.env.ALERT_EVAL_INTERVAL_MS || '', 10) || DEFAULT_EVAL_INTERVAL_MS;
+  }
+
+  // Returns the signing secret alongside the alert; it is not shown again
+  async createAlert(input: AlertInput): Promise<Alert & { secret: string }> {
+    const instrument = await this.symbolResolver.resolve(input.symbol, input.type);
+    if (!instrument) {
+      throw new UnknownSymbolError(input.symbol);
+    }
+    await assertWebhookTarget(input.webhookUrl);
+
+    const now = new Date();
+    const alert: AlertRecord = {
+      id: randomUUID(),
+      userId: input.userId,
+      symbol: instrument.symbol,
+      assetType: instrument.type,
+      currency: input.currency || BASE_CURRENCY,
+      condition: input.condition,
+      webhookUrl: input.webhookUrl,
+      status: 'active',
+      conditionMet: false,
+      lastTriggeredAt: null,
+      createdAt: now,
+      updatedAt: now,
+      instrument,
+      secret: randomBytes(32).toString('hex'),
+      triggers: []
+    };
+
+    await this.repository.save(alert);
+    return { ...toPublic(alert), secret: alert.secret };
+  }
+
+  async listAlerts(userId?: string): Promise<Alert[]> {
+    return (await this.repository.list(userId)).map(toPublic);
+  }
+
+  // With an owner, alerts of other users are treated as missing
+  async getAlert(id: string, owner?: string): Promise<Alert | null> {
+    const alert = await this.load(id, owner);
+    return alert ? toPublic(alert) : null;
+  }
+
+  async setStatus(id: string, status: Alert['status'], owner?: string): Promise<Alert | null> {
+    if (!await this.load(id, owner)) {
+      return null;
+    }
+    const alert = await this.update(id, record => {
+      record.status = status;
+      record.updatedAt = new Date();
+    });
+    return alert ? toPublic(alert) : null;
+  }
+
+  async deleteAlert(id: string, owner?: string): Promise<boolean> {
+    return await this.load(id, owner) !== null && this.locks.run(id, () => this.repository.delete(id));
+  }
+
+  // Most recent first; null when the alert does not exist
+  async getTriggers(id: string, owner?: string): Promise<AlertTrigger[] | null> {
+    const alert = await this.load(id, owner);
+    return alert ? [...alert.triggers].reverse() : null;
+  }
+
+  start(): void {
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.evaluate(), this.intervalMs);
+      logger.info(`Evaluating price alerts every ${this.intervalMs}ms`);
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStatus(): { running: boolean; lastEvaluatedAt: Date | null; pendingDeliveries: number } {
+    return { running: this.timer !== null, lastEvaluatedAt: this.lastEvaluatedAt, pendingDeliveries: this.pendingDeliveries };
+  }
+
+  async evaluate(): Promise<void> {
+    // A slow upstream must not stack evaluations on top of each other
+    if (this.evaluating) {
+      return;
+    }
+
+    this.evaluating = true;
+    try {
+      const alerts = (await this.repository.list()).filter(alert => alert.status === 'active');
+      const byInstrument = new Map<string, AlertRecord[]>();
+      alerts.forEach(alert => {
+        const key = `${alert.assetType}:${alert.symbol}`;
+        byInstrument.set(key, [...(byInstrument.get(key) || []), alert]);
+      });
+
+      // All lookups start in the same tick so MarketDataService batches them per asset type
+      await Promise.all(Array.from(byInstrument.entries()).map(async ([key, watchers]) => {
+        let quote: MarketData | null;
+        try {
+          quote = await this.marketDataService.getQuote(watchers[0].instrument);
+        } catch (error: any) {
+          logger.warn(`Alert evaluation could not quote ${watchers[0].symbol}: ${error.message}`);
+          return;
+        }
+
+        // Alerts never fire on made-up prices
+        if (!quote || quote.isSimulated) {
+          return;
+        }
+
+        this.recordSample(key, quote.price);
+        await Promise.all(watchers.map(alert => this.check(alert.id, quote!)));
+      }));
+
+      this.pruneSamples(alerts);
+      this.lastEvaluatedAt = new Date();
+    } catch (error) {
+      logger.error('Alert evaluation failed:', error);
+    } finally {
+      this.evaluating = false;
+    }
+  }
+
+  private async check(id: string, usdQuote: MarketData): Promise<void> {
+    const fired: AlertTrigger[] = [];
+
+    try {
+      const alert = await this.update(id, async record => {
+        // Paused or deleted since the evaluation started
+        if (record.status !== 'active') {
+          return;
+        }
+
+        const quote = await this.fxService.convertQuote(usdQuote, record.currency);
+        const changePercent = this.changeOver(record, usdQuote);
+        const met = this.isMet(record.condition, quote.price, changePercent);
+        const fire = met && !record.conditionMet;
+        record.conditionMet = met;
+        if (!fire) {
+          return;
+        }
+
+        const now = new Date();
+        const trigger: AlertTrigger = {
+          id: randomUUID(),
+          alertId: record.id,
+          symbol: record.symbol,
+          price: quote.price,
+          currency: record.currency,
+          changePercent,
+          message: describe(record, quote.price, changePercent),
+          triggeredAt: now,
+          delivery: { status: 'pending', attempts: 0, lastError: null, deliveredAt: null }
+        };
+        fired.push(trigger);
+        record.triggers = [...record.triggers, trigger].slice(-TRIGGER_HISTORY_LIMIT);
+        record.lastTriggeredAt = now;
+        record.updatedAt = now;
+      });
+
+      if (alert && fired.length > 0) {
+        logger.info(`Alert ${id} triggered: ${fired[0].message}`);
+        void this.deliver(alert, fired[0]);
+      }
+    } catch (error) {
+      logger.error(`Failed to evaluate alert ${id}:`, error);
+    }
+  }
+
+  private isMet(condition: AlertCondition, price: number, changePercent: number | null): boolean {
+    switch (condition.type) {
+      case 'above':
+        return price >= condition.price;
+      case 'below':
+        return price <= condition.price;
+      case 'percentChange':
+        if (changePercent === null) {
+          return false;
+        }
+        return condition.percent < 0 ? changePercent <= condition.percent : changePercent >= condition.percent;
+    }
+  }
+
+  // Percent move over the alert's window, or null until enough samples cover it.
+  // Computed on USD prices so currency moves don't count as price moves.
+  private changeOver(alert: AlertRecord, quote: MarketData): number | null {
+    if (alert.condition.type !== 'percentChange') {
+      return null;
+    }
+    if (alert.condition.windowMinutes === DAY_MINUTES) {
+      return quote.changePercent;
+    }
+
+    const since = Date.now() - alert.condition.windowMinutes * 60 * 1000;
+    const samples = this.samples.get(`${alert.assetType}:${alert.symbol}`) || [];
+    // The newest sample taken at or before the start of the window
+    const reference = [...samples].reverse().find(sample => sample.at <= since);
+    if (!reference || reference.price === 0) {
+      return null;
+    }
+    return Math.round(((quote.price - reference.price) / reference.price) * 10000) / 100;
+  }
+
+  private recordSample(key: string, price: number): void {
+    const samples = this.samples.get(key) || [];
+    samples.push({ price, at: Date.now() });
+    this.samples.set(key, samples);
+  }
+
+  // Keeps only what the longest active window still needs, plus the sample just before it
+  private pruneSamples(alerts: AlertRecord[]): void {
+    const windows = new Map<string, number>();
+    alerts.forEach(alert => {
+      if (alert.condition.type === 'percentChange' && alert.condition.windowMinutes !== DAY_MINUTES) {
+        const key = `${alert.assetType}:${alert.symbol}`;
+        windows.set(key, Math.max(windows.get(key) || 0, alert.condition.windowMinutes));
+      }
+    });
+
+    this.samples.forEach((samples, key) => {
+      const window = windows.get(key);
+      if (!window) {
+        this.samples.delete(key);
+        return;
+      }
+      const since = Date.now() - window * 60 * 1000;
+      const firstInWindow = samples.findIndex(sample => sample.at > since);
+      if (firstInWindow > 1) {
+        samples.splice(0, firstInWindow - 1);
+      }
+    });
+  }
+
+  private async deliver(alert: AlertRecord, trigger: AlertTrigger): Promise<void> {
+    const { delivery, ...details } = trigger;
+    const payload = { event: 'alert.triggered', alert: toPublic(alert), trigger: details };
+
+    this.pendingDeliveries++;
+    try {
+      await this.webhookService.deliver(alert.webhookUrl, alert.secret, payload,
+        delivery => this.recordDelivery(alert.id, trigger.id, delivery));
+    } finally {
+      this.pendingDeliveries--;
+    }
+  }
+
+  private async recordDelivery(alertId: string, triggerId: string, delivery: AlertDelivery): Promise<void> {
+    try {
+      await this.update(alertId, record => {
+        const trigger = record.triggers.find(t => t.id === triggerId);
+        if (trigger) {
+          trigger.delivery = delivery;
+        }
+      });
+    } catch (error) {
+      logger.error(`Failed to record webhook delivery for alert ${alertId}:`, error);
+    }
+  }
+
+  private async load(id: string, owner?: string): Promise<AlertRecord | null> {
+    const alert = await this.repository.get(id);
+    return alert && (owner === undefined || alert.userId === owner) ? alert : null;
+  }
+
+  // Loads, mutates and saves one alert under its lock; null when it does not exist
+  private async update(id: string, mutate: (alert: AlertRecord) => void | Promise<void>): Promise<AlertRecord | null> {
+    return this.locks.run(id, async () => {
+      const alert = await this.repository.get(id);
+      if (!alert) {
+        return null;
+      }
+      await mutate(alert);
+      await this.repository.save(alert);
+      return alert;
+    });
+  }
+}
+
+export default AlertService;
@@ -0,0 +1,18 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { maxConfidence } from './analysisConfidence';
+
+test('answers backed by market context and references get the highest cap', () => {
+  assert.equal(maxConfidence({ marketContext: true, references: 3, simulated: false }), 0.85);
+  assert.equal(maxConfidence({ marketContext: false, references: 1, simulated: false }), 0.7);
+});
+
+test('missing references lower the cap', () => {
+  assert.equal(maxConfidence({ marketContext: true, references: 0, simulated: false }), 0.7);
+  assert.equal(maxConfidence({ marketContext: false, references: 0, simulated: false }), 0.55);
+});
+
+test('simulated prices cap confidence regardless of references', () => {
+  assert.equal(maxConfidence({ marketContext: true, references: 5, simulated: true }), 0.5);
+  assert.equal(maxConfidence({ marketContext: false, references: 0, simulated: true }), 0.5);
+});
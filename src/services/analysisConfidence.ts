@@ -0,0 +1,27 @@
+// What an answer was based on, used to bound the model's self-reported confidence
+export interface AnalysisEvidence {
+  // False on the fallback path, which answers without data service context
+  marketContext: boolean;
+  // Gathered references plus tool calls
+  references: number;
+  // Whether any price the model saw was a simulated placeholder
+  simulated: boolean;
+}
+
+const WITH_MARKET_CONTEXT = 0.85;
+const WITHOUT_MARKET_CONTEXT = 0.7;
+const NO_REFERENCES_PENALTY = 0.15;
+const SIMULATED_DATA_CAP = 0.5;
+
+// Highest confidence an answer may report given its evidence. Also used as the
+// confidence itself when the model gave no structured assessment.
+export const maxConfidence = ({ marketContext, references, simulated }: AnalysisEvidence): number => {
+  let cap = marketContext ? WITH_MARKET_CONTEXT : WITHOUT_MARKET_CONTEXT;
+  if (references === 0) {
+    cap -= NO_REFERENCES_PENALTY;
+  }
+  if (simulated) {
+    cap = Math.min(cap, SIMULATED_DATA_CAP);
+  }
+  return Math.round(cap * 100) / 100;
+};
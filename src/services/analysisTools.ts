@@ -0,0 +1,217 @@
+import MarketDataService from './marketDataService';
+import NewsService from './newsService';
+import { DataService, dataService } from './dataService';
+import SymbolResolver from './symbolResolver';
+import FxService from './fxService';
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES } from './fx';
+import { LLMToolCall, LLMToolDefinition } from './llm';
+import { AssetType, Instrument, Reference } from '../types';
+import logger from '../utils/logger';
+
+interface ToolOutput {
+  result: unknown;
+  source: string;
+  symbol?: string;
+  isSimulated?: boolean;
+}
+
+interface AnalysisTool {
+  definition: LLMToolDefinition;
+  execute(args: Record<string, unknown>): Promise<ToolOutput>;
+}
+
+export interface ToolInvocation {
+  // JSON handed back to the model as the tool message
+  content: string;
+  reference: Reference;
+}
+
+const DEFAULT_TOOL_TIMEOUT_MS = 8000;
+// Keeps a single large result from eating the model's context window
+const MAX_RESULT_CHARS = 4000;
+
+const requireString = (args: Record<string, unknown>, key: string): string => {
+  const value = args[key];
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new Error(`"${key}" must be a non-empty string`);
+  }
+  return value.trim();
+};
+
+const optionalLimit = (args: Record<string, unknown>, fallback: number, max: number): number => {
+  const value = args.limit;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 1) {
+    return fallback;
+  }
+  return Math.min(Math.floor(value), max);
+};
+
+const optionalCurrency = (args: Record<string, unknown>): string => {
+  const value = typeof args.currency === 'string' ? args.currency.trim().toUpperCase() : BASE_CURRENCY;
+  if (!SUPPORTED_CURRENCIES.includes(value)) {
+    throw new Error(`Unsupported currency: ${value}`);
+  }
+  return value;
+};
+
+const resolveInstrument = async (resolver: SymbolResolver, symbol: string, type: AssetType): Promise<Instrument> => {
+  const instrument = await resolver.resolve(symbol, type);
+  if (!instrument) {
+    throw new Error(`Unknown ${type} symbol: ${symbol}`);
+  }
+  return instrument;
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number, label: string): Promise<T> => {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+// Live data lookups the model can call while answering. Every invocation is
+// returned with a Reference so the response shows what data backed the answer.
+class AnalysisToolkit {
+  private tools: Map<string, AnalysisTool>;
+  private timeoutMs: number;
+
+  constructor(
+    marketDataService: MarketDataService = new MarketDataService(),
+    newsService: NewsService = new NewsService(),
+    retrieval: DataService = dataService,
+    symbolResolver: SymbolResolver = new SymbolResolver(),
+    fxService: FxService = new FxService(),
+    timeoutMs: number = parseInt(process.env.ANALYSIS_TOOL_TIMEOUT_MS || '', 10) || DEFAULT_TOOL_TIMEOUT_MS
+  ) {
+    this.timeoutMs = timeoutMs;
+    this.tools = new Map<string, AnalysisTool>([
+      ['get_stock_price', {
+        definition: {
+          name: 'get_stock_price',
+          description: 'Get the current price and daily change for a stock by ticker or company name, e.g. AAPL. Results with isSimulated=true are placeholders, not real prices.',
+          parameters: {
+            type: 'object',
+            properties: {
+              symbol: { type: 'string', description: 'Stock ticker symbol' },
+              currency: { type: 'string', description: 'ISO 4217 currency for the price (default USD)' }
+            },
+            required: ['symbol']
+          }
+        },
+        execute: async (args) => {
+          const currency = optionalCurrency(args);
+          const instrument = await resolveInstrument(symbolResolver, requireString(args, 'symbol'), 'stock');
+          const quote = await marketDataService.getQuote(instrument);
+          const result = quote && await fxService.convertQuote(quote, currency);
+          return { result, source: quote?.provider || 'Market Data', symbol: instrument.symbol, isSimulated: quote?.isSimulated };
+        }
+      }],
+      ['get_crypto_price', {
+        definition: {
+          name: 'get_crypto_price',
+          description: 'Get the current price and 24h change for a cryptocurrency by ticker, name or CoinGecko id, e.g. BTC, Ethereum or solana. Results with isSimulated=true are placeholders, not real prices.',
+          parameters: {
+            type: 'object',
+            properties: {
+              symbol: { type: 'string', description: 'Coin ticker, name or CoinGecko id' },
+              currency: { type: 'string', description: 'ISO 4217 currency for the price (default USD)' }
+            },
+            required: ['symbol']
+          }
+        },
+        execute: async (args) => {
+          const currency = optionalCurrency(args);
+          const instrument = await resolveInstrument(symbolResolver, requireString(args, 'symbol'), 'crypto');
+          const quote = await marketDataService.getQuote(instrument);
+          const result = quote && await fxService.convertQuote(quote, currency);
+          return { result, source: quote?.provider || 'Market Data', symbol: instrument.symbol, isSimulated: quote?.isSimulated };
+        }
+      }],
+      ['search_financial_news', {
+        definition: {
+          name: 'search_financial_news',
+          description: 'Search recent financial news headlines for a keyword.',
+          parameters: {
+            type: 'object',
+            properties: {
+              keyword: { type: 'string', description: 'Keyword to search for' },
+              limit: { type: 'number', description: 'Maximum number of articles (1-10)' }
+            },
+            required: ['keyword']
+          }
+        },
+        execute: async (args) => {
+          const keyword = requireString(args, 'keyword');
+          const news = await newsService.searchFinancialNews(keyword, optionalLimit(args, 5, 10));
+          return { result: news, source: 'Financial News Feeds' };
+        }
+      }],
+      ['search_by_symbol', {
+        definition: {
+          name: 'search_by_symbol',
+          description: 'Look up stored market, news and trend data for a symbol in the data service.',
+          parameters: {
+            type: 'object',
+            properties: {
+              symbol: { type: 'string', description: 'Ticker or coin symbol' },
+              type: { type: 'string', description: 'Optional data type filter, e.g. news, stock, crypto' },
+              limit: { type: 'number', description: 'Maximum number of results (1-10)' }
+            },
+            required: ['symbol']
+          }
+        },
+        execute: async (args) => {
+          const symbol = requireString(args, 'symbol').toUpperCase();
+          const type = typeof args.type === 'string' ? args.type : undefined;
+          const results = await retrieval.searchBySymbol(symbol, type, optionalLimit(args, 5, 10));
+          return {
+            result: results.map(item => ({ source: item.metadata.source, type: item.metadata.type, timestamp: item.metadata.timestamp, content: item.content })),
+            source: 'Finsor Data Service',
+            symbol
+          };
+        }
+      }]
+    ]);
+  }
+
+  definitions(): LLMToolDefinition[] {
+    return Array.from(this.tools.values()).map(tool => tool.definition);
+  }
+
+  async invoke(call: LLMToolCall): Promise<ToolInvocation> {
+    const reference: Reference = {
+      id: `tool-${call.id}`,
+      source: 'Live tool call',
+      type: 'tool_call',
+      timestamp: new Date(),
+      title: `${call.name}(${call.arguments})`
+    };
+
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      reference.title = `${call.name} (unknown tool)`;
+      return { content: JSON.stringify({ error: `Unknown tool: ${call.name}` }), reference };
+    }
+
+    try {
+      const args = call.arguments ? JSON.parse(call.arguments) : {};
+      const output = await withTimeout(tool.execute(args), this.timeoutMs, call.name);
+
+      reference.source = output.source;
+      reference.symbol = output.symbol;
+      if (output.isSimulated) {
+        reference.isSimulated = true;
+      }
+      logger.debug(`Tool ${call.name} completed`);
+
+      return { content: JSON.stringify(output.result ?? null).slice(0, MAX_RESULT_CHARS), reference };
+    } catch (error: any) {
+      logger.warn(`Tool ${call.name} failed: ${error.message}`);
+      reference.title = `${reference.title} failed`;
+      return { content: JSON.stringify({ error: error.message }), reference };
+    }
+  }
+}
+
+export default AnalysisToolkit;
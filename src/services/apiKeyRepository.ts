@@ -0,0 +1,23 @@
+import { ApiKey } from '../types';
+import { JsonDocumentStore, createJsonDocumentStore } from './jsonDocumentStore';
+
+// Keys are stored as a SHA-256 hash; the plaintext is only returned when the key is issued
+export interface ApiKeyRecord extends ApiKey {
+  hash: string;
+}
+
+// Revoked keys are kept, so there is no delete
+export type ApiKeyRepository = Omit<JsonDocumentStore<ApiKeyRecord>, 'delete'>;
+
+const reviveApiKey = (data: any): ApiKeyRecord => ({
+  ...data,
+  createdAt: new Date(data.createdAt),
+  revokedAt: data.revokedAt ? new Date(data.revokedAt) : null
+});
+
+export const createApiKeyRepository = (): ApiKeyRepository => createJsonDocumentStore({
+  label: 'API key repository',
+  envPrefix: 'API_KEY',
+  defaultDirectory: 'data/api-keys',
+  revive: reviveApiKey
+});
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import ApiKeyService from './apiKeyService';
+import { ApiKeyRecord } from './apiKeyRepository';
+import { InMemoryJsonDocumentStore } from './jsonDocumentStore';
+
+const input = { name: 'test', userId: 'user-1', scopes: ['market' as const] };
+
+test('issued keys authenticate as their user and are stored hashed', async () => {
+  const repository = new InMemoryJsonDocumentStore<ApiKeyRecord>();
+  const service = new ApiKeyService(repository);
+  const issued = await service.issue(input);
+
+  const key = await service.authenticate(issued.key);
+  assert.equal(key?.id, issued.id);
+  assert.equal(key?.userId, 'user-1');
+  assert.equal(key && 'hash' in key, false);
+
+  const [stored] = await repository.list();
+  assert.notEqual(stored.hash, issued.key);
+  assert.ok(!JSON.stringify(stored).includes(issued.key));
+});
+
+test('unknown keys are rejected', async () => {
+  const service = new ApiKeyService(new InMemoryJsonDocumentStore<ApiKeyRecord>());
+  await service.issue(input);
+  assert.equal(await service.authenticate('fsk_not-a-real-key'), null);
+});
+
+test('a revocation on one instance applies on another at once', async () => {
+  const repository = new InMemoryJsonDocumentStore<ApiKeyRecord>();
+  const first = new ApiKeyService(repository, 60000);
+  const second = new ApiKeyService(repository, 60000);
+  const issued = await first.issue(input);
+
+  assert.ok(await second.authenticate(issued.key));
+  await first.revoke(issued.id);
+  assert.equal(await second.authenticate(issued.key), null);
+  assert.equal(await first.authenticate(issued.key), null);
+});
+
+test('keys issued on another instance are picked up once the index expires', async () => {
+  const repository = new InMemoryJsonDocumentStore<ApiKeyRecord>();
+  const cached = new ApiKeyService(repository, 60000);
+  const uncached = new ApiKeyService(repository, 0);
+  await cached.authenticate('fsk_warm-up');
+  await uncached.authenticate('fsk_warm-up');
+
+  const issued = await new ApiKeyService(repository).issue(input);
+  assert.equal(await cached.authenticate(issued.key), null);
+  assert.equal((await uncached.authenticate(issued.key))?.id, issued.id);
+});
+
+test('revoking keeps the first revocation date', async () => {
+  const service = new ApiKeyService(new InMemoryJsonDocumentStore<ApiKeyRecord>());
+  const issued = await service.issue(input);
+
+  const revoked = await service.revoke(issued.id);
+  const again = await service.revoke(issued.id);
+  assert.ok(revoked?.revokedAt);
+  assert.equal(again?.revokedAt?.getTime(), revoked.revokedAt.getTime());
+  assert.equal(await service.revoke('missing'), null);
+});
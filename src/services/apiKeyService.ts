@@ -0,0 +1,129 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { ApiKey, ApiScope } from '../types';
+import { ApiKeyRecord, ApiKeyRepository, createApiKeyRepository } from './apiKeyRepository';
+import logger from '../utils/logger';
+
+export interface ApiKeyInput {
+  name: string;
+  userId: string;
+  scopes: ApiScope[];
+  rateLimit?: number | null;
+  dailyQuota?: number | null;
+}
+
+export const API_SCOPES: ApiScope[] = ['analyze', 'market', 'news', 'portfolio', 'admin'];
+
+const KEY_PREFIX = 'fsk_';
+
+const hashKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+const toPublic = ({ hash, ...key }: ApiKeyRecord): ApiKey => key;
+
+const loadIndexTtl = (): number => {
+  const ttl = parseInt(process.env.API_KEY_INDEX_TTL_MS || '', 10);
+  return Number.isNaN(ttl) || ttl < 0 ? 30000 : ttl;
+};
+
+// Issues, revokes and checks API keys. Keys are random, so a plain SHA-256 is enough to
+// keep the stored form useless to someone who reads the store. Key ids are indexed by
+// hash in memory and the index is reloaded after indexTtlMs, so keys issued by another
+// instance work within that time. The record itself is read on every check, so a
+// revocation on any instance applies at once.
+class ApiKeyService {
+  private repository: ApiKeyRepository;
+  private indexTtlMs: number;
+  // Key id per hash
+  private index: Promise<Map<string, string>> | null = null;
+  private indexLoadedAt = 0;
+  // ADMIN_API_KEY lets the first real keys be issued; it is never stored
+  private bootstrapHash: Buffer | null;
+  private defaultDailyQuota: number | null;
+
+  constructor(repository: ApiKeyRepository = createApiKeyRepository(), indexTtlMs: number = loadIndexTtl()) {
+    this.repository = repository;
+    this.indexTtlMs = indexTtlMs;
+    this.bootstrapHash = process.env.ADMIN_API_KEY ? Buffer.from(hashKey(process.env.ADMIN_API_KEY), 'hex') : null;
+    this.defaultDailyQuota = parseInt(process.env.API_KEY_DEFAULT_DAILY_QUOTA || '', 10) || null;
+  }
+
+  // Returns the plaintext key alongside the record; it is not shown again
+  async issue(input: ApiKeyInput): Promise<ApiKey & { key: string }> {
+    const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const record: ApiKeyRecord = {
+      id: randomUUID(),
+      name: input.name,
+      userId: input.userId,
+      scopes: input.scopes,
+      prefix: key.slice(0, KEY_PREFIX.length + 6),
+      rateLimit: input.rateLimit ?? null,
+      dailyQuota: input.dailyQuota !== undefined ? input.dailyQuota : this.defaultDailyQuota,
+      createdAt: new Date(),
+      revokedAt: null,
+      hash: hashKey(key)
+    };
+
+    await this.repository.save(record);
+    (await this.loadIndex()).set(record.hash, record.id);
+    logger.info(`Issued API key ${record.id} (${record.prefix}...) for ${record.userId}`);
+    return { ...toPublic(record), key };
+  }
+
+  async list(userId?: string): Promise<ApiKey[]> {
+    return (await this.repository.list(userId)).map(toPublic);
+  }
+
+  // Resolves to null when the key does not exist; revoking twice keeps the first date
+  async revoke(id: string): Promise<ApiKey | null> {
+    const record = await this.repository.get(id);
+    if (!record) {
+      return null;
+    }
+
+    if (!record.revokedAt) {
+      record.revokedAt = new Date();
+      await this.repository.save(record);
+      logger.info(`Revoked API key ${record.id} (${record.prefix}...)`);
+    }
+    return toPublic(record);
+  }
+
+  // Resolves to null for unknown and revoked keys
+  async authenticate(key: string): Promise<ApiKey | null> {
+    const hash = hashKey(key);
+
+    if (this.bootstrapHash && timingSafeEqual(Buffer.from(hash, 'hex'), this.bootstrapHash)) {
+      return {
+        id: 'bootstrap-admin',
+        name: 'ADMIN_API_KEY',
+        userId: 'admin',
+        scopes: ['admin'],
+        prefix: key.slice(0, KEY_PREFIX.length + 6),
+        rateLimit: null,
+        dailyQuota: null,
+        createdAt: new Date(0),
+        revokedAt: null
+      };
+    }
+
+    const id = (await this.loadIndex()).get(hash);
+    const record = id ? await this.repository.get(id) : null;
+    return record && record.hash === hash && !record.revokedAt ? toPublic(record) : null;
+  }
+
+  private loadIndex(): Promise<Map<string, string>> {
+    if (!this.index || Date.now() - this.indexLoadedAt >= this.indexTtlMs) {
+      const index = this.repository.list().then(records => new Map(records.map(record => [record.hash, record.id])));
+      this.index = index;
+      this.indexLoadedAt = Date.now();
+      // A failed load is retried on the next request instead of being cached
+      index.catch(() => {
+        if (this.index === index) {
+          this.index = null;
+        }
+      });
+    }
+    return this.index;
+  }
+}
+
+export default ApiKeyService;
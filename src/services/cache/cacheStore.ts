@@ -0,0 +1,15 @@
+export interface CacheEntry<T = unknown> {
+  value: T;
+  storedAt: number;
+  // Served as-is until freshUntil, then served stale while a refresh runs until staleUntil
+  freshUntil: number;
+  staleUntil: number;
+}
+
+// Backend for the cache. Implementations for shared stores (e.g. Redis) must
+// serialize values themselves; the in-memory store keeps object references.
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,116 @@
+import LruCacheStore from './lruCacheStore';
+import { CacheStore } from './cacheStore';
+import logger from '../../utils/logger';
+import { recordCacheLookup } from '../../utils/requestContext';
+
+export * from './cacheStore';
+export { LruCacheStore };
+
+export type CacheNamespace = 'quotes' | 'news' | 'dataQuery' | 'economic' | 'symbols' | 'fx';
+
+export interface CachePolicy {
+  ttlMs: number;
+  // How long past the TTL a stale value may still be served while it refreshes
+  staleMs: number;
+}
+
+const DEFAULT_POLICIES: Record<CacheNamespace, CachePolicy> = {
+  quotes: { ttlMs: 15 * 1000, staleMs: 60 * 1000 },
+  news: { ttlMs: 5 * 60 * 1000, staleMs: 30 * 60 * 1000 },
+  dataQuery: { ttlMs: 2 * 60 * 1000, staleMs: 10 * 60 * 1000 },
+  economic: { ttlMs: 6 * 60 * 60 * 1000, staleMs: 24 * 60 * 60 * 1000 },
+  symbols: { ttlMs: 24 * 60 * 60 * 1000, staleMs: 7 * 24 * 60 * 60 * 1000 },
+  // Reference rates are fixed once per business day; the grace period covers weekends
+  fx: { ttlMs: 12 * 60 * 60 * 1000, staleMs: 3 * 24 * 60 * 60 * 1000 }
+};
+
+// CACHE_<NAMESPACE>_TTL_SECONDS / CACHE_<NAMESPACE>_STALE_SECONDS override the defaults
+const loadPolicies = (): Record<CacheNamespace, CachePolicy> => {
+  const policies = { ...DEFAULT_POLICIES };
+  for (const namespace of Object.keys(policies) as CacheNamespace[]) {
+    const prefix = `CACHE_${namespace.replace(/[A-Z]/g, c => `_${c}`).toUpperCase()}`;
+    const ttl = parseInt(process.env[`${prefix}_TTL_SECONDS`] || '', 10);
+    const stale = parseInt(process.env[`${prefix}_STALE_SECONDS`] || '', 10);
+    policies[namespace] = {
+      ttlMs: Number.isNaN(ttl) ? policies[namespace].ttlMs : ttl * 1000,
+      staleMs: Number.isNaN(stale) ? policies[namespace].staleMs : stale * 1000
+    };
+  }
+  return policies;
+};
+
+export class Cache {
+  private store: CacheStore;
+  private policies: Record<CacheNamespace, CachePolicy>;
+  private refreshing = new Set<string>();
+
+  constructor(store: CacheStore = new LruCacheStore(), policies: Record<CacheNamespace, CachePolicy> = loadPolicies()) {
+    this.store = store;
+    this.policies = policies;
+  }
+
+  // Returns the cached value when fresh; when stale, returns it and refreshes in the
+  // background; otherwise loads it. Null/undefined results are never cached.
+  async getOrLoad<T>(namespace: CacheNamespace, key: string, loader: () => Promise<T>): Promise<T> {
+    const cacheKey = `${namespace}:${key}`;
+    const now = Date.now();
+
+    let entry;
+    try {
+      entry = await this.store.get<T>(cacheKey);
+    } catch (error) {
+      logger.warn(`Cache read failed for ${cacheKey}:`, error);
+    }
+
+    if (entry) {
+      recordCacheLookup(true, now - entry.storedAt);
+      if (now > entry.freshUntil) {
+        this.refreshInBackground(namespace, cacheKey, loader);
+      }
+      return entry.value;
+    }
+
+    recordCacheLookup(false, 0);
+    const value = await loader();
+    await this.write(namespace, cacheKey, value);
+    return value;
+  }
+
+  async invalidate(namespace: CacheNamespace, key: string): Promise<void> {
+    await this.store.delete(`${namespace}:${key}`);
+  }
+
+  private refreshInBackground<T>(namespace: CacheNamespace, cacheKey: string, loader: () => Promise<T>): void {
+    if (this.refreshing.has(cacheKey)) {
+      return;
+    }
+    this.refreshing.add(cacheKey);
+
+    loader()
+      .then(value => this.write(namespace, cacheKey, value))
+      .catch(error => logger.warn(`Background refresh failed for ${cacheKey}:`, error))
+      .finally(() => this.refreshing.delete(cacheKey));
+  }
+
+  private async write<T>(namespace: CacheNamespace, cacheKey: string, value: T): Promise<void> {
+    if (value === null || value === undefined) {
+      return;
+    }
+
+    const policy = this.policies[namespace];
+    const now = Date.now();
+    try {
+      await this.store.set(cacheKey, {
+        value,
+        storedAt: now,
+        freshUntil: now + policy.ttlMs,
+        staleUntil: now + policy.ttlMs + policy.staleMs
+      });
+    } catch (error) {
+      logger.warn(`Cache write failed for ${cacheKey}:`, error);
+    }
+  }
+}
+
+// Shared cache instance
+export const cache = new Cache(new LruCacheStore(parseInt(process.env.CACHE_MAX_ENTRIES || '', 10) || 1000));
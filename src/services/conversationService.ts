@@ -0,0 +1,74 @@
+import { randomUUID } from 'crypto';
+import OpenAIService from './openaiService';
+import { ConversationStore, createConversationStore } from './conversationStore';
+import { Conversation, ConversationTurn } from '../types';
+import { KeyedMutex } from '../utils/keyedMutex';
+import logger from '../utils/logger';
+
+class ConversationService {
+  private store: ConversationStore;
+  private openaiService: OpenAIService;
+  // Turns of one conversation run one at a time, so each sees the previous answer and none is lost on save
+  private locks = new KeyedMutex();
+
+  constructor(openaiService: OpenAIService, store: ConversationStore = createConversationStore()) {
+    this.openaiService = openaiService;
+    this.store = store;
+  }
+
+  async createConversation(userId?: string): Promise<Conversation> {
+    const now = new Date();
+    const conversation: Conversation = {
+      id: randomUUID(),
+      userId,
+      turns: [],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.store.save(conversation);
+    logger.info(`Created conversation ${conversation.id}`);
+    return conversation;
+  }
+
+  // With an owner, conversations of other users are treated as missing
+  async getConversation(id: string, owner?: string): Promise<Conversation | null> {
+    const conversation = await this.store.get(id);
+    return conversation && (owner === undefined || conversation.userId === owner) ? conversation : null;
+  }
+
+  addMessage(id: string, question: string, currency?: string, owner?: string): Promise<ConversationTurn | null> {
+    return this.locks.run(id, () => this.answer(id, question, currency, owner));
+  }
+
+  private async answer(id: string, question: string, currency?: string, owner?: string): Promise<ConversationTurn | null> {
+    const conversation = await this.getConversation(id, owner);
+    if (!conversation) {
+      return null;
+    }
+
+    const analysis = await this.openaiService.analyzeFinancialQuery(
+      { question, userId: conversation.userId, currency },
+      conversation.turns
+    );
+
+    const turn: ConversationTurn = {
+      id: randomUUID(),
+      question,
+      answer: analysis.answer,
+      riskLevel: analysis.riskLevel,
+      confidence: analysis.confidence,
+      sources: analysis.sources,
+      references: analysis.references,
+      createdAt: new Date()
+    };
+
+    conversation.turns.push(turn);
+    conversation.updatedAt = turn.createdAt;
+    await this.store.save(conversation);
+
+    return turn;
+  }
+}
+
+export default ConversationService;
@@ -0,0 +1,25 @@
+import { Conversation } from '../types';
+import { JsonDocumentStore, createJsonDocumentStore } from './jsonDocumentStore';
+
+export type ConversationStore = Pick<JsonDocumentStore<Conversation>, 'get' | 'save'>;
+
+const reviveConversation = (data: any): Conversation => ({
+  ...data,
+  createdAt: new Date(data.createdAt),
+  updatedAt: new Date(data.updatedAt),
+  turns: data.turns.map((turn: any) => ({
+    ...turn,
+    createdAt: new Date(turn.createdAt),
+    references: turn.references.map((ref: any) => ({
+      ...ref,
+      timestamp: new Date(ref.timestamp)
+    }))
+  }))
+});
+
+export const createConversationStore = (): ConversationStore => createJsonDocumentStore({
+  label: 'conversation store',
+  envPrefix: 'CONVERSATION',
+  defaultDirectory: 'data/conversations',
+  revive: reviveConversation
+});
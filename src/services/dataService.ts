@@ -1,157 +1,89 @@
-import axios, { AxiosInstance } from 'axios';
+import { DataServiceHealth, Reference } from '../types';
 import logger from '../utils/logger';
+import { cache, CacheNamespace } from './cache';
+import {
+  DataServiceCircuitOpenError,
+  DataServiceError,
+  QueryRequest,
+  QueryResponse,
+  RetrievalBackend,
+  RetrievalStats,
+  VectorData,
+  createRetrievalBackend
+} from './retrieval';
+
+// Context lookups degrade to no data; an open circuit is expected and only logged at debug
+const logContextFailure = (what: string, error: unknown): void => {
+  if (error instanceof DataServiceCircuitOpenError) {
+    logger.debug(`Skipped ${what}: ${error.message}`);
+  } else if (error instanceof DataServiceError) {
+    logger.warn(`Failed to get ${what}: ${error.message}`);
+  } else {
+    logger.error(`Failed to get ${what}:`, error);
+  }
+};
 
-interface QueryRequest {
-  query: string;
-  type?: string[];
-  limit?: number;
-  timeRange?: {
-    start: Date;
-    end: Date;
-  };
-  symbols?: string[];
-}
-
-interface VectorData {
-  id: string;
-  metadata: {
-    source: string;
-    type: string;
-    timestamp: string;
-    symbol?: string;
-    [key: string]: any;
-  };
-  content: string;
-  distance?: number;
-}
-
-interface Reference {
-  id: string;
-  source: string;
-  type: string;
-  timestamp: Date;
-  url?: string;
-  title?: string;
-  symbol?: string;
-}
+// Retrieval context for analysis. Raw lookups go to the configured backend (the external
+// data service or the embedded store); the context helpers below turn failures into
+// empty context so analysis can go on without it.
+export class DataService {
+  private backend: RetrievalBackend;
 
-interface QueryResponse {
-  results: VectorData[];
-  total: number;
-  query: string;
-  processingTime: number;
-  cached?: boolean;
-  references?: Reference[];
-}
+  constructor(backend: RetrievalBackend = createRetrievalBackend()) {
+    this.backend = backend;
+  }
 
-export class DataService {
-  private client: AxiosInstance;
-  private baseUrl: string;
+  get backendName(): string {
+    return this.backend.name;
+  }
 
-  constructor(baseUrl: string = 'http://localhost:3002') {
-    this.baseUrl = baseUrl;
-    this.client = axios.create({
-      baseURL: `${baseUrl}/api`,
-      timeout: 10000,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
+  start(): void {
+    this.backend.start?.();
+  }
 
-    // Add request/response interceptors for logging
-    this.client.interceptors.request.use(
-      (config) => {
-        logger.debug(`Data service request: ${config.method?.toUpperCase()} ${config.url}`);
-        return config;
-      },
-      (error) => {
-        logger.error('Data service request error:', error);
-        return Promise.reject(error);
-      }
-    );
+  stop(): void {
+    this.backend.stop?.();
+  }
 
-    this.client.interceptors.response.use(
-      (response) => {
-        logger.debug(`Data service response: ${response.status} ${response.config.url}`);
-        return response;
-      },
-      (error) => {
-        logger.error('Data service response error:', {
-          status: error.response?.status,
-          message: error.message,
-          url: error.config?.url,
-        });
-        return Promise.reject(error);
-      }
-    );
+  async query(queryRequest: QueryRequest, cacheNamespace: CacheNamespace = 'dataQuery'): Promise<QueryResponse> {
+    return cache.getOrLoad(cacheNamespace, this.cacheKey(queryRequest), () => this.backend.query(queryRequest));
   }
 
-  async query(queryRequest: QueryRequest): Promise<QueryResponse> {
-    try {
-      const response = await this.client.post('/query', queryRequest);
-      return response.data;
-    } catch (error) {
-      logger.error('Failed to query data service:', error);
-      throw new Error('Data service query failed');
-    }
+  // Time ranges are relative to Date.now(), so round them to the minute to make
+  // otherwise identical queries share a cache entry
+  private cacheKey(queryRequest: QueryRequest): string {
+    const minute = (date: Date) => Math.floor(new Date(date).getTime() / 60000);
+    return JSON.stringify({
+      ...queryRequest,
+      timeRange: queryRequest.timeRange && {
+        start: minute(queryRequest.timeRange.start),
+        end: minute(queryRequest.timeRange.end)
+      }
+    });
   }
 
   async getRecentData(type?: string, limit?: number): Promise<VectorData[]> {
-    try {
-      const params: any = {};
-      if (type) params.type = type;
-      if (limit) params.limit = limit;
-
-      const response = await this.client.get('/recent', { params });
-      return response.data.results;
-    } catch (error) {
-      logger.error('Failed to get recent data:', error);
-      throw new Error('Failed to retrieve recent data');
-    }
+    return this.backend.getRecentData(type, limit);
   }
 
   async searchBySymbol(symbol: string, type?: string, limit?: number): Promise<VectorData[]> {
-    try {
-      const params: any = {};
-      if (type) params.type = type;
-      if (limit) params.limit = limit;
-
-      const response = await this.client.get(`/symbol/${symbol}`, { params });
-      return response.data.results;
-    } catch (error) {
-      logger.error(`Failed to search by symbol ${symbol}:`, error);
-      throw new Error('Symbol search failed');
-    }
+    return this.backend.searchBySymbol(symbol, type, limit);
   }
 
-  async getStats(): Promise<any> {
-    try {
-      const response = await this.client.get('/stats');
-      return response.data;
-    } catch (error) {
-      logger.error('Failed to get data service stats:', error);
-      throw new Error('Failed to retrieve stats');
-    }
+  async getStats(): Promise<RetrievalStats> {
+    return this.backend.getStats();
   }
 
   async triggerIngestion(type: string = 'all'): Promise<void> {
-    try {
-      await this.client.post('/ingest', { type });
-      logger.info(`Triggered ${type} data ingestion`);
-    } catch (error) {
-      logger.error(`Failed to trigger ${type} ingestion:`, error);
-      throw new Error('Failed to trigger data ingestion');
-    }
+    await this.backend.triggerIngestion(type);
   }
 
   async healthCheck(): Promise<boolean> {
-    try {
-      const response = await this.client.get('/health');
-      return response.status === 200 && response.data.status === 'healthy';
-    } catch (error) {
-      logger.warn('Data service health check failed:', error);
-      return false;
-    }
+    return (await this.getHealth()).status === 'healthy';
+  }
+
+  getHealth(): Promise<DataServiceHealth> {
+    return this.backend.getHealth();
   }
 
   // Enhanced query methods for financial analysis
@@ -169,7 +101,7 @@ export class DataService {
       });
       return response.results;
     } catch (error) {
-      logger.error('Failed to get market context:', error);
+      logContextFailure('market context', error);
       return [];
     }
   }
@@ -187,7 +119,7 @@ export class DataService {
       });
       return response.results;
     } catch (error) {
-      logger.error('Failed to get news context:', error);
+      logContextFailure('news context', error);
       return [];
     }
   }
@@ -198,10 +130,10 @@ export class DataService {
         query: 'economic indicators inflation unemployment GDP interest rates',
         type: ['economic', 'rates'],
         limit: 10,
-      });
+      }, 'economic');
       return response.results;
     } catch (error) {
-      logger.error('Failed to get economic context:', error);
+      logContextFailure('economic context', error);
       return [];
     }
   }
@@ -215,7 +147,7 @@ export class DataService {
       });
       return response.results;
     } catch (error) {
-      logger.error('Failed to get trends context:', error);
+      logContextFailure('trends context', error);
       return [];
     }
   }
@@ -249,13 +181,17 @@ export class DataService {
 
       return queryResult.references || [];
     } catch (error) {
-      logger.error('Failed to gather references for query:', error);
+      logContextFailure('references for query', error);
       return [];
     }
   }
 
   // Enhanced context gathering for financial queries
   async gatherContextForQuery(query: string): Promise<string> {
+    if (!this.backend.isAvailable()) {
+      return 'Unable to gather current market context. Proceeding with general analysis.';
+    }
+
     try {
       const [queryResults, economicData, recentNews] = await Promise.allSettled([
         this.query({
@@ -296,4 +232,4 @@ export class DataService {
 }
 
 // Create singleton instance
-export const dataService = new DataService(process.env.DATA_SERVICE_URL);
\ No newline at end of file
+export const dataService = new DataService();
\ No newline at end of file
@@ -0,0 +1,37 @@
+import axios from 'axios';
+import { FxRateProvider } from './fxRateProvider';
+
+const toDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+// European Central Bank reference rates via frankfurter.app; no API key, one fixing per business day
+class FrankfurterFxProvider implements FxRateProvider {
+  readonly name = 'Frankfurter (ECB)';
+  readonly simulated = false;
+  private baseUrl = 'https://api.frankfurter.app';
+
+  async getLatestRates(base: string): Promise<Record<string, number>> {
+    const response = await axios.get(`${this.baseUrl}/latest`, {
+      params: { from: base },
+      timeout: 10000
+    });
+    return response.data?.rates || {};
+  }
+
+  async getDailyRates(base: string, quote: string, from: Date, to: Date): Promise<Record<string, number>> {
+    const response = await axios.get(`${this.baseUrl}/${toDay(from)}..${toDay(to)}`, {
+      params: { from: base, to: quote },
+      timeout: 10000
+    });
+
+    const series: Record<string, Record<string, number>> = response.data?.rates || {};
+    const rates: Record<string, number> = {};
+    for (const [day, dayRates] of Object.entries(series)) {
+      if (typeof dayRates[quote] === 'number') {
+        rates[day] = dayRates[quote];
+      }
+    }
+    return rates;
+  }
+}
+
+export default FrankfurterFxProvider;
@@ -0,0 +1,21 @@
+import { ProviderFailure } from '../quotes';
+
+export interface FxRateProvider {
+  readonly name: string;
+  // Simulated rates mark converted prices as simulated too
+  readonly simulated: boolean;
+  // Units of each quote currency per one unit of base
+  getLatestRates(base: string): Promise<Record<string, number>>;
+  // Rate per day (YYYY-MM-DD) between from and to; days without fixings are omitted
+  getDailyRates(base: string, quote: string, from: Date, to: Date): Promise<Record<string, number>>;
+}
+
+export class FxUnavailableError extends Error {
+  failures: ProviderFailure[];
+
+  constructor(base: string, quote: string, failures: ProviderFailure[]) {
+    super(`No FX provider could convert ${base} to ${quote}`);
+    this.name = 'FxUnavailableError';
+    this.failures = failures;
+  }
+}
@@ -0,0 +1,41 @@
+import FrankfurterFxProvider from './frankfurterProvider';
+import MockFxProvider from './mockFxProvider';
+import { FxRateProvider } from './fxRateProvider';
+import { isSimulatedDataAllowed } from '../quotes';
+import logger from '../../utils/logger';
+
+export * from './fxRateProvider';
+
+// Upstream prices are quoted in this currency
+export const BASE_CURRENCY = 'USD';
+
+// Currencies with an ECB reference rate, so the real provider can serve all of them
+export const SUPPORTED_CURRENCIES = [
+  'USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'NZD', 'SEK', 'NOK', 'DKK', 'PLN',
+  'CZK', 'HUF', 'TRY', 'BRL', 'MXN', 'CNY', 'HKD', 'SGD', 'INR', 'KRW', 'ZAR', 'ILS'
+];
+
+const DEFAULT_CHAIN = 'frankfurter,mock';
+
+// Builds the FX failover chain in FX_PROVIDERS order; mock rates join only when simulation is allowed
+export const createFxProviders = (): FxRateProvider[] => {
+  const names = (process.env.FX_PROVIDERS || DEFAULT_CHAIN).split(',').map(name => name.trim().toLowerCase());
+  const providers: FxRateProvider[] = [];
+
+  for (const name of names) {
+    switch (name) {
+      case 'frankfurter':
+        providers.push(new FrankfurterFxProvider());
+        break;
+      case 'mock':
+        if (isSimulatedDataAllowed()) {
+          providers.push(new MockFxProvider());
+        }
+        break;
+      default:
+        logger.warn(`Unknown FX provider "${name}"`);
+    }
+  }
+
+  return providers;
+};
@@ -0,0 +1,58 @@
+import { FxRateProvider } from './fxRateProvider';
+
+// Approximate units per USD for development/demo
+const MOCK_USD_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  JPY: 151.2,
+  CHF: 0.89,
+  CAD: 1.36,
+  AUD: 1.52,
+  NZD: 1.66,
+  SEK: 10.6,
+  NOK: 10.7,
+  DKK: 6.87,
+  PLN: 3.98,
+  CZK: 23.1,
+  HUF: 362.5,
+  TRY: 32.3,
+  BRL: 5.12,
+  MXN: 17.1,
+  CNY: 7.24,
+  HKD: 7.82,
+  SGD: 1.35,
+  INR: 83.4,
+  KRW: 1365,
+  ZAR: 18.6,
+  ILS: 3.72
+};
+
+class MockFxProvider implements FxRateProvider {
+  readonly name = 'Simulated';
+  readonly simulated = true;
+
+  async getLatestRates(base: string): Promise<Record<string, number>> {
+    const baseRate = MOCK_USD_RATES[base];
+    if (!baseRate) {
+      return {};
+    }
+    return Object.fromEntries(Object.entries(MOCK_USD_RATES).map(([currency, rate]) => [currency, rate / baseRate]));
+  }
+
+  // Flat series: the same rate on every day
+  async getDailyRates(base: string, quote: string, from: Date, to: Date): Promise<Record<string, number>> {
+    const rate = (await this.getLatestRates(base))[quote];
+    if (!rate) {
+      return {};
+    }
+
+    const rates: Record<string, number> = {};
+    for (let time = from.getTime(); time <= to.getTime(); time += 24 * 60 * 60 * 1000) {
+      rates[new Date(time).toISOString().slice(0, 10)] = rate;
+    }
+    return rates;
+  }
+}
+
+export default MockFxProvider;
@@ -0,0 +1,138 @@
+import { MarketData, PriceHistory } from '../types';
+import { cache } from './cache';
+import { ProviderFailure } from './quotes';
+import { FxRateProvider, FxUnavailableError, createFxProviders } from './fx';
+import logger from '../utils/logger';
+
+export interface FxRate {
+  rate: number;
+  provider: string;
+  simulated: boolean;
+}
+
+interface DailyRates {
+  rates: Record<string, number>;
+  provider: string;
+  simulated: boolean;
+}
+
+const toDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+// Keeps float noise (192.53 * 0.92 = 177.12760000000001) out of converted prices
+const round = (value: number): number => Number(value.toPrecision(8));
+
+class FxService {
+  private providers: FxRateProvider[];
+
+  constructor(providers: FxRateProvider[] = createFxProviders()) {
+    this.providers = providers;
+  }
+
+  async getRate(base: string, quote: string): Promise<FxRate> {
+    if (base === quote) {
+      return { rate: 1, provider: 'None', simulated: false };
+    }
+    return cache.getOrLoad('fx', `latest:${base}:${quote}`, () => this.loadRate(base, quote));
+  }
+
+  // Price and absolute change scale with the current rate. changePercent is kept as
+  // reported, so it reflects the instrument's move rather than the currency's.
+  async convertQuote(quote: MarketData, currency: string): Promise<MarketData> {
+    if (quote.currency === currency) {
+      return quote;
+    }
+
+    const fx = await this.getRate(quote.currency, currency);
+    return {
+      ...quote,
+      price: round(quote.price * fx.rate),
+      change: round(quote.change * fx.rate),
+      currency,
+      isSimulated: quote.isSimulated || fx.simulated
+    };
+  }
+
+  // Each candle is converted at the fixing for its own day (or the last one before it,
+  // for weekends and holidays), so historical charts don't take on today's exchange rate.
+  async convertHistory(history: PriceHistory, currency: string): Promise<PriceHistory> {
+    if (history.currency === currency || history.candles.length === 0) {
+      return { ...history, currency };
+    }
+
+    const daily = await cache.getOrLoad('fx', `daily:${history.currency}:${currency}:${toDay(history.from)}:${toDay(history.to)}`,
+      () => this.loadDailyRates(history.currency, currency, history.from, history.to));
+
+    const days = Object.keys(daily.rates).sort();
+    let simulated = daily.simulated;
+    let fallback: number | null = null;
+    if (days.length === 0) {
+      const latest = await this.getRate(history.currency, currency);
+      fallback = latest.rate;
+      simulated = latest.simulated;
+    }
+
+    let index = 0;
+    const candles = history.candles.map(candle => {
+      const day = toDay(candle.timestamp);
+      while (index + 1 < days.length && days[index + 1] <= day) {
+        index++;
+      }
+      const rate = fallback ?? daily.rates[days[index]];
+
+      return {
+        ...candle,
+        open: round(candle.open * rate),
+        high: round(candle.high * rate),
+        low: round(candle.low * rate),
+        close: round(candle.close * rate)
+      };
+    });
+
+    return { ...history, candles, currency, isSimulated: history.isSimulated || simulated };
+  }
+
+  private async loadRate(base: string, quote: string): Promise<FxRate> {
+    const failures: ProviderFailure[] = [];
+
+    for (const provider of this.providers) {
+      try {
+        const rate = (await provider.getLatestRates(base))[quote];
+        if (typeof rate === 'number' && rate > 0) {
+          if (provider.simulated) {
+            logger.warn(`Serving simulated FX rate for ${base}/${quote}`);
+          }
+          return { rate, provider: provider.name, simulated: provider.simulated };
+        }
+      } catch (error: any) {
+        logger.error(`FX provider ${provider.name} failed for ${base}/${quote}:`, { message: error.message });
+        failures.push({ provider: provider.name, error: error.message });
+      }
+    }
+
+    throw new FxUnavailableError(base, quote, failures);
+  }
+
+  private async loadDailyRates(base: string, quote: string, from: Date, to: Date): Promise<DailyRates> {
+    const failures: ProviderFailure[] = [];
+
+    for (const provider of this.providers) {
+      try {
+        const rates = await provider.getDailyRates(base, quote, from, to);
+        if (Object.keys(rates).length > 0) {
+          return { rates, provider: provider.name, simulated: provider.simulated };
+        }
+      } catch (error: any) {
+        logger.error(`FX provider ${provider.name} failed for ${base}/${quote} history:`, { message: error.message });
+        failures.push({ provider: provider.name, error: error.message });
+      }
+    }
+
+    if (failures.length > 0 && failures.length === this.providers.length) {
+      throw new FxUnavailableError(base, quote, failures);
+    }
+    // No fixings in the window (e.g. a weekend); convertHistory falls back to the latest rate
+    return { rates: {}, provider: 'None', simulated: false };
+  }
+}
+
+export default FxService;
@@ -0,0 +1,111 @@
+import MarketDataService from './marketDataService';
+import FxService from './fxService';
+import { BASE_CURRENCY } from './fx';
+import { HistoryRange, Instrument, TechnicalIndicators } from '../types';
+import { IndicatorSpec, computeIndicator, parseIndicatorSet, warmUpPeriod } from '../utils/indicators';
+import { INTERVAL_MS } from '../utils/candles';
+import logger from '../utils/logger';
+
+// Daily candles fetched for prompt summaries; enough to warm up SMA 50 and MACD
+const SUMMARY_LOOKBACK_DAYS = 120;
+
+// Stocks only trade on weekdays (and intraday only in session hours), so their warm-up
+// window is widened; the extra candles are trimmed again anyway
+const STOCK_WARM_UP_FACTOR = 2;
+
+class IndicatorService {
+  private marketDataService: MarketDataService;
+  private fxService: FxService;
+
+  constructor(marketDataService: MarketDataService = new MarketDataService(), fxService: FxService = new FxService()) {
+    this.marketDataService = marketDataService;
+    this.fxService = fxService;
+  }
+
+  async getIndicators(instrument: Instrument, specs: IndicatorSpec[], range: HistoryRange, currency: string = BASE_CURRENCY): Promise<TechnicalIndicators> {
+    // Fetch enough candles before `from` that every indicator has values from the start of the range
+    const warmUpCandles = Math.max(0, ...specs.map(warmUpPeriod));
+    const factor = instrument.type === 'stock' ? STOCK_WARM_UP_FACTOR : 1;
+    const fetchRange: HistoryRange = {
+      ...range,
+      from: new Date(range.from.getTime() - warmUpCandles * factor * INTERVAL_MS[range.interval])
+    };
+    const history = await this.fxService.convertHistory(await this.marketDataService.getHistory(instrument, fetchRange), currency);
+
+    const closes = history.candles.map(candle => candle.close);
+    const first = history.candles.findIndex(candle => candle.timestamp >= range.from);
+    const start = first === -1 ? history.candles.length : first;
+    const indicators = specs.map(spec => [
+      spec.name,
+      Object.fromEntries(Object.entries(computeIndicator(spec, closes)).map(([line, values]) => [line, values.slice(start)]))
+    ]);
+
+    return {
+      symbol: history.symbol,
+      type: instrument.type,
+      interval: history.interval,
+      currency: history.currency,
+      isSimulated: history.isSimulated,
+      timestamps: history.candles.slice(start).map(candle => candle.timestamp),
+      indicators: Object.fromEntries(indicators)
+    };
+  }
+
+  // One-line daily technical snapshot for the analysis prompt, e.g.
+  // "AAPL (stock, daily close 192.53 USD): RSI 14 = 72.1 (overbought); ..."
+  // Returns null when only simulated data is available so the model never sees fake signals.
+  async summarize(instrument: Instrument, currency: string = BASE_CURRENCY): Promise<string | null> {
+    try {
+      const to = new Date();
+      const range: HistoryRange = {
+        from: new Date(to.getTime() - SUMMARY_LOOKBACK_DAYS * 24 * 60 * 60 * 1000),
+        to,
+        interval: '1d'
+      };
+      const history = await this.fxService.convertHistory(await this.marketDataService.getHistory(instrument, range), currency);
+
+      if (history.isSimulated || history.candles.length === 0) {
+        return null;
+      }
+
+      const closes = history.candles.map(candle => candle.close);
+      const close = closes[closes.length - 1];
+      const latest = (spec: string, line: string = 'value'): number | null => {
+        const values = computeIndicator(parseIndicatorSet(spec)[0], closes)[line];
+        return values[values.length - 1];
+      };
+
+      const facts: string[] = [];
+
+      const rsi14 = latest('rsi14');
+      if (rsi14 !== null) {
+        const state = rsi14 >= 70 ? 'overbought' : rsi14 <= 30 ? 'oversold' : 'neutral';
+        facts.push(`RSI 14 = ${rsi14.toFixed(1)} (${state})`);
+      }
+
+      for (const period of [20, 50]) {
+        const value = latest(`sma${period}`);
+        if (value !== null) {
+          facts.push(`price ${close >= value ? 'above' : 'below'} SMA ${period} (${value.toFixed(2)})`);
+        }
+      }
+
+      const macdLine = latest('macd', 'macd');
+      const signal = latest('macd', 'signal');
+      if (macdLine !== null && signal !== null) {
+        const bullish = macdLine >= signal;
+        facts.push(`MACD ${macdLine.toFixed(2)} ${bullish ? 'above' : 'below'} signal ${signal.toFixed(2)} (${bullish ? 'bullish' : 'bearish'})`);
+      }
+
+      if (facts.length === 0) {
+        return null;
+      }
+      return `${history.symbol} (${instrument.type}, daily close ${close.toFixed(2)} ${history.currency}): ${facts.join('; ')}`;
+    } catch (error) {
+      logger.error(`Failed to summarize indicators for ${instrument.symbol}:`, error);
+      return null;
+    }
+  }
+}
+
+export default IndicatorService;
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FileJsonDocumentStore, InMemoryJsonDocumentStore } from './jsonDocumentStore';
+
+interface Note {
+  id: string;
+  userId?: string | null;
+  text: string;
+  createdAt: Date;
+}
+
+const reviveNote = (data: any): Note => ({ ...data, createdAt: new Date(data.createdAt) });
+
+const withDirectory = async (callback: (directory: string) => Promise<void>): Promise<void> => {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'json-store-'));
+  try {
+    await callback(directory);
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+};
+
+test('the file store round-trips documents and revives them', async () => {
+  await withDirectory(async directory => {
+    const store = new FileJsonDocumentStore<Note>(path.join(directory, 'notes'), reviveNote);
+    const createdAt = new Date('2026-01-02T03:04:05Z');
+    await store.save({ id: 'a', userId: 'u1', text: 'first', createdAt });
+    await store.save({ id: 'b', userId: 'u2', text: 'second', createdAt });
+
+    const note = await store.get('a');
+    assert.equal(note?.text, 'first');
+    assert.ok(note?.createdAt instanceof Date);
+    assert.equal(note?.createdAt.getTime(), createdAt.getTime());
+    assert.deepEqual((await store.list('u2')).map(n => n.id), ['b']);
+    assert.equal((await store.list()).length, 2);
+
+    assert.equal(await store.delete('a'), true);
+    assert.equal(await store.delete('a'), false);
+    assert.equal(await store.get('a'), null);
+  });
+});
+
+test('concurrent saves of one id all succeed and leave no temp files', async () => {
+  await withDirectory(async directory => {
+    const store = new FileJsonDocumentStore<Note>(directory, reviveNote);
+    await Promise.all(Array.from({ length: 20 }, (_, i) =>
+      store.save({ id: 'same', text: `version ${i}`, createdAt: new Date() })));
+
+    assert.match((await store.get('same'))?.text ?? '', /^version \d+$/);
+    assert.deepEqual(await fs.readdir(directory), ['same.json']);
+  });
+});
+
+test('list skips documents that fail to parse', async () => {
+  await withDirectory(async directory => {
+    const store = new FileJsonDocumentStore<Note>(directory, reviveNote);
+    await store.save({ id: 'good', text: 'ok', createdAt: new Date() });
+    await fs.writeFile(path.join(directory, 'bad.json'), '{"id": "bad", "te', 'utf8');
+
+    assert.deepEqual((await store.list()).map(n => n.id), ['good']);
+  });
+});
+
+test('ids cannot escape the store directory', async () => {
+  await withDirectory(async directory => {
+    const store = new FileJsonDocumentStore<Note>(path.join(directory, 'inner'), reviveNote);
+    await store.save({ id: '../outside', text: 'x', createdAt: new Date() });
+
+    assert.deepEqual(await fs.readdir(path.join(directory, 'inner')), ['outside.json']);
+  });
+});
+
+test('the memory store hands out copies', async () => {
+  const store = new InMemoryJsonDocumentStore<Note>();
+  const note = { id: 'a', text: 'original', createdAt: new Date() };
+  await store.save(note);
+  note.text = 'changed';
+
+  const stored = await store.get('a');
+  assert.ok(stored);
+  assert.equal(stored.text, 'original');
+  stored.text = 'changed again';
+  assert.equal((await store.get('a'))?.text, 'original');
+});
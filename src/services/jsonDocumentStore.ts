@@ -0,0 +1,147 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import logger from '../utils/logger';
+
+// Records kept one JSON document each, looked up by id and listed per owner
+export interface StoredDocument {
+  id: string;
+  userId?: string | null;
+}
+
+export interface JsonDocumentStore<T extends StoredDocument> {
+  list(userId?: string): Promise<T[]>;
+  get(id: string): Promise<T | null>;
+  save(document: T): Promise<void>;
+  // Resolves to false when there was nothing to delete
+  delete(id: string): Promise<boolean>;
+}
+
+// Restores what JSON flattens, such as dates, from a parsed document
+export type Reviver<T> = (data: any) => T;
+
+export class InMemoryJsonDocumentStore<T extends StoredDocument> implements JsonDocumentStore<T> {
+  private documents = new Map<string, T>();
+
+  async list(userId?: string): Promise<T[]> {
+    return Array.from(this.documents.values())
+      .filter(document => userId === undefined || document.userId === userId)
+      .map(document => structuredClone(document));
+  }
+
+  async get(id: string): Promise<T | null> {
+    const document = this.documents.get(id);
+    return document ? structuredClone(document) : null;
+  }
+
+  async save(document: T): Promise<void> {
+    this.documents.set(document.id, structuredClone(document));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.documents.delete(id);
+  }
+}
+
+// Stores one JSON document per record under the given directory
+export class FileJsonDocumentStore<T extends StoredDocument> implements JsonDocumentStore<T> {
+  private directory: string;
+  private revive: Reviver<T>;
+
+  constructor(directory: string, revive: Reviver<T>) {
+    this.directory = directory;
+    this.revive = revive;
+  }
+
+  async list(userId?: string): Promise<T[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const documents: (T | null)[] = await Promise.all(files
+      .filter(file => file.endsWith('.json'))
+      .map(file => this.read(file)));
+
+    return documents.filter((document): document is T =>
+      document !== null && (userId === undefined || document.userId === userId));
+  }
+
+  async get(id: string): Promise<T | null> {
+    try {
+      const raw = await fs.readFile(this.filePath(id), 'utf8');
+      return this.revive(JSON.parse(raw));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(document: T): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write to a temp file first so a crash never leaves a truncated document. Each save
+    // gets its own, so concurrent saves of one id can't rename each other's data.
+    const target = this.filePath(document.id);
+    const tmp = `${target}.${randomUUID()}.tmp`;
+    try {
+      await fs.writeFile(tmp, JSON.stringify(document), 'utf8');
+      await fs.rename(tmp, target);
+    } catch (error) {
+      await fs.rm(tmp, { force: true });
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.filePath(id));
+      return true;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // A document that can't be parsed is skipped so one bad file doesn't break every listing
+  private async read(file: string): Promise<T | null> {
+    try {
+      return await this.get(path.basename(file, '.json'));
+    } catch (error: unknown) {
+      logger.error(`Skipping unreadable document ${path.join(this.directory, file)}:`, error);
+      return null;
+    }
+  }
+
+  private filePath(id: string): string {
+    // Ids are generated server-side, but never let one escape the directory
+    return path.join(this.directory, `${path.basename(id)}.json`);
+  }
+}
+
+export interface JsonDocumentStoreOptions<T> {
+  // Used in the startup log, e.g. "portfolio repository"
+  label: string;
+  // `<envPrefix>_STORE=file` selects the file store, in `<envPrefix>_STORE_DIR` or defaultDirectory
+  envPrefix: string;
+  defaultDirectory: string;
+  revive: Reviver<T>;
+}
+
+export const createJsonDocumentStore = <T extends StoredDocument>(options: JsonDocumentStoreOptions<T>): JsonDocumentStore<T> => {
+  if (process.env[`${options.envPrefix}_STORE`] === 'file') {
+    const directory = process.env[`${options.envPrefix}_STORE_DIR`] || options.defaultDirectory;
+    logger.info(`Using file ${options.label} at ${directory}`);
+    return new FileJsonDocumentStore(directory, options.revive);
+  }
+  return new InMemoryJsonDocumentStore();
+};
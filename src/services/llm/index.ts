@@ -0,0 +1,80 @@
+import OpenAIProvider from './openaiProvider';
+import ScriptedProvider from './scriptedProvider';
+import MeteredLLMProvider from './meteredProvider';
+import { LLMProvider, LLMProviderConfig } from './llmProvider';
+import logger from '../../utils/logger';
+
+export * from './llmProvider';
+export { OpenAIProvider, ScriptedProvider, MeteredLLMProvider };
+
+// An unset value takes the default; an invalid one is reported and takes it too, rather
+// than reaching the provider as NaN
+const readNumber = (name: string, fallback: number, integer: boolean): number => {
+  const raw = process.env[name];
+  if (!raw) {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0 || (integer && (!Number.isInteger(value) || value === 0))) {
+    logger.warn(`Ignoring invalid ${name} "${raw}", using ${fallback}`);
+    return fallback;
+  }
+  return value;
+};
+
+const readConfig = (prefix: string, defaults: LLMProviderConfig): LLMProviderConfig => {
+  const env = process.env;
+  return {
+    model: env[`${prefix}_MODEL`] || defaults.model,
+    temperature: readNumber(`${prefix}_TEMPERATURE`, defaults.temperature, false),
+    maxTokens: readNumber(`${prefix}_MAX_TOKENS`, defaults.maxTokens, true),
+    contextWindow: readNumber(`${prefix}_CONTEXT_WINDOW`, defaults.contextWindow, true),
+    jsonMode: env[`${prefix}_JSON_MODE`] ? env[`${prefix}_JSON_MODE`] === 'true' : defaults.jsonMode,
+    toolCalling: env[`${prefix}_TOOL_CALLING`] ? env[`${prefix}_TOOL_CALLING`] === 'true' : defaults.toolCalling,
+  };
+};
+
+// Builds the provider selected by LLM_PROVIDER. Without an explicit choice we use
+// OpenAI when a key is present. Returns null when nothing usable is configured so
+// the server can still boot in degraded mode.
+export const createLLMProvider = (): LLMProvider | null => {
+  const provider = (process.env.LLM_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : '')).toLowerCase();
+
+  switch (provider) {
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        logger.warn('LLM_PROVIDER is openai but OPENAI_API_KEY is not set');
+        return null;
+      }
+      return new OpenAIProvider(
+        readConfig('OPENAI', { model: 'gpt-4', temperature: 0.7, maxTokens: 1200, contextWindow: 8192, jsonMode: false, toolCalling: true }),
+        { apiKey: process.env.OPENAI_API_KEY }
+      );
+
+    case 'local':
+      if (!process.env.LOCAL_LLM_BASE_URL) {
+        logger.warn('LLM_PROVIDER is local but LOCAL_LLM_BASE_URL is not set');
+        return null;
+      }
+      return new OpenAIProvider(
+        readConfig('LOCAL_LLM', { model: 'llama3', temperature: 0.7, maxTokens: 1200, contextWindow: 8192, jsonMode: false, toolCalling: false }),
+        {
+          // Most self-hosted OpenAI-compatible servers ignore the key but the SDK requires one
+          apiKey: process.env.LOCAL_LLM_API_KEY || 'not-needed',
+          baseURL: process.env.LOCAL_LLM_BASE_URL,
+          name: 'Local LLM',
+          streamUsage: process.env.LOCAL_LLM_STREAM_USAGE === 'true'
+        }
+      );
+
+    case 'scripted':
+      return new ScriptedProvider();
+
+    case '':
+      return null;
+
+    default:
+      logger.warn(`Unknown LLM_PROVIDER "${provider}"`);
+      return null;
+  }
+};
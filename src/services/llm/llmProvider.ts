@@ -0,0 +1,70 @@
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  // JSON schema describing the tool arguments
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  // Raw JSON produced by the model, not yet validated
+  arguments: string;
+}
+
+export type LLMMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: LLMToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
+export interface LLMProviderConfig {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  contextWindow: number;
+  // Whether the model supports OpenAI's JSON response_format
+  jsonMode: boolean;
+  // Whether the model supports function/tool calling
+  toolCalling: boolean;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMRequestOptions {
+  // Overrides the configured model for this request
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  responseFormat?: 'text' | 'json';
+  tools?: LLMToolDefinition[];
+  // 'none' keeps tools visible (required once tool messages are in the history) but forbids new calls
+  toolChoice?: 'auto' | 'none';
+  signal?: AbortSignal;
+  // Streams report token usage here once they finish, when the provider knows it
+  onUsage?: (usage: LLMUsage) => void;
+}
+
+export interface LLMCompletion {
+  content: string;
+  model: string;
+  toolCalls?: LLMToolCall[];
+  // Missing when the provider doesn't report token counts
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly config: LLMProviderConfig;
+  complete(messages: LLMMessage[], options?: LLMRequestOptions): Promise<LLMCompletion>;
+  stream(messages: LLMMessage[], options?: LLMRequestOptions): AsyncIterable<string>;
+}
+
+export class LLMUnavailableError extends Error {
+  constructor(message: string = 'No LLM provider is configured') {
+    super(message);
+    this.name = 'LLMUnavailableError';
+  }
+}
@@ -0,0 +1,73 @@
+import { LLMProvider, LLMProviderConfig, LLMMessage, LLMRequestOptions, LLMCompletion, LLMUsage } from './llmProvider';
+import UsageService from '../usageService';
+import { RequestCaller, getRequestCaller } from '../../utils/requestContext';
+import { estimateTokens } from '../../utils/tokenBudget';
+import logger from '../../utils/logger';
+
+// Used when a provider doesn't report token counts
+const estimateUsage = (messages: LLMMessage[], completion: string): LLMUsage => ({
+  promptTokens: messages.reduce((sum, message) => sum + estimateTokens(message.content), 0),
+  completionTokens: estimateTokens(completion)
+});
+
+// Wraps a provider so every call is checked against the caller's budget (which may
+// swap the model) and its token usage is recorded for the caller from the request context,
+// or for a fixed caller when the work is done on the system's behalf
+class MeteredLLMProvider implements LLMProvider {
+  readonly name: string;
+  readonly config: LLMProviderConfig;
+  private provider: LLMProvider;
+  private usageService: UsageService;
+  private caller?: RequestCaller;
+
+  constructor(provider: LLMProvider, usageService: UsageService, caller?: RequestCaller) {
+    this.name = provider.name;
+    this.config = provider.config;
+    this.provider = provider;
+    this.usageService = usageService;
+    this.caller = caller;
+  }
+
+  async complete(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMCompletion> {
+    const caller = this.caller ?? getRequestCaller();
+    const model = await this.usageService.selectModel(caller, options.model ?? this.config.model);
+
+    const completion = await this.provider.complete(messages, { ...options, model });
+    this.record(caller, completion.model, completion.usage ?? estimateUsage(messages, completion.content));
+    return completion;
+  }
+
+  async *stream(messages: LLMMessage[], options: LLMRequestOptions = {}): AsyncIterable<string> {
+    const caller = this.caller ?? getRequestCaller();
+    const model = await this.usageService.selectModel(caller, options.model ?? this.config.model);
+    let reported: LLMUsage | null = null;
+    let content = '';
+
+    try {
+      const tokens = this.provider.stream(messages, {
+        ...options,
+        model,
+        onUsage: usage => {
+          reported = usage;
+          options.onUsage?.(usage);
+        }
+      });
+      for await (const token of tokens) {
+        content += token;
+        yield token;
+      }
+    } finally {
+      // Cancelled streams are still billed for what was generated
+      this.record(caller, model, reported ?? estimateUsage(messages, content));
+    }
+  }
+
+  // Failing to record usage must not fail the answer that was already paid for
+  private record(caller: RequestCaller, model: string, usage: LLMUsage): void {
+    this.usageService.record(caller, model, usage).catch(error => {
+      logger.error('Failed to record LLM usage:', error);
+    });
+  }
+}
+
+export default MeteredLLMProvider;
@@ -0,0 +1,112 @@
+import OpenAI from 'openai';
+import { LLMProvider, LLMProviderConfig, LLMMessage, LLMRequestOptions, LLMCompletion, LLMToolDefinition } from './llmProvider';
+
+interface OpenAIProviderOptions {
+  apiKey: string;
+  baseURL?: string;
+  name?: string;
+  // Ask for token usage at the end of streams; not every compatible server supports it
+  streamUsage?: boolean;
+}
+
+class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  readonly config: LLMProviderConfig;
+  private client: OpenAI;
+  private streamUsage: boolean;
+
+  constructor(config: LLMProviderConfig, options: OpenAIProviderOptions) {
+    this.name = options.name || 'OpenAI';
+    this.config = config;
+    this.streamUsage = options.streamUsage ?? true;
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+    });
+  }
+
+  async complete(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMCompletion> {
+    const tools = this.config.toolCalling && options.tools?.length ? this.toTools(options.tools) : undefined;
+    const response = await this.client.chat.completions.create({
+      model: options.model ?? this.config.model,
+      messages: this.toMessages(messages),
+      tools,
+      tool_choice: tools ? options.toolChoice : undefined,
+      temperature: options.temperature ?? this.config.temperature,
+      max_tokens: options.maxTokens ?? this.config.maxTokens,
+      // Older models (e.g. gpt-4) reject response_format, so only send it when enabled
+      ...(options.responseFormat === 'json' && this.config.jsonMode
+        ? { response_format: { type: 'json_object' as const } }
+        : {}),
+    }, { signal: options.signal });
+
+    const message = response.choices[0]?.message;
+    const toolCalls = (message?.tool_calls || [])
+      .filter(call => call.type === 'function')
+      .map(call => ({ id: call.id, name: call.function.name, arguments: call.function.arguments }));
+
+    return {
+      content: message?.content || '',
+      model: response.model || options.model || this.config.model,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: response.usage
+        ? { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens }
+        : undefined
+    };
+  }
+
+  async *stream(messages: LLMMessage[], options: LLMRequestOptions = {}): AsyncIterable<string> {
+    const stream = await this.client.chat.completions.create({
+      model: options.model ?? this.config.model,
+      messages: this.toMessages(messages),
+      temperature: options.temperature ?? this.config.temperature,
+      max_tokens: options.maxTokens ?? this.config.maxTokens,
+      stream: true,
+      ...(this.streamUsage ? { stream_options: { include_usage: true } } : {}),
+    }, { signal: options.signal });
+
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content;
+      if (token) {
+        yield token;
+      }
+      // With include_usage the last chunk has no choices, only the totals
+      if (chunk.usage) {
+        options.onUsage?.({ promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens });
+      }
+    }
+  }
+
+  private toMessages(messages: LLMMessage[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+    return messages.map((message): OpenAI.Chat.ChatCompletionMessageParam => {
+      if (message.role === 'tool') {
+        return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+      }
+      if (message.role === 'assistant' && message.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: message.content || null,
+          tool_calls: message.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: call.arguments }
+          }))
+        };
+      }
+      return { role: message.role, content: message.content };
+    });
+  }
+
+  private toTools(tools: LLMToolDefinition[]): OpenAI.Chat.ChatCompletionTool[] {
+    return tools.map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters
+      }
+    }));
+  }
+}
+
+export default OpenAIProvider;
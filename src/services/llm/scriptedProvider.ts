@@ -0,0 +1,79 @@
+import { LLMProvider, LLMProviderConfig, LLMMessage, LLMRequestOptions, LLMCompletion } from './llmProvider';
+
+// A scripted step is either plain text or a completion that may request tool calls
+export type ScriptedResponse =
+  | string
+  | Omit<LLMCompletion, 'model'>
+  | ((messages: LLMMessage[], options: LLMRequestOptions) => string | Omit<LLMCompletion, 'model'>);
+
+const DEFAULT_RESPONSE: ScriptedResponse = (messages, options) => {
+  const question = messages[messages.length - 1]?.content || '';
+  const answer = `Scripted analysis for: "${question}". This is a balanced consideration for offline development. This is not personalized financial advice.`;
+
+  if (options.responseFormat !== 'json') {
+    return answer;
+  }
+  return JSON.stringify({
+    answer,
+    riskLevel: 'medium',
+    riskRationale: 'Scripted provider always reports medium risk.',
+    confidence: 0.5,
+    citedReferenceIds: [],
+    recommendedActions: [],
+    timeHorizon: 'medium-term'
+  });
+};
+
+// Deterministic provider for tests and offline development. Responses are
+// served in order and the last one repeats once the script is exhausted.
+class ScriptedProvider implements LLMProvider {
+  readonly name = 'Scripted';
+  readonly config: LLMProviderConfig;
+  private responses: ScriptedResponse[];
+  private calls = 0;
+
+  constructor(responses: ScriptedResponse[] = [DEFAULT_RESPONSE], config: Partial<LLMProviderConfig> = {}) {
+    this.responses = responses.length > 0 ? responses : [DEFAULT_RESPONSE];
+    this.config = {
+      model: 'scripted',
+      temperature: 0,
+      maxTokens: 1200,
+      contextWindow: 8192,
+      jsonMode: true,
+      toolCalling: true,
+      ...config
+    };
+  }
+
+  async complete(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMCompletion> {
+    if (options.signal?.aborted) {
+      throw new Error('Request was aborted');
+    }
+    return {
+      ...this.next(messages, options),
+      model: options.model ?? this.config.model
+    };
+  }
+
+  async *stream(messages: LLMMessage[], options: LLMRequestOptions = {}): AsyncIterable<string> {
+    const { content } = this.next(messages, options);
+
+    // Split on word boundaries so consumers see realistic incremental tokens
+    for (const token of content.match(/\S+\s*/g) || []) {
+      if (options.signal?.aborted) {
+        throw new Error('Request was aborted');
+      }
+      yield token;
+    }
+  }
+
+  private next(messages: LLMMessage[], options: LLMRequestOptions): Omit<LLMCompletion, 'model'> {
+    const step = this.responses[Math.min(this.calls, this.responses.length - 1)];
+    this.calls++;
+
+    const response = typeof step === 'function' ? step(messages, options) : step;
+    return typeof response === 'string' ? { content: response } : response;
+  }
+}
+
+export default ScriptedProvider;
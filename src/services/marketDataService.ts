@@ -1,150 +1,312 @@
 import axios from 'axios';
-import { MarketData } from '../types';
+import { MarketData, HistoryRange, PriceHistory, OHLCV, CandleInterval, AssetType, Instrument } from '../types';
 import logger from '../utils/logger';
+import { cache } from './cache';
+import {
+  QuoteProvider,
+  ProviderFailure,
+  PartialQuoteError,
+  QuoteUnavailableError,
+  createQuoteProviders,
+  getMockQuote,
+  isSimulatedDataAllowed
+} from './quotes';
+import { INTERVAL_MS, aggregateToCandles, alignToInterval } from '../utils/candles';
+import { seededRandom } from '../utils/seededRandom';
+
+const FINNHUB_RESOLUTIONS: Record<CandleInterval, string> = {
+  '1m': '1',
+  '5m': '5',
+  '1h': '60',
+  '1d': 'D'
+};
+
+interface QuoteBatch {
+  symbols: string[];
+  // Failures are recorded per symbol, so a symbol no provider knows is told apart from one that failed
+  result: Promise<{ quotes: Map<string, MarketData>; failures: Map<string, ProviderFailure[]> }>;
+}
 
 class MarketDataService {
+  // Shared across instances: controllers, tools and indicators each hold their own service
+  private static inFlight = new Map<string, Promise<MarketData | null>>();
+  private static pendingBatches = new Map<string, QuoteBatch>();
+
   private finnhubBaseUrl = 'https://finnhub.io/api/v1';
   private apiKey: string;
+  private providers: QuoteProvider[];
 
-  constructor() {
+  constructor(providers: QuoteProvider[] = createQuoteProviders()) {
     this.apiKey = process.env.FINNHUB_API_KEY || '';
-    if (!this.apiKey) {
-      logger.warn('FINNHUB_API_KEY not set. Using free tier with rate limits.');
-    }
+    this.providers = providers;
   }
 
+  // Quote for a resolved instrument, labeled with its display ticker (BTC rather than BITCOIN)
+  async getQuote(instrument: Instrument): Promise<MarketData | null> {
+    const quote = instrument.type === 'crypto'
+      ? await this.getCryptoPrice(instrument.providerIds.coinGecko || instrument.symbol)
+      : await this.getStockPrice(instrument.providerIds.finnhub || instrument.symbol);
+    return quote && { ...quote, symbol: instrument.symbol };
+  }
+
+  async getHistory(instrument: Instrument, range: HistoryRange): Promise<PriceHistory> {
+    const history = instrument.type === 'crypto'
+      ? await this.getCryptoHistory(instrument.providerIds.coinGecko || instrument.symbol, range)
+      : await this.getStockHistory(instrument.providerIds.finnhub || instrument.symbol, range);
+    return { ...history, symbol: instrument.symbol };
+  }
+
+  // Resolves to null when no provider knows the symbol, and throws
+  // QuoteUnavailableError when providers failed and none could price it.
   async getStockPrice(symbol: string): Promise<MarketData | null> {
+    const normalized = symbol.toUpperCase();
+    const key = `stock:${normalized}`;
+    return cache.getOrLoad('quotes', key, () => this.coalesce(key, () => this.queueFetch('stock', normalized)));
+  }
+
+  async getCryptoPrice(symbol: string): Promise<MarketData | null> {
+    const id = symbol.toLowerCase();
+    const key = `crypto:${id}`;
+    return cache.getOrLoad('quotes', key, () => this.coalesce(key, () => this.queueFetch('crypto', id)));
+  }
+
+  async getCryptoPrices(symbols: string[]): Promise<(MarketData | null)[]> {
+    return Promise.all(symbols.map(symbol => this.getCryptoPrice(symbol)));
+  }
+
+  async getStockPrices(symbols: string[]): Promise<(MarketData | null)[]> {
+    return Promise.all(symbols.map(symbol => this.getStockPrice(symbol)));
+  }
+
+  // Concurrent callers asking for the same quote share one upstream request
+  private coalesce(key: string, fetcher: () => Promise<MarketData | null>): Promise<MarketData | null> {
+    const existing = MarketDataService.inFlight.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const request = fetcher().finally(() => MarketDataService.inFlight.delete(key));
+    MarketDataService.inFlight.set(key, request);
+    return request;
+  }
+
+  // Symbols of the same type requested within one event loop turn go through the
+  // provider chain together, so batch-capable providers (CoinGecko) make one call.
+  private async queueFetch(type: AssetType, symbol: string): Promise<MarketData | null> {
+    let batch = MarketDataService.pendingBatches.get(type);
+    if (!batch) {
+      const symbols: string[] = [];
+      batch = {
+        symbols,
+        result: new Promise<void>(resolve => setImmediate(resolve)).then(() => {
+          MarketDataService.pendingBatches.delete(type);
+          return this.fetchFromProviders(type, symbols);
+        })
+      };
+      MarketDataService.pendingBatches.set(type, batch);
+    }
+
+    batch.symbols.push(symbol);
+    const { quotes, failures } = await batch.result;
+
+    const quote = quotes.get(symbol);
+    if (quote) {
+      return quote;
+    }
+    const symbolFailures = failures.get(symbol);
+    if (symbolFailures) {
+      throw new QuoteUnavailableError(symbol, symbolFailures);
+    }
+    return null;
+  }
+
+  // Walks the failover chain; symbols a provider could not price move on to the next one
+  private async fetchFromProviders(
+    type: AssetType,
+    symbols: string[]
+  ): Promise<{ quotes: Map<string, MarketData>; failures: Map<string, ProviderFailure[]> }> {
+    const quotes = new Map<string, MarketData>();
+    const failures = new Map<string, ProviderFailure[]>();
+    const recordFailure = (failed: string[], failure: ProviderFailure) =>
+      failed.forEach(symbol => failures.set(symbol, [...(failures.get(symbol) || []), failure]));
+    let remaining = symbols;
+
+    for (const provider of this.providers.filter(p => p.supports(type))) {
+      if (remaining.length === 0) {
+        break;
+      }
+
+      let found: Map<string, MarketData>;
+      try {
+        found = await provider.getQuotes(type, remaining);
+      } catch (error: any) {
+        const failed = error instanceof PartialQuoteError ? error.failedSymbols : remaining;
+        logger.error(`Quote provider ${provider.name} failed for ${failed.join(', ')}:`, {
+          message: error.message,
+          status: error.response?.status,
+          statusText: error.response?.statusText
+        });
+        recordFailure(failed, { provider: provider.name, error: error.message });
+        if (!(error instanceof PartialQuoteError)) {
+          continue;
+        }
+        found = error.quotes;
+      }
+
+      found.forEach((quote, symbol) => quotes.set(symbol, quote));
+      remaining = remaining.filter(symbol => !found.has(symbol));
+
+      if (provider.simulated && found.size > 0) {
+        logger.warn(`Serving simulated ${type} data for: ${Array.from(found.keys()).join(', ')}`);
+      }
+    }
+
+    return { quotes, failures };
+  }
+
+  async getStockHistory(symbol: string, range: HistoryRange): Promise<PriceHistory> {
+    const upperSymbol = symbol.toUpperCase();
+
     try {
-      // Use Finnhub's free tier - 60 calls/minute
-      const token = this.apiKey || 'demo'; // demo token for testing
-      
-      // Get current price
-      const quoteResponse = await axios.get(`${this.finnhubBaseUrl}/quote`, {
+      const response = await axios.get(`${this.finnhubBaseUrl}/stock/candle`, {
         params: {
-          symbol: symbol.toUpperCase(),
-          token: token
-        }
+          symbol: upperSymbol,
+          resolution: FINNHUB_RESOLUTIONS[range.interval],
+          from: Math.floor(range.from.getTime() / 1000),
+          to: Math.floor(range.to.getTime() / 1000),
+          token: this.apiKey || 'demo'
+        },
+        timeout: 10000
       });
 
-      const quote = quoteResponse.data;
-      
-      if (!quote || quote.c === 0) {
-        logger.warn(`No data found for symbol: ${symbol}`);
-        return this.getMockStockData(symbol);
+      const data = response.data;
+      if (!data || data.s !== 'ok' || !Array.isArray(data.t)) {
+        logger.warn(`No candle data found for symbol: ${symbol}`);
+        return this.getSimulatedHistory('stock', upperSymbol, range, null);
       }
 
-      const currentPrice = quote.c; // current price
-      const previousClose = quote.pc; // previous close
-      const change = currentPrice - previousClose;
-      const changePercent = (change / previousClose) * 100;
+      const candles: OHLCV[] = data.t.map((time: number, i: number) => ({
+        timestamp: new Date(time * 1000),
+        open: data.o[i],
+        high: data.h[i],
+        low: data.l[i],
+        close: data.c[i],
+        volume: data.v[i]
+      }));
 
       return {
-        symbol: symbol.toUpperCase(),
-        price: Number(currentPrice.toFixed(2)),
-        change: Number(change.toFixed(2)),
-        changePercent: Number(changePercent.toFixed(2)),
-        timestamp: new Date()
+        symbol: upperSymbol,
+        interval: range.interval,
+        from: range.from,
+        to: range.to,
+        candles,
+        currency: 'USD',
+        provider: 'Finnhub',
+        isSimulated: false
       };
-    } catch (error) {
-      logger.error(`Error fetching stock data for ${symbol}:`, error);
-      logger.info('Falling back to mock data');
-      return this.getMockStockData(symbol);
+    } catch (error: any) {
+      logger.error(`Error fetching stock history for ${symbol}:`, error);
+      return this.getSimulatedHistory('stock', upperSymbol, range, { provider: 'Finnhub', error: error.message });
     }
   }
 
-  private getMockStockData(symbol: string): MarketData {
-    // Mock data for common stocks for development/demo
-    const mockPrices: { [key: string]: { price: number; change: number; changePercent: number } } = {
-      'AAPL': { price: 192.53, change: 2.41, changePercent: 1.27 },
-      'GOOGL': { price: 174.29, change: -1.22, changePercent: -0.69 },
-      'MSFT': { price: 417.32, change: 5.18, changePercent: 1.26 },
-      'TSLA': { price: 248.50, change: -3.21, changePercent: -1.27 },
-      'AMZN': { price: 186.43, change: 1.85, changePercent: 1.00 },
-      'META': { price: 504.20, change: 8.15, changePercent: 1.64 },
-      'NVDA': { price: 126.09, change: 2.53, changePercent: 2.05 }
-    };
+  async getCryptoHistory(symbol: string, range: HistoryRange): Promise<PriceHistory> {
+    const coinId = symbol.toLowerCase();
 
-    const stockData = mockPrices[symbol.toUpperCase()] || {
-      price: 100 + Math.random() * 200,
-      change: (Math.random() - 0.5) * 10,
-      changePercent: (Math.random() - 0.5) * 5
-    };
-
-    return {
-      symbol: symbol.toUpperCase(),
-      price: Number(stockData.price.toFixed(2)),
-      change: Number(stockData.change.toFixed(2)),
-      changePercent: Number(stockData.changePercent.toFixed(2)),
-      timestamp: new Date()
-    };
-  }
-
-  async getCryptoPrice(symbol: string): Promise<MarketData | null> {
     try {
-      // Using a free crypto API as fallback
-      const response = await axios.get(`https://api.coingecko.com/api/v3/simple/price`, {
+      // CoinGecko picks the sample granularity from the range length (5 minutes for
+      // up to a day, hourly up to 90 days, daily beyond), so we bucket into candles.
+      const response = await axios.get(`https://api.coingecko.com/api/v3/coins/${encodeURIComponent(coinId)}/market_chart/range`, {
         params: {
-          ids: symbol.toLowerCase(),
-          vs_currencies: 'usd',
-          include_24hr_change: true
+          vs_currency: 'usd',
+          from: Math.floor(range.from.getTime() / 1000),
+          to: Math.floor(range.to.getTime() / 1000)
         },
-        timeout: 10000 // 10 second timeout
+        timeout: 10000
       });
-      
-      const data = response.data[symbol.toLowerCase()];
-      if (!data) {
-        logger.warn(`No cryptocurrency data found for: ${symbol}`);
-        return this.getMockCryptoData(symbol);
+
+      const prices: [number, number][] = response.data?.prices || [];
+      if (prices.length === 0) {
+        logger.warn(`No cryptocurrency history found for: ${symbol}`);
+        return this.getSimulatedHistory('crypto', coinId, range, null);
       }
 
       return {
         symbol: symbol.toUpperCase(),
-        price: data.usd,
-        change: 0, // CoinGecko doesn't provide absolute change
-        changePercent: data.usd_24h_change || 0,
-        timestamp: new Date()
+        interval: range.interval,
+        from: range.from,
+        to: range.to,
+        candles: aggregateToCandles(prices, range.interval),
+        currency: 'USD',
+        provider: 'CoinGecko',
+        isSimulated: false
       };
     } catch (error: any) {
-      if (error.response?.status === 429) {
-        logger.warn(`Rate limited by CoinGecko API for ${symbol}. Using mock data.`);
-        const retryAfter = error.response.headers['retry-after'] || 60;
-        logger.info(`Rate limit will reset in ${retryAfter} seconds`);
-      } else {
-        logger.error(`Error fetching crypto data for ${symbol}:`, {
-          message: error.message,
-          status: error.response?.status,
-          statusText: error.response?.statusText
-        });
-      }
-      return this.getMockCryptoData(symbol);
+      logger.error(`Error fetching crypto history for ${symbol}:`, {
+        message: error.message,
+        status: error.response?.status,
+        statusText: error.response?.statusText
+      });
+      return this.getSimulatedHistory('crypto', coinId, range, { provider: 'CoinGecko', error: error.message });
     }
   }
 
-  private getMockCryptoData(symbol: string): MarketData {
-    // Mock data for common cryptocurrencies for development/demo
-    const mockCryptoPrices: { [key: string]: { price: number; change: number; changePercent: number } } = {
-      'bitcoin': { price: 67245.32, change: 1245.67, changePercent: 1.89 },
-      'ethereum': { price: 3421.56, change: -85.43, changePercent: -2.44 },
-      'polkadot': { price: 6.78, change: 0.23, changePercent: 3.51 },
-      'cardano': { price: 0.47, change: -0.02, changePercent: -4.08 },
-      'solana': { price: 157.89, change: 5.67, changePercent: 3.72 },
-      'chainlink': { price: 14.56, change: 0.89, changePercent: 6.51 },
-      'polygon': { price: 0.85, change: -0.03, changePercent: -3.41 }
+  // Mock series when allowed. Otherwise an upstream failure becomes QuoteUnavailableError
+  // and a symbol without data gets an empty series rather than invented candles.
+  private getSimulatedHistory(type: AssetType, symbol: string, range: HistoryRange, failure: ProviderFailure | null): PriceHistory {
+    if (isSimulatedDataAllowed()) {
+      logger.info(`Serving simulated history for ${symbol}`);
+      return this.getMockHistory(symbol.toUpperCase(), getMockQuote(type, symbol).price, range);
+    }
+    if (failure) {
+      throw new QuoteUnavailableError(symbol, [failure]);
+    }
+    return {
+      symbol: symbol.toUpperCase(),
+      interval: range.interval,
+      from: range.from,
+      to: range.to,
+      candles: [],
+      currency: 'USD',
+      provider: type === 'crypto' ? 'CoinGecko' : 'Finnhub',
+      isSimulated: false
     };
+  }
 
-    const cryptoData = mockCryptoPrices[symbol.toLowerCase()] || {
-      price: 1 + Math.random() * 100,
-      change: (Math.random() - 0.5) * 10,
-      changePercent: (Math.random() - 0.5) * 10
-    };
+  // Seeded mock series: each price point depends only on symbol, interval and time,
+  // so the same range always renders the same chart and overlapping ranges agree.
+  private getMockHistory(symbol: string, basePrice: number, range: HistoryRange): PriceHistory {
+    const step = INTERVAL_MS[range.interval];
+    const key = `${symbol}:${range.interval}`;
 
-    return {
-      symbol: symbol.toUpperCase(),
-      price: Number(cryptoData.price.toFixed(2)),
-      change: Number(cryptoData.change.toFixed(2)),
-      changePercent: Number(cryptoData.changePercent.toFixed(2)),
-      timestamp: new Date()
+    const priceAt = (time: number): number => {
+      const trend = 0.05 * Math.sin(time / (step * 50)) + 0.015 * Math.sin(time / (step * 7));
+      const noise = (seededRandom(`${key}:${time}`) - 0.5) * 0.01;
+      return basePrice * (1 + trend + noise);
     };
+
+    const candles: OHLCV[] = [];
+    let time = alignToInterval(range.from.getTime(), range.interval);
+    if (time < range.from.getTime()) {
+      time += step;
+    }
+
+    for (; time <= range.to.getTime(); time += step) {
+      const open = priceAt(time);
+      const close = priceAt(time + step);
+      const wick = seededRandom(`${key}:${time}:wick`) * 0.005;
+
+      candles.push({
+        timestamp: new Date(time),
+        open: Number(open.toFixed(2)),
+        high: Number((Math.max(open, close) * (1 + wick)).toFixed(2)),
+        low: Number((Math.min(open, close) * (1 - wick)).toFixed(2)),
+        close: Number(close.toFixed(2)),
+        volume: Math.round(100000 + seededRandom(`${key}:${time}:volume`) * 900000)
+      });
+    }
+
+    return { symbol, interval: range.interval, from: range.from, to: range.to, candles, currency: 'USD', provider: 'Simulated', isSimulated: true };
   }
 }
 
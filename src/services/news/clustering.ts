@@ -0,0 +1,102 @@
+import { NewsItem } from '../../types';
+
+// Headlines at least this similar (Jaccard over their significant words) are one story
+const SIMILARITY_THRESHOLD = 0.6;
+// A short headline whose words nearly all appear in a longer one is also a match
+const CONTAINMENT_THRESHOLD = 0.85;
+const CONTAINMENT_MIN_WORDS = 4;
+// Syndicated copies appear within hours; identical headlines days apart are new stories
+const WINDOW_MS = 36 * 60 * 60 * 1000;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'for', 'by', 'with', 'from',
+  'as', 'is', 'are', 'was', 'were', 'be', 'been', 'its', 'it', 'this', 'that', 'after', 'over',
+  'amid', 'into', 'says', 'said', 'report', 'reports', 'update', 'exclusive', 'analysis', 'live'
+]);
+
+interface Cluster {
+  representative: NewsItem;
+  members: NewsItem[];
+  words: Set<string>[];
+}
+
+// Significant words of a headline, without the " - Reuters" style attribution feeds append
+const headlineWords = (title: string): Set<string> => {
+  const words = title
+    .replace(/\s+[-|–—]\s+[^-|–—]{1,40}$/, '')
+    .toLowerCase()
+    .replace(/['’]s\b/g, '')
+    .match(/[a-z0-9$%.]+/g) || [];
+
+  return new Set(words
+    .map(word => word.replace(/^\.+|\.+$/g, ''))
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word)));
+};
+
+const isSameStory = (a: Set<string>, b: Set<string>): boolean => {
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) {
+      shared++;
+    }
+  }
+  const smaller = Math.min(a.size, b.size);
+  if (smaller === 0) {
+    return false;
+  }
+  return shared / (a.size + b.size - shared) >= SIMILARITY_THRESHOLD
+    || (smaller >= CONTAINMENT_MIN_WORDS && shared / smaller >= CONTAINMENT_THRESHOLD);
+};
+
+// Groups near-duplicate headlines across feeds and returns one item per story. The copy
+// from the highest-weighted feed (earliest on ties) represents the story and lists the
+// other copies in `alsoReportedBy`; mentioned symbols are merged from all copies.
+export const clusterNews = (items: NewsItem[], weights: Map<string, number>): NewsItem[] => {
+  const weightOf = (item: NewsItem): number => weights.get(item.source) ?? 1;
+  const ordered = [...items].sort((a, b) =>
+    weightOf(b) - weightOf(a) || a.publishedAt.getTime() - b.publishedAt.getTime());
+
+  const clusters: Cluster[] = [];
+  // Word -> clusters containing it, so each headline is only compared with candidates
+  const index = new Map<string, Cluster[]>();
+
+  for (const item of ordered) {
+    const words = headlineWords(item.title);
+    const candidates = new Set<Cluster>();
+    for (const word of words) {
+      index.get(word)?.forEach(cluster => candidates.add(cluster));
+    }
+
+    const match = Array.from(candidates).find(cluster =>
+      Math.abs(cluster.representative.publishedAt.getTime() - item.publishedAt.getTime()) <= WINDOW_MS
+      && cluster.words.some(memberWords => isSameStory(words, memberWords)));
+
+    const cluster = match ?? { representative: item, members: [], words: [] };
+    if (!match) {
+      clusters.push(cluster);
+    } else {
+      cluster.members.push(item);
+    }
+    cluster.words.push(words);
+    for (const word of words) {
+      const clustersWithWord = index.get(word) ?? [];
+      if (!clustersWithWord.includes(cluster)) {
+        clustersWithWord.push(cluster);
+        index.set(word, clustersWithWord);
+      }
+    }
+  }
+
+  return clusters.map(({ representative, members }) => {
+    if (members.length === 0) {
+      return representative;
+    }
+    const symbols = new Set([representative, ...members].flatMap(item => item.symbols ?? []));
+    return {
+      ...representative,
+      symbols: Array.from(symbols),
+      alsoReportedBy: members.map(({ title, source, url, publishedAt }) => ({ title, source, url, publishedAt }))
+    };
+  });
+};
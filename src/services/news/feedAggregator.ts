@@ -0,0 +1,148 @@
+import Parser from 'rss-parser';
+import { NewsFeed, NewsFeedHealth, NewsItem } from '../../types';
+import { loadNewsFeeds } from './feedConfig';
+import logger from '../../utils/logger';
+
+const DEFAULT_CONCURRENCY = 4;
+
+interface FeedStats {
+  lastAttemptAt: Date | null;
+  lastSuccessAt: Date | null;
+  lastErrorAt: Date | null;
+  lastError: string | null;
+  consecutiveErrors: number;
+  totalErrors: number;
+  totalFetches: number;
+  itemCount: number | null;
+  lastDurationMs: number | null;
+}
+
+// Fetches the configured feeds concurrently, each with its own timeout, and keeps
+// per-feed health. Shared so the admin view sees fetches made for any service.
+class FeedAggregator {
+  private feeds: NewsFeed[];
+  private concurrency: number;
+  private parsers = new Map<string, Parser>();
+  private stats = new Map<string, FeedStats>();
+
+  constructor(
+    feeds: NewsFeed[] = loadNewsFeeds(),
+    concurrency: number = parseInt(process.env.NEWS_FEED_CONCURRENCY || '', 10) || DEFAULT_CONCURRENCY
+  ) {
+    this.feeds = feeds;
+    this.concurrency = Math.max(concurrency, 1);
+
+    for (const feed of feeds) {
+      this.parsers.set(feed.id, new Parser({ timeout: feed.timeoutMs }));
+      this.stats.set(feed.id, {
+        lastAttemptAt: null,
+        lastSuccessAt: null,
+        lastErrorAt: null,
+        lastError: null,
+        consecutiveErrors: 0,
+        totalErrors: 0,
+        totalFetches: 0,
+        itemCount: null,
+        lastDurationMs: null
+      });
+    }
+
+    if (!feeds.some(feed => feed.enabled)) {
+      logger.warn('No news feeds are enabled');
+    }
+  }
+
+  getEnabledFeeds(): NewsFeed[] {
+    return this.feeds.filter(feed => feed.enabled);
+  }
+
+  // Runs `load` for every enabled feed, at most `concurrency` at a time. Feeds that
+  // fail contribute no items rather than failing the whole collection.
+  async collect(load: (feed: NewsFeed) => Promise<NewsItem[]>): Promise<NewsItem[][]> {
+    const feeds = this.getEnabledFeeds();
+    const results: NewsItem[][] = feeds.map(() => []);
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < feeds.length) {
+        const index = next++;
+        try {
+          results[index] = await load(feeds[index]);
+        } catch (error) {
+          logger.error(`Error fetching news from ${feeds[index].name}:`, error);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, feeds.length) }, worker));
+    return results;
+  }
+
+  async fetchFeed(feed: NewsFeed): Promise<NewsItem[]> {
+    const stats = this.stats.get(feed.id) as FeedStats;
+    const parser = this.parsers.get(feed.id) as Parser;
+    const startedAt = Date.now();
+    stats.lastAttemptAt = new Date(startedAt);
+    stats.totalFetches++;
+
+    try {
+      const result = await parser.parseURL(feed.url);
+      const items: NewsItem[] = result.items.map(item => ({
+        title: item.title || '',
+        description: item.contentSnippet || item.content || '',
+        url: item.link || '',
+        source: feed.name,
+        publishedAt: new Date(item.pubDate || Date.now()),
+        category: feed.category,
+        region: feed.region
+      }));
+
+      stats.lastSuccessAt = new Date();
+      stats.consecutiveErrors = 0;
+      stats.itemCount = items.length;
+      return items;
+    } catch (error: any) {
+      stats.lastErrorAt = new Date();
+      stats.lastError = error?.message ?? String(error);
+      stats.consecutiveErrors++;
+      stats.totalErrors++;
+      throw error;
+    } finally {
+      stats.lastDurationMs = Date.now() - startedAt;
+    }
+  }
+
+  // Feed weights, used to pick which source represents a story several feeds carry
+  getWeights(): Map<string, number> {
+    return new Map(this.feeds.map(feed => [feed.name, feed.weight]));
+  }
+
+  getHealth(): NewsFeedHealth[] {
+    return this.feeds.map(feed => {
+      const stats = this.stats.get(feed.id) as FeedStats;
+      let status: NewsFeedHealth['status'] = 'ok';
+      if (!feed.enabled) {
+        status = 'disabled';
+      } else if (stats.consecutiveErrors > 0) {
+        status = 'failing';
+      } else if (!stats.lastSuccessAt) {
+        status = 'pending';
+      }
+
+      return {
+        id: feed.id,
+        name: feed.name,
+        url: feed.url,
+        category: feed.category,
+        region: feed.region,
+        enabled: feed.enabled,
+        status,
+        ...stats
+      };
+    });
+  }
+}
+
+export const feedAggregator = new FeedAggregator();
+
+export default FeedAggregator;
@@ -0,0 +1,73 @@
+import fs from 'fs';
+import { NewsFeed } from '../../types';
+import logger from '../../utils/logger';
+
+const DEFAULT_TIMEOUT_MS = 8000;
+
+type FeedDefinition = Partial<NewsFeed> & Pick<NewsFeed, 'name' | 'url'>;
+
+const DEFAULT_FEEDS: FeedDefinition[] = [
+  { name: 'Reuters', url: 'https://feeds.reuters.com/reuters/businessNews', category: 'business', region: 'global', weight: 3 },
+  { name: 'Bloomberg', url: 'https://feeds.bloomberg.com/markets/news.rss', category: 'markets', region: 'global', weight: 3 },
+  { name: 'BBC', url: 'https://feeds.bbci.co.uk/news/business/rss.xml', category: 'business', region: 'uk', weight: 2 },
+  { name: 'CNBC', url: 'https://www.cnbc.com/id/100003114/device/rss/rss.html', category: 'markets', region: 'us', weight: 2 }
+];
+
+const slugify = (name: string): string => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const isHttpUrl = (value: unknown): boolean => {
+  try {
+    return typeof value === 'string' && ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Fills defaults; returns null (with a warning) for definitions that can't be used
+const toFeed = (definition: any, defaultTimeoutMs: number): NewsFeed | null => {
+  if (typeof definition?.name !== 'string' || !definition.name.trim() || !isHttpUrl(definition.url)) {
+    logger.warn(`Skipping news feed without a name and http(s) url: ${JSON.stringify(definition)}`);
+    return null;
+  }
+  return {
+    id: typeof definition.id === 'string' && definition.id ? definition.id : slugify(definition.name),
+    name: definition.name.trim(),
+    url: definition.url,
+    category: typeof definition.category === 'string' ? definition.category : 'general',
+    region: typeof definition.region === 'string' ? definition.region : 'global',
+    weight: typeof definition.weight === 'number' && definition.weight > 0 ? definition.weight : 1,
+    enabled: definition.enabled !== false,
+    timeoutMs: typeof definition.timeoutMs === 'number' && definition.timeoutMs > 0 ? definition.timeoutMs : defaultTimeoutMs
+  };
+};
+
+// NEWS_FEEDS_FILE points at a JSON array of feed definitions that replaces the built-in
+// list; a file that can't be read or parsed falls back to the built-in feeds
+export const loadNewsFeeds = (): NewsFeed[] => {
+  const defaultTimeoutMs = parseInt(process.env.NEWS_FEED_TIMEOUT_MS || '', 10) || DEFAULT_TIMEOUT_MS;
+  let definitions: unknown[] = DEFAULT_FEEDS;
+
+  if (process.env.NEWS_FEEDS_FILE) {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(process.env.NEWS_FEEDS_FILE, 'utf8'));
+      if (!Array.isArray(parsed)) {
+        throw new Error('expected a JSON array of feeds');
+      }
+      definitions = parsed;
+      logger.info(`Loaded ${parsed.length} news feeds from ${process.env.NEWS_FEEDS_FILE}`);
+    } catch (error: any) {
+      logger.error(`Could not load NEWS_FEEDS_FILE, using the built-in feeds: ${error.message}`);
+    }
+  }
+
+  const feeds: NewsFeed[] = [];
+  for (const definition of definitions) {
+    const feed = toFeed(definition, defaultTimeoutMs);
+    if (feed && feeds.some(existing => existing.id === feed.id)) {
+      logger.warn(`Skipping duplicate news feed id ${feed.id}`);
+    } else if (feed) {
+      feeds.push(feed);
+    }
+  }
+  return feeds;
+};
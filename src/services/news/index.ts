@@ -0,0 +1,8 @@
+import FeedAggregator, { feedAggregator } from './feedAggregator';
+import NewsSearchIndex from './searchIndex';
+
+export * from './searchQuery';
+export * from './searchIndex';
+export { loadNewsFeeds } from './feedConfig';
+export { clusterNews } from './clustering';
+export { FeedAggregator, feedAggregator, NewsSearchIndex };
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import NewsSearchIndex, { InvalidCursorError, NewsSearchOptions } from './searchIndex';
+import { parseSearchQuery } from './searchQuery';
+import { NewsItem } from '../../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const item = (title: string, description: string, hoursAgo: number, source = 'Reuters'): NewsItem => ({
+  title,
+  description,
+  url: `https://example.com/${encodeURIComponent(title)}`,
+  source,
+  publishedAt: new Date(Date.now() - hoursAgo * HOUR_MS)
+});
+
+const search = (index: NewsSearchIndex, query: string, options: Partial<NewsSearchOptions> = {}) =>
+  index.search({ query: parseSearchQuery(query), queryText: query, sort: 'relevance', limit: 10, ...options });
+
+const titles = (result: { items: NewsItem[] }): string[] => result.items.map(hit => hit.title);
+
+const buildIndex = (): NewsSearchIndex => {
+  const index = new NewsSearchIndex(30);
+  index.add([
+    item('Oil prices jump on supply cuts', 'Crude rallied after producers agreed to cut output.', 1),
+    item('Markets wrap', 'Stocks were flat while oil edged higher in late trading.', 2, 'BBC'),
+    item('Bank of America beats estimates', 'The lender reported higher trading revenue.', 3),
+    item('America first bank opens branch', 'A regional lender expands.', 4, 'CNBC'),
+    item('Gold slips as dollar firms', 'Bullion fell for a second day.', 5)
+  ]);
+  return index;
+};
+
+test('BM25 ranks title matches above passing mentions', () => {
+  assert.deepEqual(titles(search(buildIndex(), 'oil')), ['Oil prices jump on supply cuts', 'Markets wrap']);
+});
+
+test('phrases match words in order, with stopword gaps', () => {
+  assert.deepEqual(titles(search(buildIndex(), '"bank of america"')), ['Bank of America beats estimates']);
+  assert.equal(search(buildIndex(), 'bank america').total, 2);
+});
+
+test('boolean queries include and exclude', () => {
+  const index = buildIndex();
+  assert.deepEqual(titles(search(index, 'oil -crude')), ['Markets wrap']);
+  assert.deepEqual(new Set(titles(search(index, 'gold OR crude'))), new Set(['Gold slips as dollar firms', 'Oil prices jump on supply cuts']));
+});
+
+test('filters by source and publication time', () => {
+  const index = buildIndex();
+  assert.deepEqual(titles(search(index, 'oil', { sources: ['bbc'] })), ['Markets wrap']);
+  assert.deepEqual(titles(search(index, 'lender', { from: new Date(Date.now() - 3.5 * HOUR_MS) })), ['Bank of America beats estimates']);
+});
+
+test('cursor pagination walks every match once', () => {
+  const index = new NewsSearchIndex(30);
+  index.add(Array.from({ length: 7 }, (_, i) => item(`Fed update ${i}`, 'Rates unchanged.', i)));
+
+  const seen: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = search(index, 'fed', { sort: 'date', limit: 3, cursor });
+    assert.equal(page.total, 7);
+    seen.push(...titles(page));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+
+  assert.deepEqual(seen, Array.from({ length: 7 }, (_, i) => `Fed update ${i}`));
+  assert.throws(() => search(index, 'fed', { cursor: 'not-a-cursor' }), InvalidCursorError);
+});
+
+test('duplicates are indexed once and old items are dropped', () => {
+  const index = new NewsSearchIndex(1);
+  const fresh = item('Fresh story', 'Today.', 1);
+  assert.equal(index.add([fresh, fresh, item('Stale story', 'Last week.', 24 * 7)]), 1);
+  assert.equal(index.size, 1);
+  assert.equal(search(index, 'stale').total, 0);
+});
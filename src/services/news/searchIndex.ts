@@ -0,0 +1,265 @@
+import { NewsItem, NewsSearchHit, NewsSearchResult } from '../../types';
+import { analyzeText } from '../../utils/textAnalysis';
+import { QueryNode } from './searchQuery';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 30;
+
+// BM25 parameters; title words count as TITLE_BOOST occurrences
+const K1 = 1.2;
+const B = 0.75;
+const TITLE_BOOST = 2;
+// Keeps phrases from matching across the end of the title into the description
+const FIELD_GAP = 100;
+
+export interface NewsSearchOptions {
+  query: QueryNode;
+  // Shown back in the result
+  queryText: string;
+  from?: Date;
+  to?: Date;
+  // Source names, matched case-insensitively
+  sources?: string[];
+  sort: 'relevance' | 'date';
+  limit: number;
+  cursor?: string;
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+interface IndexedDocument {
+  id: number;
+  item: NewsItem;
+  // Positions before this are in the title
+  titleEnd: number;
+  // Title-boosted term count
+  length: number;
+  terms: string[];
+}
+
+// Position of the last item on a page: its sort key and document id
+interface Cursor {
+  key: number;
+  id: number;
+}
+
+const encodeCursor = (cursor: Cursor): string => Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const decodeCursor = (value: string): Cursor => {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof cursor?.key === 'number' && Number.isInteger(cursor?.id)) {
+      return cursor;
+    }
+  } catch {
+    // Fall through
+  }
+  throw new InvalidCursorError();
+};
+
+const documentKey = (item: NewsItem): string => item.url || `${item.source}\n${item.title}`;
+
+// In-memory inverted index over ingested news with positional postings, so phrases
+// can be matched, and BM25 ranking. Items older than the retention window are dropped.
+class NewsSearchIndex {
+  private retentionMs: number;
+  private documents = new Map<number, IndexedDocument>();
+  private documentIds = new Map<string, number>();
+  // term -> document id -> positions
+  private postings = new Map<string, Map<number, number[]>>();
+  private totalLength = 0;
+  private nextId = 1;
+
+  constructor(retentionDays: number = parseFloat(process.env.NEWS_SEARCH_RETENTION_DAYS || '') || DEFAULT_RETENTION_DAYS) {
+    this.retentionMs = retentionDays * DAY_MS;
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  // Indexes items not seen before; returns how many were added
+  add(items: NewsItem[]): number {
+    this.prune();
+    const cutoff = Date.now() - this.retentionMs;
+    let added = 0;
+
+    for (const item of items) {
+      const key = documentKey(item);
+      if (this.documentIds.has(key) || item.publishedAt.getTime() < cutoff) {
+        continue;
+      }
+
+      const id = this.nextId++;
+      const title = analyzeText(item.title);
+      const titleEnd = title.length > 0 ? title[title.length - 1].position + 1 : 0;
+      const body = analyzeText(item.description).map(({ term, position }) => ({ term, position: position + titleEnd + FIELD_GAP }));
+
+      for (const { term, position } of [...title, ...body]) {
+        let documents = this.postings.get(term);
+        if (!documents) {
+          documents = new Map();
+          this.postings.set(term, documents);
+        }
+        const positions = documents.get(id);
+        if (positions) {
+          positions.push(position);
+        } else {
+          documents.set(id, [position]);
+        }
+      }
+
+      const length = title.length * TITLE_BOOST + body.length;
+      const terms = Array.from(new Set([...title, ...body].map(({ term }) => term)));
+      this.documents.set(id, { id, item, titleEnd, length, terms });
+      this.documentIds.set(key, id);
+      this.totalLength += length;
+      added++;
+    }
+
+    return added;
+  }
+
+  search(options: NewsSearchOptions): NewsSearchResult {
+    this.prune();
+    const sources = options.sources?.map(source => source.toLowerCase());
+    const candidates = new Set<number>();
+    for (const document of this.documents.values()) {
+      const published = document.item.publishedAt;
+      if ((!options.from || published >= options.from) && (!options.to || published <= options.to)
+        && (!sources || sources.includes(document.item.source.toLowerCase()))) {
+        candidates.add(document.id);
+      }
+    }
+
+    const matches = this.evaluate(options.query, candidates);
+    const terms = Array.from(new Set(positiveTerms(options.query)));
+    const ranked = Array.from(matches).map(id => {
+      const document = this.documents.get(id) as IndexedDocument;
+      const score = Math.round(this.score(document, terms) * 10000) / 10000;
+      return { document, score, key: options.sort === 'date' ? document.item.publishedAt.getTime() : score };
+    });
+
+    // Descending by key, later-ingested documents first on ties. The order is total, so
+    // a cursor resumes right after its item even if documents were added in between.
+    ranked.sort((a, b) => b.key - a.key || b.document.id - a.document.id);
+
+    let start = 0;
+    if (options.cursor) {
+      const cursor = decodeCursor(options.cursor);
+      start = ranked.findIndex(hit => hit.key < cursor.key || (hit.key === cursor.key && hit.document.id < cursor.id));
+      start = start === -1 ? ranked.length : start;
+    }
+
+    const page = ranked.slice(start, start + options.limit);
+    const last = page[page.length - 1];
+    return {
+      query: options.queryText,
+      sort: options.sort,
+      total: ranked.length,
+      items: page.map(({ document, score }): NewsSearchHit => ({ ...document.item, score })),
+      nextCursor: last && start + page.length < ranked.length ? encodeCursor({ key: last.key, id: last.document.id }) : null
+    };
+  }
+
+  // Drops documents published before the retention window
+  prune(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    for (const document of this.documents.values()) {
+      if (document.item.publishedAt.getTime() >= cutoff) {
+        continue;
+      }
+      for (const term of document.terms) {
+        const documents = this.postings.get(term);
+        documents?.delete(document.id);
+        if (documents?.size === 0) {
+          this.postings.delete(term);
+        }
+      }
+      this.documents.delete(document.id);
+      this.documentIds.delete(documentKey(document.item));
+      this.totalLength -= document.length;
+    }
+  }
+
+  private evaluate(node: QueryNode, candidates: Set<number>): Set<number> {
+    switch (node.type) {
+      case 'term':
+        return intersect(candidates, this.postings.get(node.term)?.keys() ?? []);
+      case 'phrase':
+        return new Set(Array.from(candidates).filter(id => this.containsPhrase(id, node.terms)));
+      case 'not': {
+        const excluded = this.evaluate(node.child, candidates);
+        return new Set(Array.from(candidates).filter(id => !excluded.has(id)));
+      }
+      case 'and':
+        return node.children.reduce((matches, child) => this.evaluate(child, matches), candidates);
+      case 'or': {
+        const matches = new Set<number>();
+        node.children.forEach(child => this.evaluate(child, candidates).forEach(id => matches.add(id)));
+        return matches;
+      }
+    }
+  }
+
+  private containsPhrase(id: number, terms: { term: string; offset: number }[]): boolean {
+    const positions = terms.map(({ term }) => this.postings.get(term)?.get(id));
+    if (positions.some(list => !list)) {
+      return false;
+    }
+    const lists = positions as number[][];
+    return lists[0].some(start => terms.every(({ offset }, i) => lists[i].includes(start + offset)));
+  }
+
+  private score(document: IndexedDocument, terms: string[]): number {
+    const count = this.documents.size;
+    const averageLength = this.totalLength / count || 1;
+    let score = 0;
+
+    for (const term of terms) {
+      const documents = this.postings.get(term);
+      const positions = documents?.get(document.id);
+      if (!documents || !positions) {
+        continue;
+      }
+      const frequency = positions.reduce((sum, position) => sum + (position < document.titleEnd ? TITLE_BOOST : 1), 0);
+      const idf = Math.log(1 + (count - documents.size + 0.5) / (documents.size + 0.5));
+      score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * document.length / averageLength));
+    }
+
+    return score;
+  }
+}
+
+const intersect = (set: Set<number>, ids: Iterable<number>): Set<number> => {
+  const result = new Set<number>();
+  for (const id of ids) {
+    if (set.has(id)) {
+      result.add(id);
+    }
+  }
+  return result;
+};
+
+// Terms that contribute to ranking: everything not under a NOT
+const positiveTerms = (node: QueryNode): string[] => {
+  switch (node.type) {
+    case 'term':
+      return [node.term];
+    case 'phrase':
+      return node.terms.map(({ term }) => term);
+    case 'not':
+      return [];
+    default:
+      return node.children.flatMap(positiveTerms);
+  }
+};
+
+export const newsSearchIndex = new NewsSearchIndex();
+
+export default NewsSearchIndex;
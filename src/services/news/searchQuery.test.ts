@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { QuerySyntaxError, parseSearchQuery } from './searchQuery';
+import { analyzeText } from '../../utils/textAnalysis';
+
+const stem = (word: string): string => analyzeText(word)[0].term;
+const term = (word: string) => ({ type: 'term', term: stem(word) });
+
+test('terms are ANDed by default and AND is optional', () => {
+  const expected = { type: 'and', children: [term('tesla'), term('earnings')] };
+  assert.deepEqual(parseSearchQuery('tesla earnings'), expected);
+  assert.deepEqual(parseSearchQuery('tesla AND earnings'), expected);
+});
+
+test('AND binds tighter than OR, and parentheses group', () => {
+  assert.deepEqual(parseSearchQuery('oil prices OR gas'), {
+    type: 'or',
+    children: [{ type: 'and', children: [term('oil'), term('prices')] }, term('gas')]
+  });
+  assert.deepEqual(parseSearchQuery('oil (prices OR gas)'), {
+    type: 'and',
+    children: [term('oil'), { type: 'or', children: [term('prices'), term('gas')] }]
+  });
+});
+
+test('NOT and a leading dash exclude terms', () => {
+  const expected = { type: 'and', children: [term('bitcoin'), { type: 'not', child: term('etf') }] };
+  assert.deepEqual(parseSearchQuery('bitcoin NOT etf'), expected);
+  assert.deepEqual(parseSearchQuery('bitcoin -etf'), expected);
+});
+
+test('lower-case operators and hyphenated words are ordinary text', () => {
+  assert.deepEqual(parseSearchQuery('buy or sell'), { type: 'and', children: [term('buy'), term('sell')] });
+  assert.equal(parseSearchQuery('covid-19').type, 'phrase');
+});
+
+test('quoted phrases keep the gaps left by stopwords', () => {
+  assert.deepEqual(parseSearchQuery('"bank of america"'), {
+    type: 'phrase',
+    terms: [{ term: stem('bank'), offset: 0 }, { term: stem('america'), offset: 2 }]
+  });
+});
+
+test('stopwords drop out of the query', () => {
+  assert.deepEqual(parseSearchQuery('the fed'), term('fed'));
+});
+
+test('malformed queries are rejected with a reason', () => {
+  assert.throws(() => parseSearchQuery('"unterminated'), /closing quote/);
+  assert.throws(() => parseSearchQuery('(oil OR gas'), /Missing closing/);
+  assert.throws(() => parseSearchQuery('oil)'), /Unexpected/);
+  assert.throws(() => parseSearchQuery('oil NOT'), /after NOT/);
+  assert.throws(() => parseSearchQuery('oil OR'), QuerySyntaxError);
+  assert.throws(() => parseSearchQuery('the of'), /no searchable terms/);
+});
@@ -0,0 +1,157 @@
+import { analyzeText } from '../../utils/textAnalysis';
+
+// Parsed search query. Phrase terms carry their offset from the first term.
+export type QueryNode =
+  | { type: 'term'; term: string }
+  | { type: 'phrase'; terms: { term: string; offset: number }[] }
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+export class QuerySyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+type Token =
+  | { kind: 'word' | 'phrase'; text: string }
+  | { kind: 'and' | 'or' | 'not' | 'open' | 'close' };
+
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '"') {
+      const end = query.indexOf('"', i + 1);
+      if (end === -1) {
+        throw new QuerySyntaxError('Unterminated phrase: missing closing quote');
+      }
+      tokens.push({ kind: 'phrase', text: query.slice(i + 1, end) });
+      i = end + 1;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'open' : 'close' });
+      i++;
+    } else if (char === '-' && i + 1 < query.length && !/[\s-]/.test(query[i + 1])) {
+      tokens.push({ kind: 'not' });
+      i++;
+    } else {
+      const match = query.slice(i).match(/^[^\s()"]+/) as RegExpMatchArray;
+      const word = match[0];
+      // Operators are upper case so "or" and "not" in ordinary text stay words
+      if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        tokens.push({ kind: word.toLowerCase() as 'and' | 'or' | 'not' });
+      } else {
+        tokens.push({ kind: 'word', text: word });
+      }
+      i += word.length;
+    }
+  }
+  return tokens;
+};
+
+// query := or; or := and ("OR" and)*; and := unary (["AND"] unary)*;
+// unary := ("NOT" | "-") unary | "(" or ")" | phrase | word
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): QueryNode | null {
+    const node = this.parseOr();
+    if (this.index < this.tokens.length) {
+      throw new QuerySyntaxError('Unexpected ")"');
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private parseOr(): QueryNode | null {
+    const children = [this.parseAnd()];
+    while (this.peek()?.kind === 'or') {
+      this.index++;
+      children.push(this.parseAnd());
+    }
+    return combine('or', children);
+  }
+
+  private parseAnd(): QueryNode | null {
+    const children: (QueryNode | null)[] = [];
+    for (let token = this.peek(); token && token.kind !== 'or' && token.kind !== 'close'; token = this.peek()) {
+      if (token.kind === 'and') {
+        this.index++;
+        continue;
+      }
+      children.push(this.parseUnary());
+    }
+    if (children.length === 0) {
+      throw new QuerySyntaxError('Expected a search term');
+    }
+    return combine('and', children);
+  }
+
+  private parseUnary(): QueryNode | null {
+    const token = this.tokens[this.index++];
+    switch (token.kind) {
+      case 'not': {
+        if (!this.peek() || ['and', 'or', 'close'].includes((this.peek() as Token).kind)) {
+          throw new QuerySyntaxError('Expected a search term after NOT');
+        }
+        const child = this.parseUnary();
+        return child && { type: 'not', child };
+      }
+      case 'open': {
+        const node = this.parseOr();
+        if (this.peek()?.kind !== 'close') {
+          throw new QuerySyntaxError('Missing closing ")"');
+        }
+        this.index++;
+        return node;
+      }
+      case 'phrase':
+      case 'word':
+        return textNode(token.text);
+      default:
+        throw new QuerySyntaxError('Expected a search term');
+    }
+  }
+}
+
+// Words that analyze to nothing (stopwords, punctuation) drop out of the query;
+// a word that splits into several terms ("u.s.", "covid-19") is matched as a phrase
+const textNode = (text: string): QueryNode | null => {
+  const terms = analyzeText(text);
+  if (terms.length === 0) {
+    return null;
+  }
+  if (terms.length === 1) {
+    return { type: 'term', term: terms[0].term };
+  }
+  return { type: 'phrase', terms: terms.map(({ term, position }) => ({ term, offset: position - terms[0].position })) };
+};
+
+const combine = (type: 'and' | 'or', children: (QueryNode | null)[]): QueryNode | null => {
+  const kept = children.filter((child): child is QueryNode => child !== null);
+  if (kept.length <= 1) {
+    return kept[0] ?? null;
+  }
+  return { type, children: kept };
+};
+
+// Terms are ANDed by default; OR, NOT, "-term", "quoted phrases" and parentheses are supported
+export const parseSearchQuery = (query: string): QueryNode => {
+  const node = new Parser(tokenize(query)).parse();
+  if (!node) {
+    throw new QuerySyntaxError('The query has no searchable terms');
+  }
+  return node;
+};
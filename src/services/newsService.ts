@@ -1,66 +1,164 @@
-import Parser from 'rss-parser';
-import { NewsItem } from '../types';
+import { NewsFeed, NewsFeedHealth, NewsItem, NewsSearchResult, NewsSentiment, SymbolSentiment } from '../types';
 import logger from '../utils/logger';
+import { extractTickers } from '../utils/instrumentMentions';
+import { cache } from './cache';
+import {
+  FeedAggregator, NewsSearchIndex, NewsSearchOptions, QueryNode, QuerySyntaxError, clusterNews, feedAggregator, newsSearchIndex, parseSearchQuery
+} from './news';
+import { SentimentScorer, createSentimentScorer, labelForScore } from './sentiment';
+import { findInstrument } from './symbols';
+
+export interface NewsFilters {
+  keyword?: string;
+  // Ticker or catalog name ("bitcoin")
+  symbol?: string;
+  sentiment?: NewsSentiment;
+  limit: number;
+}
+
+// Items per feed considered when filtering or aggregating
+const SCAN_LIMIT = 200;
+// Feeds are re-fetched (and new items indexed for search) at most once per news cache TTL
+const DEFAULT_INGEST_INTERVAL_MS = 5 * 60 * 1000;
 
 class NewsService {
-  private parser: Parser;
-  private feedUrls: string[];
-
-  constructor() {
-    this.parser = new Parser();
-    this.feedUrls = [
-      'https://feeds.reuters.com/reuters/businessNews',
-      'https://feeds.bloomberg.com/markets/news.rss',
-      'https://feeds.bbci.co.uk/news/business/rss.xml',
-      'https://www.cnbc.com/id/100003114/device/rss/rss.html'
-    ];
+  private aggregator: FeedAggregator;
+  private searchIndex: NewsSearchIndex;
+  private sentimentScorer: SentimentScorer;
+  private ingestIntervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    sentimentScorer: SentimentScorer = createSentimentScorer(),
+    aggregator: FeedAggregator = feedAggregator,
+    searchIndex: NewsSearchIndex = newsSearchIndex,
+    ingestIntervalMs: number = parseInt(process.env.NEWS_INGEST_INTERVAL_MS ?? '', 10)
+  ) {
+    this.sentimentScorer = sentimentScorer;
+    this.aggregator = aggregator;
+    this.searchIndex = searchIndex;
+    this.ingestIntervalMs = Number.isNaN(ingestIntervalMs) ? DEFAULT_INGEST_INTERVAL_MS : ingestIntervalMs;
+  }
+
+  // Polls the feeds so the search index keeps filling between requests; 0 disables it
+  start(): void {
+    if (!this.timer && this.ingestIntervalMs > 0) {
+      this.timer = setInterval(() => void this.getLatestFinancialNews(SCAN_LIMIT), this.ingestIntervalMs);
+      this.timer.unref();
+      logger.info(`Ingesting news feeds every ${this.ingestIntervalMs}ms`);
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
   }
 
   async getLatestFinancialNews(limit: number = 10): Promise<NewsItem[]> {
-    const allNews: NewsItem[] = [];
+    const perFeed = await this.aggregator.collect(feed =>
+      cache.getOrLoad('news', feed.id, () => this.fetchFeed(feed)));
+    const allNews = perFeed.flatMap(items => items.slice(0, limit));
+
+    // One item per story, most recent first
+    return clusterNews(allNews, this.aggregator.getWeights())
+      .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime())
+      .slice(0, limit);
+  }
+
+  getFeedHealth(): NewsFeedHealth[] {
+    return this.aggregator.getHealth();
+  }
 
-    for (const feedUrl of this.feedUrls) {
+  // Keyword search for the analysis tools. Text the query syntax can't parse (a stray
+  // quote or parenthesis) is searched as plain words.
+  async searchFinancialNews(keyword: string, limit: number = 5): Promise<NewsItem[]> {
+    let query: QueryNode;
+    try {
+      query = parseSearchQuery(keyword);
+    } catch (error) {
+      if (!(error instanceof QuerySyntaxError)) {
+        throw error;
+      }
       try {
-        const feed = await this.parser.parseURL(feedUrl);
-        const feedName = this.extractFeedName(feedUrl);
-        
-        const newsItems: NewsItem[] = feed.items.slice(0, limit).map(item => ({
-          title: item.title || '',
-          description: item.contentSnippet || item.content || '',
-          url: item.link || '',
-          source: feedName,
-          publishedAt: new Date(item.pubDate || Date.now())
-        }));
-
-        allNews.push(...newsItems);
-      } catch (error) {
-        logger.error(`Error fetching news from ${feedUrl}:`, error);
+        query = parseSearchQuery(keyword.replace(/["()]/g, ' '));
+      } catch {
+        return [];
       }
     }
+    return (await this.search({ query, queryText: keyword, sort: 'relevance', limit })).items;
+  }
+
+  // Searches everything ingested within the retention window, after picking up new items
+  async search(options: NewsSearchOptions): Promise<NewsSearchResult> {
+    await this.getLatestFinancialNews(SCAN_LIMIT);
+    return this.searchIndex.search(options);
+  }
+
+  async findNews(filters: NewsFilters): Promise<NewsItem[]> {
+    const keyword = filters.keyword?.toLowerCase();
+    const symbol = filters.symbol && this.toTicker(filters.symbol);
+    const allNews = await this.getLatestFinancialNews(SCAN_LIMIT);
 
-    // Sort by publication date and return the most recent
     return allNews
-      .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime())
-      .slice(0, limit);
+      .filter(item =>
+        (!keyword || item.title.toLowerCase().includes(keyword) || item.description.toLowerCase().includes(keyword)) &&
+        (!symbol || item.symbols?.includes(symbol)) &&
+        (!filters.sentiment || item.sentiment === filters.sentiment))
+      .slice(0, filters.limit);
   }
 
-  async searchFinancialNews(keyword: string, limit: number = 5): Promise<NewsItem[]> {
-    const allNews = await this.getLatestFinancialNews(50);
-    
-    const filtered = allNews.filter(item => 
-      item.title.toLowerCase().includes(keyword.toLowerCase()) ||
-      item.description.toLowerCase().includes(keyword.toLowerCase())
-    );
-
-    return filtered.slice(0, limit);
+  // Sentiment of the items published in the last `hours` that mention the symbol
+  async getSymbolSentiment(symbol: string, hours: number, headlineLimit: number): Promise<SymbolSentiment> {
+    const ticker = this.toTicker(symbol);
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+    const items = (await this.getLatestFinancialNews(SCAN_LIMIT))
+      .filter(item => item.publishedAt >= since && item.symbols?.includes(ticker));
+
+    const scored = items.filter(item => item.sentimentScore !== undefined);
+    const averageScore = scored.length > 0
+      ? Math.round((scored.reduce((sum, item) => sum + (item.sentimentScore as number), 0) / scored.length) * 1000) / 1000
+      : null;
+    const count = (label: NewsSentiment): number => items.filter(item => item.sentiment === label).length;
+
+    return {
+      symbol: ticker,
+      articles: items.length,
+      positive: count('positive'),
+      negative: count('negative'),
+      neutral: count('neutral'),
+      averageScore,
+      sentiment: averageScore === null ? null : labelForScore(averageScore),
+      since,
+      headlines: items.slice(0, headlineLimit)
+    };
+  }
+
+  private async fetchFeed(feed: NewsFeed): Promise<NewsItem[]> {
+    const items = await this.enrich(await this.aggregator.fetchFeed(feed));
+    this.searchIndex.add(items);
+    return items;
+  }
+
+  // Runs once per feed fetch, so cached items are already tagged
+  private async enrich(items: NewsItem[]): Promise<NewsItem[]> {
+    try {
+      const results = await this.sentimentScorer.score(items.map(item => ({ title: item.title, body: item.description })));
+      return items.map((item, i) => ({
+        ...item,
+        sentiment: results[i].label,
+        sentimentScore: results[i].score,
+        symbols: extractTickers(`${item.title}\n${item.description}`)
+      }));
+    } catch (error) {
+      logger.error(`Sentiment scoring with ${this.sentimentScorer.name} failed:`, error);
+      return items.map(item => ({ ...item, symbols: extractTickers(`${item.title}\n${item.description}`) }));
+    }
   }
 
-  private extractFeedName(url: string): string {
-    if (url.includes('reuters')) return 'Reuters';
-    if (url.includes('bloomberg')) return 'Bloomberg';
-    if (url.includes('bbc')) return 'BBC';
-    if (url.includes('cnbc')) return 'CNBC';
-    return 'Unknown Source';
+  private toTicker(symbol: string): string {
+    return findInstrument(symbol)?.symbol ?? symbol.toUpperCase();
   }
 }
 
@@ -1,30 +1,548 @@
-import OpenAI from 'openai';
-import { FinancialQuery, FinancialAnalysis } from '../types';
+import { FinancialQuery, FinancialAnalysis, AnalysisStreamEvent, Reference, ConversationTurn, AssetType, WatchlistDigest } from '../types';
 import { dataService } from './dataService';
 import logger from '../utils/logger';
+import { estimateTokens, truncateHistory } from '../utils/tokenBudget';
+import { LLMProvider, LLMMessage, LLMRequestOptions, LLMCompletion, LLMUnavailableError, MeteredLLMProvider, createLLMProvider } from './llm';
+import AnalysisToolkit from './analysisTools';
+import IndicatorService from './indicatorService';
+import SymbolResolver from './symbolResolver';
+import PortfolioContextService, { PortfolioContext } from './portfolioContextService';
+import { BASE_CURRENCY } from './fx';
+import UsageService, { BudgetExceededError, usageService as sharedUsageService } from './usageService';
+import { getRequestCaller } from '../utils/requestContext';
+import { extractMentionedSymbols } from '../utils/instrumentMentions';
+import { maxConfidence } from './analysisConfidence';
+import {
+  ANALYSIS_SCHEMA,
+  ASSESSMENT_SCHEMA,
+  ParseResult,
+  StructuredAssessment,
+  parseStructuredAnalysis,
+  parseStructuredAssessment
+} from './structuredAnalysis';
+
+const PRIMARY_DISCLAIMER = 'This analysis is based on current market data but is not personalized financial advice. Please consult with a qualified financial advisor before making investment decisions.';
+const FALLBACK_DISCLAIMER = 'This analysis is based on general market principles. For current market conditions, please consult recent financial data. This is not personalized financial advice.';
+// The fallback answers without market context, so it gets a shorter completion
+const FALLBACK_MAX_TOKENS = 800;
+// The fallback has no market context, references or prices to go on
+const FALLBACK_MAX_CONFIDENCE = maxConfidence({ marketContext: false, references: 0, simulated: false });
+// Extra attempts after the first response fails validation
+const MAX_REPAIR_ATTEMPTS = 2;
+// Bounds on the tool-call loop so a model can't keep fetching indefinitely
+const MAX_TOOL_ITERATIONS = 3;
+const MAX_TOOL_CALLS_PER_ITERATION = 5;
+const DIGEST_SUMMARY_MAX_TOKENS = 250;
+
+type AnalysisAssessment = Omit<FinancialAnalysis, 'answer' | 'references' | 'sources' | 'disclaimer'>;
 
 class OpenAIService {
-  private openai: OpenAI;
+  private provider: LLMProvider | null;
+  private toolkit: AnalysisToolkit;
+  private indicatorService: IndicatorService;
+  private symbolResolver: SymbolResolver;
+  private portfolioContextService: PortfolioContextService;
+  private usageService: UsageService;
+
+  constructor(
+    provider: LLMProvider | null = createLLMProvider(),
+    toolkit: AnalysisToolkit = new AnalysisToolkit(),
+    indicatorService: IndicatorService = new IndicatorService(),
+    symbolResolver: SymbolResolver = new SymbolResolver(),
+    portfolioContextService: PortfolioContextService = new PortfolioContextService(),
+    usageService: UsageService = sharedUsageService
+  ) {
+    // Every call is metered for the caller of the current request
+    this.provider = provider && new MeteredLLMProvider(provider, usageService);
+    this.usageService = usageService;
+    this.toolkit = toolkit;
+    this.indicatorService = indicatorService;
+    this.symbolResolver = symbolResolver;
+    this.portfolioContextService = portfolioContextService;
 
-  constructor() {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY is required');
+    if (this.provider) {
+      logger.info(`Using LLM provider ${this.provider.name} (${this.provider.config.model})`);
+    } else {
+      logger.warn('No LLM provider configured. Analysis endpoints will be unavailable.');
     }
-    
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
   }
 
-  async analyzeFinancialQuery(query: FinancialQuery): Promise<FinancialAnalysis> {
+  isAvailable(): boolean {
+    return this.provider !== null;
+  }
+
+  getProviderInfo(): { name: string; model: string } | null {
+    return this.provider ? { name: this.provider.name, model: this.provider.config.model } : null;
+  }
+
+  // Throws BudgetExceededError when the current caller may not start another call,
+  // so streaming routes can answer with a status before the stream begins
+  async checkBudget(): Promise<void> {
+    await this.usageService.selectModel(getRequestCaller(), this.requireProvider().config.model);
+  }
+
+  async analyzeFinancialQuery(query: FinancialQuery, history: ConversationTurn[] = []): Promise<FinancialAnalysis> {
+    const provider = this.requireProvider();
+
     try {
       // Gather current market context and references from data service
-      const [marketContext, references] = await Promise.all([
-        dataService.gatherContextForQuery(query.question),
-        dataService.gatherReferencesForQuery(query.question)
+      const [marketContext, references, portfolio] = await Promise.all([
+        this.gatherMarketContext(query.question, query.currency),
+        dataService.gatherReferencesForQuery(query.question),
+        this.gatherPortfolioContext(query)
       ]);
       
-      const systemPrompt = `You are a financial advisor AI that provides data-backed investment advice using real-time market data.
+      const systemPrompt = this.buildSystemPrompt(marketContext, references, 'json', query.currency, portfolio);
+
+      const { value, raw, toolReferences } = await this.completeStructured(
+        this.buildMessages(systemPrompt, query.question, history, provider.config.maxTokens),
+        (content, toolRefs) => parseStructuredAnalysis(content, [...references, ...toolRefs].map(ref => ref.id)),
+        {},
+        true
+      );
+
+      const sources = this.extractSources(raw, marketContext);
+      if (toolReferences.length > 0) {
+        sources.push('Live Market Data Lookups');
+      }
+      const allReferences = [...references, ...toolReferences];
+      const concentration = portfolio ? { concentrationRisks: portfolio.risks } : {};
+      const confidenceCap = this.confidenceCap(allReferences, portfolio);
+
+      if (!value) {
+        return { ...this.buildHeuristicAnalysis(raw, confidenceCap, sources, PRIMARY_DISCLAIMER, allReferences), ...concentration };
+      }
+
+      return {
+        ...value,
+        confidence: Math.min(value.confidence, confidenceCap),
+        sources,
+        assessmentMethod: 'structured',
+        disclaimer: PRIMARY_DISCLAIMER,
+        references: allReferences,
+        ...concentration
+      };
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
+      logger.error('Error in LLM analysis:', error);
+      
+      // Fallback to basic analysis without data service
+      return this.analyzeFinancialQueryFallback(query, history);
+    }
+  }
+
+  private async analyzeFinancialQueryFallback(query: FinancialQuery, history: ConversationTurn[] = []): Promise<FinancialAnalysis> {
+    const provider = this.requireProvider();
+    const maxTokens = Math.min(provider.config.maxTokens, FALLBACK_MAX_TOKENS);
+
+    try {
+      const systemPrompt = this.buildFallbackSystemPrompt('json');
+
+      const { value, raw } = await this.completeStructured(
+        this.buildMessages(systemPrompt, query.question, history, maxTokens),
+        content => parseStructuredAnalysis(content, []),
+        { maxTokens }
+      );
+
+      const sources = [this.analysisSourceName(), 'General Market Principles'];
+
+      if (!value) {
+        return this.buildHeuristicAnalysis(raw, FALLBACK_MAX_CONFIDENCE, sources, FALLBACK_DISCLAIMER, []);
+      }
+
+      return {
+        ...value,
+        confidence: Math.min(value.confidence, FALLBACK_MAX_CONFIDENCE),
+        sources,
+        assessmentMethod: 'structured',
+        disclaimer: FALLBACK_DISCLAIMER,
+        references: []
+      };
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
+      logger.error('Error in fallback LLM analysis:', error);
+      throw new Error('Failed to analyze financial query');
+    }
+  }
+
+  // Streaming variant of analyzeFinancialQuery. Yields references first, then
+  // answer tokens as they arrive, then a final event with the computed metadata.
+  async *streamFinancialQuery(query: FinancialQuery, signal?: AbortSignal): AsyncGenerator<AnalysisStreamEvent> {
+    const provider = this.requireProvider();
+    let marketContext: string;
+    let references: Reference[];
+    let portfolio: PortfolioContext | null;
+    let tokens: AsyncIterator<string>;
+    let first: IteratorResult<string>;
+
+    try {
+      [marketContext, references, portfolio] = await Promise.all([
+        this.gatherMarketContext(query.question, query.currency),
+        dataService.gatherReferencesForQuery(query.question),
+        this.gatherPortfolioContext(query)
+      ]);
+
+      const systemPrompt = this.buildSystemPrompt(marketContext, references, 'prose', query.currency, portfolio);
+      const messages = this.buildMessages(systemPrompt, query.question, [], provider.config.maxTokens);
+      tokens = provider.stream(messages, { signal })[Symbol.asyncIterator]();
+
+      // Pull the first token here so upstream failures surface before anything is sent
+      first = await tokens.next();
+    } catch (error) {
+      if (signal?.aborted) {
+        return;
+      }
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
+      logger.error('Error starting LLM stream:', error);
+
+      // Nothing has been sent yet, so the fallback can take over the stream
+      yield* this.streamFinancialQueryFallback(query, signal);
+      return;
+    }
+
+    yield { type: 'references', references };
+
+    const content = yield* this.relayTokens(tokens, first);
+    const assessment = await this.assessAnswer(query.question, content, references, this.confidenceCap(references, portfolio), signal);
+
+    yield {
+      type: 'done',
+      ...assessment,
+      sources: this.extractSources(content, marketContext),
+      disclaimer: PRIMARY_DISCLAIMER,
+      ...(portfolio && { concentrationRisks: portfolio.risks })
+    };
+  }
+
+  private async *streamFinancialQueryFallback(query: FinancialQuery, signal?: AbortSignal): AsyncGenerator<AnalysisStreamEvent> {
+    const provider = this.requireProvider();
+    const maxTokens = Math.min(provider.config.maxTokens, FALLBACK_MAX_TOKENS);
+    let tokens: AsyncIterator<string>;
+    let first: IteratorResult<string>;
+
+    try {
+      const messages = this.buildMessages(this.buildFallbackSystemPrompt('prose'), query.question, [], maxTokens);
+      tokens = provider.stream(messages, { maxTokens, signal })[Symbol.asyncIterator]();
+      first = await tokens.next();
+    } catch (error) {
+      if (signal?.aborted) {
+        return;
+      }
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
+      logger.error('Error in fallback LLM stream:', error);
+      throw new Error('Failed to analyze financial query');
+    }
+
+    yield { type: 'references', references: [] };
+
+    const content = yield* this.relayTokens(tokens, first);
+    const assessment = await this.assessAnswer(query.question, content, [], FALLBACK_MAX_CONFIDENCE, signal);
+
+    yield {
+      type: 'done',
+      ...assessment,
+      sources: [this.analysisSourceName(), 'General Market Principles'],
+      disclaimer: FALLBACK_DISCLAIMER
+    };
+  }
+
+  // A few sentences on what moved and why, written only from the digest's quotes and headlines
+  async summarizeDigest(digest: WatchlistDigest): Promise<string> {
+    const provider = this.requireProvider();
+    const quotes = digest.quotes.map(quote =>
+      `${quote.symbol}: ${quote.price} ${quote.currency} (${quote.changePercent >= 0 ? '+' : ''}${quote.changePercent.toFixed(2)}%)`);
+    const headlines = digest.headlines.map(headline =>
+      `- ${headline.title} (${headline.source}${headline.symbols.length > 0 ? `; ${headline.symbols.join(', ')}` : ''})`);
+
+    const { content } = await provider.complete([
+      {
+        role: 'system',
+        content: 'You write a two to three sentence overview of a watchlist for an investor\'s home screen. Mention the biggest movers and connect them to the headlines where the headlines support it. Use only the data given, give no advice, and answer in plain text.'
+      },
+      {
+        role: 'user',
+        content: `Watchlist "${digest.name}"\n\nQuotes:\n${quotes.join('\n') || 'None.'}\n\nHeadlines:\n${headlines.join('\n') || 'None.'}`
+      }
+    ], { maxTokens: DIGEST_SUMMARY_MAX_TOKENS, temperature: 0.3 });
+
+    return content.trim();
+  }
+
+  // Forwards provider tokens as stream events and returns the full answer
+  private async *relayTokens(tokens: AsyncIterator<string>, first: IteratorResult<string>): AsyncGenerator<AnalysisStreamEvent, string> {
+    let content = '';
+    for (let next = first; !next.done; next = await tokens.next()) {
+      content += next.value;
+      yield { type: 'token', content: next.value };
+    }
+    return content;
+  }
+
+  // Data service context plus technical indicator facts for symbols named in the question.
+  // Only the indicator facts are converted; the data service's text stays in the base currency.
+  private async gatherMarketContext(question: string, currency: string = BASE_CURRENCY): Promise<string> {
+    const symbols = extractMentionedSymbols(question);
+    const [context, summaries] = await Promise.all([
+      dataService.gatherContextForQuery(question),
+      Promise.all(symbols.map(({ symbol, type }) => this.summarizeSymbol(symbol, type, currency)))
+    ]);
+
+    const facts = summaries.filter((summary): summary is string => summary !== null);
+    if (facts.length === 0) {
+      return context;
+    }
+    return `${context}TECHNICAL INDICATORS (daily, in ${currency}):\n${facts.join('\n')}\n\n`;
+  }
+
+  // Words that look like tickers but resolve to no instrument are skipped
+  private async summarizeSymbol(symbol: string, type: AssetType, currency: string): Promise<string | null> {
+    try {
+      const instrument = await this.symbolResolver.resolve(symbol, type);
+      return instrument ? await this.indicatorService.summarize(instrument, currency) : null;
+    } catch (error: any) {
+      logger.warn(`Could not resolve ${symbol} for indicator context: ${error.message}`);
+      return null;
+    }
+  }
+
+  // Less confidence is allowed without references or with simulated prices in the prompt
+  private confidenceCap(references: Reference[], portfolio: PortfolioContext | null): number {
+    return maxConfidence({
+      marketContext: true,
+      references: references.length,
+      simulated: Boolean(portfolio?.simulated) || references.some(ref => ref.isSimulated)
+    });
+  }
+
+  private async gatherPortfolioContext(query: FinancialQuery): Promise<PortfolioContext | null> {
+    if (!query.holdings?.length) {
+      return null;
+    }
+    return this.portfolioContextService.build(query.question, query.holdings, query.currency || BASE_CURRENCY);
+  }
+
+  // Requests JSON and re-prompts with the validation errors when the output is malformed.
+  // Returns a null value when every attempt failed so callers can fall back to heuristics.
+  // With useTools the first attempt may call live data tools; repairs never do, but keep
+  // the tools declared once tool messages are in the history.
+  private async completeStructured<T>(
+    messages: LLMMessage[],
+    parse: (content: string, toolReferences: Reference[]) => ParseResult<T>,
+    options: LLMRequestOptions = {},
+    useTools: boolean = false
+  ): Promise<{ value: T | null; raw: string; toolReferences: Reference[] }> {
+    const provider = this.requireProvider();
+    const conversation = [...messages];
+    const toolReferences: Reference[] = [];
+    let raw = '';
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const requestOptions: LLMRequestOptions = { ...options, responseFormat: 'json' };
+      const repairOptions: LLMRequestOptions = conversation.some(message => message.role === 'tool')
+        ? { ...requestOptions, tools: this.toolkit.definitions(), toolChoice: 'none' }
+        : requestOptions;
+      ({ content: raw } = attempt === 0 && useTools
+        ? await this.completeWithTools(conversation, requestOptions, toolReferences)
+        : await provider.complete(conversation, repairOptions));
+
+      const result = parse(raw, toolReferences);
+      if (result.valid) {
+        return { value: result.value, raw, toolReferences };
+      }
+
+      logger.warn(`Invalid structured LLM output (attempt ${attempt + 1}): ${result.errors.join('; ')}`);
+      conversation.push(
+        { role: 'assistant', content: raw },
+        {
+          role: 'user',
+          content: `Your previous response was invalid: ${result.errors.join('; ')}. Respond again with only a JSON object matching the required schema.`
+        }
+      );
+    }
+
+    return { value: null, raw, toolReferences };
+  }
+
+  // Runs the tool-call loop, appending tool calls and results to the conversation
+  // and recording each invocation as a reference. Returns the model's final answer.
+  private async completeWithTools(
+    conversation: LLMMessage[],
+    options: LLMRequestOptions,
+    toolReferences: Reference[]
+  ): Promise<LLMCompletion> {
+    const provider = this.requireProvider();
+    if (!provider.config.toolCalling) {
+      return provider.complete(conversation, options);
+    }
+
+    for (let iteration = 0; iteration < MAX_TOOL_ITERATIONS; iteration++) {
+      const completion = await provider.complete(conversation, { ...options, tools: this.toolkit.definitions() });
+      if (!completion.toolCalls?.length) {
+        return completion;
+      }
+
+      const calls = completion.toolCalls.slice(0, MAX_TOOL_CALLS_PER_ITERATION);
+      logger.info(`Model requested tools: ${calls.map(call => call.name).join(', ')}`);
+      conversation.push({ role: 'assistant', content: completion.content, toolCalls: calls });
+
+      const invocations = await Promise.all(calls.map(call => this.toolkit.invoke(call)));
+      invocations.forEach((invocation, i) => {
+        conversation.push({ role: 'tool', toolCallId: calls[i].id, content: invocation.content });
+        toolReferences.push(invocation.reference);
+      });
+    }
+
+    // Iteration budget spent: ask for the final answer without allowing more calls
+    return provider.complete(conversation, { ...options, tools: this.toolkit.definitions(), toolChoice: 'none' });
+  }
+
+  // Structured risk/confidence assessment of an answer that was streamed as prose
+  private async assessAnswer(
+    question: string,
+    answer: string,
+    references: Reference[],
+    maxConfidence: number,
+    signal?: AbortSignal
+  ): Promise<AnalysisAssessment> {
+    const referenceIds = references.map(ref => ref.id);
+    const messages: LLMMessage[] = [
+      {
+        role: 'system',
+        content: `You review financial answers and assess them. Respond with only a JSON object matching this schema:
+${ASSESSMENT_SCHEMA}
+
+Available references:
+${this.formatReferences(references)}`
+      },
+      { role: 'user', content: `Question: ${question}\n\nAnswer: ${answer}` }
+    ];
+
+    try {
+      const { value } = await this.completeStructured<StructuredAssessment>(
+        messages,
+        content => parseStructuredAssessment(content, referenceIds),
+        { temperature: 0, signal }
+      );
+
+      if (value) {
+        return { ...value, confidence: Math.min(value.confidence, maxConfidence), assessmentMethod: 'structured' };
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      logger.error('Error assessing streamed answer:', error);
+    }
+
+    return this.heuristicAssessment(answer, maxConfidence);
+  }
+
+  // Last resort when the model never produced valid structured output
+  private buildHeuristicAnalysis(
+    raw: string,
+    confidence: number,
+    sources: string[],
+    disclaimer: string,
+    references: Reference[]
+  ): FinancialAnalysis {
+    const answer = this.salvageAnswer(raw);
+
+    return {
+      answer,
+      ...this.heuristicAssessment(answer, confidence),
+      sources,
+      disclaimer,
+      references
+    };
+  }
+
+  private heuristicAssessment(answer: string, confidence: number): AnalysisAssessment {
+    logger.warn('Falling back to keyword heuristics for analysis metadata');
+
+    return {
+      confidence,
+      riskLevel: this.extractRiskLevel(answer),
+      riskRationale: 'Risk level estimated from keywords in the answer; the model did not provide a structured assessment.',
+      citedReferenceIds: [],
+      recommendedActions: [],
+      timeHorizon: null,
+      assessmentMethod: 'heuristic'
+    };
+  }
+
+  // Invalid structured output may still carry a usable answer string
+  private salvageAnswer(raw: string): string {
+    try {
+      const data = JSON.parse(raw.slice(raw.indexOf('{'), raw.lastIndexOf('}') + 1));
+      if (typeof data.answer === 'string' && data.answer.trim().length > 0) {
+        return data.answer.trim();
+      }
+    } catch {
+      // Not JSON, use the raw text as the answer
+    }
+    return raw;
+  }
+
+  private formatReferences(references: Reference[]): string {
+    if (references.length === 0) {
+      return 'None.';
+    }
+    return references
+      .map(ref => `- [${ref.id}] ${ref.title || ref.type} (${ref.source}${ref.symbol ? `, ${ref.symbol}` : ''})`)
+      .join('\n');
+  }
+
+  private requireProvider(): LLMProvider {
+    if (!this.provider) {
+      throw new LLMUnavailableError();
+    }
+    return this.provider;
+  }
+
+  private analysisSourceName(): string {
+    const provider = this.requireProvider();
+    return `${provider.name} (${provider.config.model}) Analysis`;
+  }
+
+  private buildMessages(
+    systemPrompt: string,
+    question: string,
+    history: ConversationTurn[],
+    maxCompletionTokens: number
+  ): LLMMessage[] {
+    const budget = this.requireProvider().config.contextWindow - maxCompletionTokens - estimateTokens(systemPrompt) - estimateTokens(question);
+    const turns = truncateHistory(history, Math.max(budget, 0));
+
+    if (turns.length < history.length) {
+      logger.debug(`Truncated conversation history from ${history.length} to ${turns.length} turns`);
+    }
+
+    return [
+      { role: 'system', content: systemPrompt },
+      ...turns.flatMap((turn): LLMMessage[] => [
+        { role: 'user', content: turn.question },
+        { role: 'assistant', content: turn.answer }
+      ]),
+      { role: 'user', content: question }
+    ];
+  }
+
+  private buildSystemPrompt(
+    marketContext: string,
+    references: Reference[],
+    format: 'json' | 'prose',
+    currency: string = BASE_CURRENCY,
+    portfolio: PortfolioContext | null = null
+  ): string {
+    return `You are a financial advisor AI that provides data-backed investment advice using real-time market data.
       
       You have access to current market data, news, economic indicators, and trends. Use this information to provide informed analysis.
       
@@ -35,82 +553,41 @@ class OpenAIService {
       4. Current market conditions and trends
       5. Important disclaimers about financial advice
       
-      Be objective, mention both risks and opportunities, cite specific data points when available, and always remind users that this is not personalized financial advice.
+      Be objective, mention both risks and opportunities, cite specific data points when available, and always remind users that this is not personalized financial advice.${currency !== BASE_CURRENCY ? `
+
+      The user works in ${currency}. Express prices in ${currency}. Only the technical indicator lines below are already converted to ${currency}; other figures in the market context are in ${BASE_CURRENCY}, so label them as ${BASE_CURRENCY} or fetch converted prices with the price tools, which accept a currency argument.` : ''}
       
       Current Market Context:
-      ${marketContext}`;
-
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: query.question }
-        ],
-        temperature: 0.7,
-        max_tokens: 1200,
-      });
+      ${marketContext}${portfolio ? `
+      The user shared their current holdings. Weigh the answer against what they already own, and state every concentration flag below in the answer, with its percentage.
 
-      const content = response.choices[0]?.message?.content || '';
-      
-      // Enhanced risk level extraction
-      const riskLevel = this.extractRiskLevel(content);
-      
-      // Extract data sources mentioned in the response
-      const sources = this.extractSources(content, marketContext);
-      
-      return {
-        answer: content,
-        confidence: 0.85, // Higher confidence with real-time data
-        sources,
-        riskLevel,
-        disclaimer: 'This analysis is based on current market data but is not personalized financial advice. Please consult with a qualified financial advisor before making investment decisions.',
-        references
-      };
-    } catch (error) {
-      logger.error('Error in OpenAI analysis:', error);
-      
-      // Fallback to basic analysis without data service
-      return this.analyzeFinancialQueryFallback(query);
-    }
+      ${portfolio.snapshot}` : ''}
+
+      Available references:
+      ${this.formatReferences(references)}${format === 'json' ? `
+
+      If the question mentions a stock, cryptocurrency or topic the context above does not cover, use the available tools to fetch live quotes or news before answering.${this.jsonInstructions()}` : ''}`;
   }
 
-  private async analyzeFinancialQueryFallback(query: FinancialQuery): Promise<FinancialAnalysis> {
-    try {
-      const systemPrompt = `You are a financial advisor AI that provides general investment guidance. 
+  private buildFallbackSystemPrompt(format: 'json' | 'prose'): string {
+    return `You are a financial advisor AI that provides general investment guidance. 
       Always include:
       1. A clear, actionable answer
       2. Risk assessment (low/medium/high)
       3. General market principles and reasoning
       4. Important disclaimers about financial advice
       
-      Be objective, mention both risks and opportunities, and always remind users that this is not personalized financial advice.`;
-
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: query.question }
-        ],
-        temperature: 0.7,
-        max_tokens: 800,
-      });
+      Be objective, mention both risks and opportunities, and always remind users that this is not personalized financial advice.${format === 'json' ? this.jsonInstructions() : ''}`;
+  }
 
-      const content = response.choices[0]?.message?.content || '';
-      
-      return {
-        answer: content,
-        confidence: 0.7, // Lower confidence without real-time data
-        sources: ['OpenAI GPT-4 Analysis', 'General Market Principles'],
-        riskLevel: this.extractRiskLevel(content),
-        disclaimer: 'This analysis is based on general market principles. For current market conditions, please consult recent financial data. This is not personalized financial advice.',
-        references: []
-      };
-    } catch (error) {
-      logger.error('Error in fallback OpenAI analysis:', error);
-      throw new Error('Failed to analyze financial query');
-    }
+  private jsonInstructions(): string {
+    return `
+
+      Respond with only a JSON object, no markdown, matching this schema:
+      ${ANALYSIS_SCHEMA}`;
   }
 
+  // Keyword heuristic, only used when structured output could not be obtained
   private extractRiskLevel(content: string): 'low' | 'medium' | 'high' {
     const lowRiskKeywords = ['conservative', 'stable', 'low risk', 'safe', 'treasury', 'bonds', 'dividend'];
     const highRiskKeywords = ['volatile', 'high risk', 'speculative', 'risky', 'cryptocurrency', 'startup', 'leverage'];
@@ -127,7 +604,7 @@ class OpenAIService {
   }
 
   private extractSources(content: string, marketContext: string): string[] {
-    const sources = ['OpenAI GPT-4 Analysis'];
+    const sources = [this.analysisSourceName()];
     
     // Add data sources based on market context
     if (marketContext.includes('CRYPTO')) {
@@ -145,6 +622,9 @@ class OpenAIService {
     if (marketContext.includes('TRENDS')) {
       sources.push('Google Trends');
     }
+    if (marketContext.includes('TECHNICAL INDICATORS')) {
+      sources.push('Technical Indicators');
+    }
     
     return sources;
   }
@@ -0,0 +1,205 @@
+import { ConcentrationRisk, Holding, Instrument, PortfolioValuation } from '../types';
+import ValuationService from './valuationService';
+import SymbolResolver from './symbolResolver';
+import FxService from './fxService';
+import { extractMentionedSymbols } from '../utils/instrumentMentions';
+import { extractTradeIntent } from '../utils/tradeIntent';
+import logger from '../utils/logger';
+
+export interface PortfolioContext {
+  snapshot: string;
+  risks: ConcentrationRisk[];
+  // Whether any holding was priced from a simulated quote
+  simulated: boolean;
+}
+
+// A trade the question describes, with the amount in the portfolio currency
+interface ProposedTrade {
+  side: 'buy' | 'sell';
+  instrument: Instrument;
+  amount: number;
+  // As written in the question, for the prompt
+  stated: string;
+}
+
+interface Exposure {
+  scope: ConcentrationRisk['scope'];
+  subject: string;
+  current: number;
+  projected: number;
+}
+
+const DEFAULT_POSITION_LIMIT_PERCENT = 25;
+const DEFAULT_CRYPTO_LIMIT_PERCENT = 20;
+
+const percent = (weight: number): string => `${(weight * 100).toFixed(1)}%`;
+const money = (value: number, currency: string): string =>
+  `${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+
+// Prices the holdings sent with an analysis question and turns them into a prompt
+// snapshot plus concentration flags. When the question names a trade ("buy $1000 in
+// Bitcoin"), weights are also projected as if that trade had been made.
+class PortfolioContextService {
+  private valuationService: ValuationService;
+  private symbolResolver: SymbolResolver;
+  private fxService: FxService;
+  private positionLimit: number;
+  private cryptoLimit: number;
+
+  constructor(
+    valuationService: ValuationService = new ValuationService(),
+    symbolResolver: SymbolResolver = new SymbolResolver(),
+    fxService: FxService = new FxService()
+  ) {
+    this.valuationService = valuationService;
+    this.symbolResolver = symbolResolver;
+    this.fxService = fxService;
+    this.positionLimit = (parseFloat(process.env.PORTFOLIO_POSITION_LIMIT_PERCENT || '') || DEFAULT_POSITION_LIMIT_PERCENT) / 100;
+    this.cryptoLimit = (parseFloat(process.env.PORTFOLIO_CRYPTO_LIMIT_PERCENT || '') || DEFAULT_CRYPTO_LIMIT_PERCENT) / 100;
+  }
+
+  // Resolves to null when nothing could be priced, so the analysis runs without portfolio context
+  async build(question: string, holdings: Holding[], currency: string): Promise<PortfolioContext | null> {
+    try {
+      const [valuation, trade] = await Promise.all([
+        this.valuationService.valueHoldings(holdings, currency),
+        this.findProposedTrade(question, currency)
+      ]);
+
+      if (valuation.holdings.length === 0 && !trade) {
+        logger.warn('None of the submitted holdings could be priced; answering without portfolio context');
+        return null;
+      }
+
+      const risks = this.assessConcentration(valuation, trade);
+      return {
+        snapshot: this.formatSnapshot(valuation, trade, risks),
+        risks,
+        simulated: valuation.holdings.some(holding => holding.isSimulated)
+      };
+    } catch (error) {
+      logger.error('Failed to build portfolio context:', error);
+      return null;
+    }
+  }
+
+  private async findProposedTrade(question: string, currency: string): Promise<ProposedTrade | null> {
+    const intent = extractTradeIntent(question);
+    if (!intent) {
+      return null;
+    }
+
+    // The trade goes into the first mentioned symbol that resolves to an instrument
+    let instrument: Instrument | null = null;
+    for (const { symbol, type } of extractMentionedSymbols(question)) {
+      try {
+        instrument = await this.symbolResolver.resolve(symbol, type);
+      } catch (error: any) {
+        logger.warn(`Could not resolve ${symbol} for the proposed trade: ${error.message}`);
+      }
+      if (instrument) {
+        break;
+      }
+    }
+    if (!instrument) {
+      return null;
+    }
+
+    const fx = await this.fxService.getRate(intent.currency, currency);
+    return {
+      side: intent.side,
+      instrument,
+      amount: Math.round(intent.amount * fx.rate * 100) / 100,
+      stated: `${intent.amount} ${intent.currency}`
+    };
+  }
+
+  // Flags every position above the single-position limit and a crypto share above the
+  // crypto limit, judged on the projected weights when the question describes a trade.
+  private assessConcentration(valuation: PortfolioValuation, trade: ProposedTrade | null): ConcentrationRisk[] {
+    const exposures = new Map<string, Exposure>();
+    const exposure = (scope: Exposure['scope'], subject: string): Exposure => {
+      const key = `${scope}:${subject}`;
+      let entry = exposures.get(key);
+      if (!entry) {
+        entry = { scope, subject, current: 0, projected: 0 };
+        exposures.set(key, entry);
+      }
+      return entry;
+    };
+
+    for (const holding of valuation.holdings) {
+      exposure('position', holding.symbol).current += holding.marketValue;
+      exposure('assetClass', holding.type).current += holding.marketValue;
+    }
+    exposures.forEach(entry => {
+      entry.projected = entry.current;
+    });
+
+    let projectedTotal = valuation.totalValue;
+    if (trade) {
+      const position = exposure('position', trade.instrument.symbol);
+      // Selling more than is held just closes the position
+      const delta = trade.side === 'buy' ? trade.amount : -Math.min(trade.amount, position.current);
+      position.projected += delta;
+      exposure('assetClass', trade.instrument.type).projected += delta;
+      projectedTotal += delta;
+    }
+
+    const weight = (value: number, total: number): number => total > 0 ? Math.round((value / total) * 10000) / 10000 : 0;
+    const risks: ConcentrationRisk[] = [];
+
+    exposures.forEach(entry => {
+      if (entry.scope === 'assetClass' && entry.subject !== 'crypto') {
+        return;
+      }
+      const threshold = entry.scope === 'position' ? this.positionLimit : this.cryptoLimit;
+      const currentWeight = weight(entry.current, valuation.totalValue);
+      const projectedWeight = trade ? weight(entry.projected, projectedTotal) : null;
+      if ((projectedWeight ?? currentWeight) < threshold) {
+        return;
+      }
+
+      const limits = `currently ${percent(currentWeight)}, limit ${percent(threshold)}`;
+      const message = projectedWeight === null || projectedWeight === currentWeight
+        ? `${entry.subject} is ${percent(currentWeight)} of your portfolio (limit ${percent(threshold)})`
+        : projectedWeight > currentWeight
+          ? `This would make ${entry.subject} ${percent(projectedWeight)} of your portfolio (${limits})`
+          : `${entry.subject} would still be ${percent(projectedWeight)} of your portfolio after this trade (${limits})`;
+
+      risks.push({ scope: entry.scope, subject: entry.subject, currentWeight, projectedWeight, threshold, message });
+    });
+
+    return risks;
+  }
+
+  private formatSnapshot(valuation: PortfolioValuation, trade: ProposedTrade | null, risks: ConcentrationRisk[]): string {
+    const { currency } = valuation;
+    const lines = [
+      `USER PORTFOLIO (${currency}):`,
+      `Total value ${money(valuation.totalValue, currency)}, cost ${money(valuation.totalCost, currency)}, ` +
+        `unrealized P&L ${money(valuation.unrealizedPnL, currency)}` +
+        (valuation.unrealizedPnLPercent !== null ? ` (${valuation.unrealizedPnLPercent}%)` : ''),
+      `Allocation: stock ${percent(valuation.allocation.stock.weight)}, crypto ${percent(valuation.allocation.crypto.weight)}`,
+      ...valuation.holdings.map(holding =>
+        `- ${holding.symbol} (${holding.type}): ${holding.quantity} @ ${money(holding.price, currency)} = ` +
+        `${money(holding.marketValue, currency)}, ${percent(holding.weight)} of portfolio, ` +
+        `P&L ${money(holding.unrealizedPnL, currency)}${holding.isSimulated ? ' [simulated price]' : ''}`)
+    ];
+
+    const unpriced = Object.entries(valuation.errors);
+    if (unpriced.length > 0) {
+      lines.push(`Could not be priced: ${unpriced.map(([symbol, error]) => `${symbol} (${error})`).join(', ')}`);
+    }
+    if (trade) {
+      lines.push(`Proposed trade: ${trade.side} ${trade.stated} of ${trade.instrument.symbol} (${money(trade.amount, currency)})`);
+    }
+    lines.push(risks.length > 0
+      ? `CONCENTRATION FLAGS:\n${risks.map(risk => `- ${risk.message}`).join('\n')}`
+      : 'No concentration limits are exceeded.');
+
+    return `${lines.join('\n')}\n`;
+  }
+}
+
+export default PortfolioContextService;
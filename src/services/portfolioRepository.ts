@@ -0,0 +1,21 @@
+import { Portfolio } from '../types';
+import { JsonDocumentStore, createJsonDocumentStore } from './jsonDocumentStore';
+
+export type PortfolioRepository = JsonDocumentStore<Portfolio>;
+
+const revivePortfolio = (data: any): Portfolio => ({
+  ...data,
+  createdAt: new Date(data.createdAt),
+  updatedAt: new Date(data.updatedAt),
+  positions: data.positions.map((position: any) => ({
+    ...position,
+    acquiredAt: new Date(position.acquiredAt)
+  }))
+});
+
+export const createPortfolioRepository = (): PortfolioRepository => createJsonDocumentStore({
+  label: 'portfolio repository',
+  envPrefix: 'PORTFOLIO',
+  defaultDirectory: 'data/portfolios',
+  revive: revivePortfolio
+});
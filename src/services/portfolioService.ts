@@ -0,0 +1,152 @@
+import { randomUUID } from 'crypto';
+import { Holding, Portfolio, PortfolioValuation, Position } from '../types';
+import SymbolResolver from './symbolResolver';
+import ValuationService from './valuationService';
+import { BASE_CURRENCY } from './fx';
+import { UnknownSymbolError } from './symbols';
+import { PortfolioRepository, createPortfolioRepository } from './portfolioRepository';
+import { KeyedMutex } from '../utils/keyedMutex';
+
+export interface PortfolioInput {
+  name: string;
+  currency?: string;
+  userId?: string;
+}
+
+export type PositionInput = Holding & { acquiredAt?: Date };
+
+export type PositionChanges = Partial<Pick<Position, 'quantity' | 'costBasis' | 'acquiredAt'>>;
+
+class PortfolioService {
+  private repository: PortfolioRepository;
+  private symbolResolver: SymbolResolver;
+  private valuationService: ValuationService;
+  // Changes to one portfolio are applied in order, so concurrent position edits aren't lost on save
+  private locks = new KeyedMutex();
+
+  constructor(
+    repository: PortfolioRepository = createPortfolioRepository(),
+    symbolResolver: SymbolResolver = new SymbolResolver(),
+    valuationService: ValuationService = new ValuationService()
+  ) {
+    this.repository = repository;
+    this.symbolResolver = symbolResolver;
+    this.valuationService = valuationService;
+  }
+
+  async createPortfolio(input: PortfolioInput): Promise<Portfolio> {
+    const now = new Date();
+    const portfolio: Portfolio = {
+      id: randomUUID(),
+      userId: input.userId,
+      name: input.name,
+      currency: input.currency || BASE_CURRENCY,
+      positions: [],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.repository.save(portfolio);
+    return portfolio;
+  }
+
+  async listPortfolios(userId?: string): Promise<Portfolio[]> {
+    return this.repository.list(userId);
+  }
+
+  // With an owner, portfolios of other users are treated as missing
+  async getPortfolio(id: string, owner?: string): Promise<Portfolio | null> {
+    const portfolio = await this.repository.get(id);
+    return portfolio && (owner === undefined || portfolio.userId === owner) ? portfolio : null;
+  }
+
+  async renamePortfolio(id: string, name: string, owner?: string): Promise<Portfolio | null> {
+    return this.update(id, owner, portfolio => {
+      portfolio.name = name;
+      return portfolio;
+    });
+  }
+
+  async deletePortfolio(id: string, owner?: string): Promise<boolean> {
+    return await this.getPortfolio(id, owner) !== null && this.locks.run(id, () => this.repository.delete(id));
+  }
+
+  // The symbol is stored as the resolved ticker, so "bitcoin" and "BTC" become the same holding
+  // The symbol is looked up before taking the lock, so a slow lookup doesn't hold up other changes
+  async addPosition(id: string, input: PositionInput, owner?: string): Promise<Position | null> {
+    if (!await this.getPortfolio(id, owner)) {
+      return null;
+    }
+
+    const instrument = await this.symbolResolver.resolve(input.symbol, input.type);
+    if (!instrument) {
+      throw new UnknownSymbolError(input.symbol);
+    }
+
+    return this.update(id, owner, portfolio => {
+      const position: Position = {
+        id: randomUUID(),
+        symbol: instrument.symbol,
+        type: instrument.type,
+        quantity: input.quantity,
+        costBasis: input.costBasis,
+        acquiredAt: input.acquiredAt || new Date()
+      };
+      portfolio.positions.push(position);
+      return position;
+    });
+  }
+
+  // Resolves to null when either the portfolio or the position does not exist
+  async updatePosition(id: string, positionId: string, changes: PositionChanges, owner?: string): Promise<Position | null> {
+    return this.update(id, owner, portfolio => {
+      const position = portfolio.positions.find(p => p.id === positionId);
+      if (!position) {
+        return null;
+      }
+      Object.assign(position, changes);
+      return position;
+    });
+  }
+
+  async removePosition(id: string, positionId: string, owner?: string): Promise<boolean> {
+    const removed = await this.update(id, owner, portfolio => {
+      if (!portfolio.positions.some(p => p.id === positionId)) {
+        return null;
+      }
+      portfolio.positions = portfolio.positions.filter(p => p.id !== positionId);
+      return true;
+    });
+    return removed === true;
+  }
+
+  async valuePortfolio(id: string, owner?: string): Promise<PortfolioValuation | null> {
+    const portfolio = await this.getPortfolio(id, owner);
+    if (!portfolio) {
+      return null;
+    }
+
+    const valuation = await this.valuationService.valueHoldings(portfolio.positions, portfolio.currency);
+    return { portfolioId: portfolio.id, ...valuation };
+  }
+
+  // Loads one portfolio under its lock and saves it when mutate returns a result; null
+  // when the portfolio does not exist or mutate found nothing to change
+  private async update<T>(id: string, owner: string | undefined, mutate: (portfolio: Portfolio) => T | null): Promise<T | null> {
+    return this.locks.run(id, async () => {
+      const portfolio = await this.getPortfolio(id, owner);
+      if (!portfolio) {
+        return null;
+      }
+
+      const result = mutate(portfolio);
+      if (result !== null) {
+        portfolio.updatedAt = new Date();
+        await this.repository.save(portfolio);
+      }
+      return result;
+    });
+  }
+}
+
+export default PortfolioService;
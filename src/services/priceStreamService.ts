@@ -0,0 +1,151 @@
+import { Instrument, MarketData } from '../types';
+import MarketDataService from './marketDataService';
+import logger from '../utils/logger';
+
+export type PriceListener = (update: { quote: MarketData } | { error: string }) => void;
+
+interface Subscription {
+  instrument: Instrument;
+  listeners: Set<PriceListener>;
+  lastQuote: MarketData | null;
+  lastError: string | null;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+// Every socket subscription to the same symbol shares one entry here, and each poll
+// asks MarketDataService for the distinct symbols once. Quotes still go through the
+// quote cache, so upstream traffic is bounded by its TTL no matter how many clients listen.
+class PriceStreamService {
+  private subscriptions = new Map<string, Subscription>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private pollIntervalMs: number;
+
+  constructor(private marketDataService = new MarketDataService()) {
+    this.pollIntervalMs = parseInt(process.env.PRICE_STREAM_POLL_INTERVAL_MS || '', 10) || DEFAULT_POLL_INTERVAL_MS;
+  }
+
+  static key(instrument: Instrument): string {
+    return `${instrument.type}:${instrument.symbol}`;
+  }
+
+  // Returns the function that removes the listener again
+  subscribe(instrument: Instrument, listener: PriceListener): () => void {
+    const key = PriceStreamService.key(instrument);
+    let subscription = this.subscriptions.get(key);
+    if (!subscription) {
+      subscription = { instrument, listeners: new Set(), lastQuote: null, lastError: null };
+      this.subscriptions.set(key, subscription);
+    }
+    subscription.listeners.add(listener);
+
+    // New listeners get the last known price right away, or trigger a fetch for a new symbol
+    if (subscription.lastQuote) {
+      listener({ quote: subscription.lastQuote });
+    } else if (subscription.lastError) {
+      listener({ error: subscription.lastError });
+    } else if (subscription.listeners.size === 1) {
+      void this.refresh([subscription]);
+    }
+
+    this.start();
+    return () => this.unsubscribe(key, listener);
+  }
+
+  getStats(): { symbols: number; listeners: number } {
+    let listeners = 0;
+    this.subscriptions.forEach(subscription => {
+      listeners += subscription.listeners.size;
+    });
+    return { symbols: this.subscriptions.size, listeners };
+  }
+
+  private unsubscribe(key: string, listener: PriceListener): void {
+    const subscription = this.subscriptions.get(key);
+    if (!subscription) {
+      return;
+    }
+
+    subscription.listeners.delete(listener);
+    if (subscription.listeners.size === 0) {
+      this.subscriptions.delete(key);
+    }
+    if (this.subscriptions.size === 0) {
+      this.stop();
+    }
+  }
+
+  private start(): void {
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), this.pollIntervalMs);
+    }
+  }
+
+  private stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    // A slow upstream must not stack polls on top of each other
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      await this.refresh(Array.from(this.subscriptions.values()));
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // All lookups start in the same tick so MarketDataService batches them per asset type
+  private async refresh(subscriptions: Subscription[]): Promise<void> {
+    await Promise.all(subscriptions.map(async subscription => {
+      try {
+        const quote = await this.marketDataService.getQuote(subscription.instrument);
+
+        if (!quote) {
+          this.publishError(subscription, `No market data found for symbol: ${subscription.instrument.symbol}`);
+          return;
+        }
+
+        const previous = subscription.lastQuote;
+        if (previous && previous.price === quote.price && previous.timestamp.getTime() === quote.timestamp.getTime()) {
+          return;
+        }
+
+        subscription.lastQuote = quote;
+        subscription.lastError = null;
+        this.publish(subscription, { quote });
+      } catch (error: any) {
+        logger.warn(`Price stream refresh failed for ${subscription.instrument.symbol}: ${error.message}`);
+        this.publishError(subscription, error.message);
+      }
+    }));
+  }
+
+  // The same failure is reported once, not on every poll
+  private publishError(subscription: Subscription, error: string): void {
+    if (subscription.lastError !== error) {
+      subscription.lastError = error;
+      this.publish(subscription, { error });
+    }
+  }
+
+  private publish(subscription: Subscription, update: Parameters<PriceListener>[0]): void {
+    subscription.listeners.forEach(listener => {
+      try {
+        listener(update);
+      } catch (error) {
+        logger.error('Price stream listener failed:', error);
+      }
+    });
+  }
+}
+
+export default PriceStreamService;
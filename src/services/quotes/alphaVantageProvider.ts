@@ -0,0 +1,74 @@
+import axios from 'axios';
+import { AssetType, MarketData } from '../../types';
+import { PartialQuoteError, QuoteProvider } from './quoteProvider';
+
+class AlphaVantageQuoteProvider implements QuoteProvider {
+  readonly name = 'Alpha Vantage';
+  readonly simulated = false;
+  private apiKey: string;
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+  }
+
+  supports(type: AssetType): boolean {
+    return type === 'stock';
+  }
+
+  async getQuotes(type: AssetType, symbols: string[]): Promise<Map<string, MarketData>> {
+    const quotes = new Map<string, MarketData>();
+
+    // The free tier allows 5 calls/minute, so query sequentially and stop at the first error
+    for (const [i, symbol] of symbols.entries()) {
+      try {
+        const quote = await this.getQuote(symbol);
+        if (quote) {
+          quotes.set(symbol, quote);
+        }
+      } catch (error: any) {
+        if (i === 0) {
+          throw error;
+        }
+        // The symbols not queried yet failed along with this one
+        throw new PartialQuoteError(quotes, symbols.slice(i), error.message);
+      }
+    }
+
+    return quotes;
+  }
+
+  private async getQuote(symbol: string): Promise<MarketData | null> {
+    const response = await axios.get('https://www.alphavantage.co/query', {
+      params: {
+        function: 'GLOBAL_QUOTE',
+        symbol: symbol.toUpperCase(),
+        apikey: this.apiKey
+      },
+      timeout: 10000
+    });
+
+    // Rate limiting and key problems come back as 200s with a Note/Information message
+    const notice = response.data?.Note || response.data?.Information || response.data?.['Error Message'];
+    if (notice) {
+      throw new Error(notice);
+    }
+
+    const quote = response.data?.['Global Quote'];
+    if (!quote || !quote['05. price']) {
+      return null;
+    }
+
+    return {
+      symbol: symbol.toUpperCase(),
+      price: Number(parseFloat(quote['05. price']).toFixed(2)),
+      change: Number(parseFloat(quote['09. change']).toFixed(2)),
+      changePercent: Number(parseFloat(quote['10. change percent']).toFixed(2)),
+      timestamp: new Date(),
+      currency: 'USD',
+      provider: this.name,
+      isSimulated: false
+    };
+  }
+}
+
+export default AlphaVantageQuoteProvider;
@@ -0,0 +1,57 @@
+import axios from 'axios';
+import { AssetType, MarketData } from '../../types';
+import { QuoteProvider } from './quoteProvider';
+import logger from '../../utils/logger';
+
+class CoinGeckoQuoteProvider implements QuoteProvider {
+  readonly name = 'CoinGecko';
+  readonly simulated = false;
+
+  supports(type: AssetType): boolean {
+    return type === 'crypto';
+  }
+
+  async getQuotes(type: AssetType, symbols: string[]): Promise<Map<string, MarketData>> {
+    const quotes = new Map<string, MarketData>();
+
+    try {
+      const response = await axios.get(`https://api.coingecko.com/api/v3/simple/price`, {
+        params: {
+          ids: symbols.map(symbol => symbol.toLowerCase()).join(','),
+          vs_currencies: 'usd',
+          include_24hr_change: true
+        },
+        timeout: 10000 // 10 second timeout
+      });
+
+      for (const symbol of symbols) {
+        const data = response.data[symbol.toLowerCase()];
+        if (!data) {
+          logger.warn(`No cryptocurrency data found for: ${symbol}`);
+          continue;
+        }
+
+        quotes.set(symbol, {
+          symbol: symbol.toUpperCase(),
+          price: data.usd,
+          change: 0, // CoinGecko doesn't provide absolute change
+          changePercent: data.usd_24h_change || 0,
+          timestamp: new Date(),
+          currency: 'USD',
+          provider: this.name,
+          isSimulated: false
+        });
+      }
+
+      return quotes;
+    } catch (error: any) {
+      if (error.response?.status === 429) {
+        const retryAfter = error.response.headers['retry-after'] || 60;
+        logger.warn(`Rate limited by CoinGecko API. Rate limit will reset in ${retryAfter} seconds`);
+      }
+      throw error;
+    }
+  }
+}
+
+export default CoinGeckoQuoteProvider;
@@ -0,0 +1,77 @@
+import axios from 'axios';
+import { AssetType, MarketData } from '../../types';
+import { PartialQuoteError, QuoteProvider } from './quoteProvider';
+import logger from '../../utils/logger';
+
+class FinnhubQuoteProvider implements QuoteProvider {
+  readonly name = 'Finnhub';
+  readonly simulated = false;
+  private baseUrl = 'https://finnhub.io/api/v1';
+  private apiKey: string;
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+  }
+
+  supports(type: AssetType): boolean {
+    return type === 'stock';
+  }
+
+  async getQuotes(type: AssetType, symbols: string[]): Promise<Map<string, MarketData>> {
+    const quotes = new Map<string, MarketData>();
+    // Finnhub has no batch quote endpoint, so fan out one request per symbol
+    const results = await Promise.allSettled(symbols.map(symbol => this.getQuote(symbol)));
+
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled' && result.value) {
+        quotes.set(symbols[i], result.value);
+      }
+    });
+
+    const failedSymbols = symbols.filter((_, i) => results[i].status === 'rejected');
+    if (failedSymbols.length === 0) {
+      return quotes;
+    }
+    const reason = (results.find(result => result.status === 'rejected') as PromiseRejectedResult).reason;
+    if (failedSymbols.length === symbols.length) {
+      throw reason;
+    }
+    throw new PartialQuoteError(quotes, failedSymbols, reason.message);
+  }
+
+  private async getQuote(symbol: string): Promise<MarketData | null> {
+    // Use Finnhub's free tier - 60 calls/minute
+    const quoteResponse = await axios.get(`${this.baseUrl}/quote`, {
+      params: {
+        symbol: symbol.toUpperCase(),
+        token: this.apiKey || 'demo' // demo token for testing
+      },
+      timeout: 10000
+    });
+
+    const quote = quoteResponse.data;
+
+    if (!quote || quote.c === 0) {
+      logger.warn(`No data found for symbol: ${symbol}`);
+      return null;
+    }
+
+    const currentPrice = quote.c; // current price
+    const previousClose = quote.pc; // previous close
+    const change = currentPrice - previousClose;
+    const changePercent = (change / previousClose) * 100;
+
+    return {
+      symbol: symbol.toUpperCase(),
+      price: Number(currentPrice.toFixed(2)),
+      change: Number(change.toFixed(2)),
+      changePercent: Number(changePercent.toFixed(2)),
+      timestamp: new Date(),
+      currency: 'USD',
+      provider: this.name,
+      isSimulated: false
+    };
+  }
+}
+
+export default FinnhubQuoteProvider;
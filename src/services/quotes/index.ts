@@ -0,0 +1,54 @@
+import FinnhubQuoteProvider from './finnhubProvider';
+import AlphaVantageQuoteProvider from './alphaVantageProvider';
+import CoinGeckoQuoteProvider from './coinGeckoProvider';
+import MockQuoteProvider from './mockProvider';
+import { QuoteProvider } from './quoteProvider';
+import logger from '../../utils/logger';
+
+export * from './quoteProvider';
+export { getMockQuote } from './mockProvider';
+
+const DEFAULT_CHAIN = 'finnhub,alphavantage,coingecko,mock';
+
+// Simulated prices are opt-out in development and opt-in in production
+export const isSimulatedDataAllowed = (): boolean => {
+  if (process.env.ALLOW_SIMULATED_MARKET_DATA !== undefined) {
+    return process.env.ALLOW_SIMULATED_MARKET_DATA === 'true';
+  }
+  return process.env.NODE_ENV !== 'production';
+};
+
+// Builds the failover chain in QUOTE_PROVIDERS order. Providers missing their
+// API key are skipped, and the mock provider only joins when simulation is allowed.
+export const createQuoteProviders = (): QuoteProvider[] => {
+  const names = (process.env.QUOTE_PROVIDERS || DEFAULT_CHAIN).split(',').map(name => name.trim().toLowerCase());
+  const providers: QuoteProvider[] = [];
+
+  for (const name of names) {
+    switch (name) {
+      case 'finnhub':
+        if (!process.env.FINNHUB_API_KEY) {
+          logger.warn('FINNHUB_API_KEY not set. Using free tier with rate limits.');
+        }
+        providers.push(new FinnhubQuoteProvider(process.env.FINNHUB_API_KEY || ''));
+        break;
+      case 'alphavantage':
+        if (process.env.ALPHA_VANTAGE_API_KEY) {
+          providers.push(new AlphaVantageQuoteProvider(process.env.ALPHA_VANTAGE_API_KEY));
+        }
+        break;
+      case 'coingecko':
+        providers.push(new CoinGeckoQuoteProvider());
+        break;
+      case 'mock':
+        if (isSimulatedDataAllowed()) {
+          providers.push(new MockQuoteProvider());
+        }
+        break;
+      default:
+        logger.warn(`Unknown quote provider "${name}"`);
+    }
+  }
+
+  return providers;
+};
@@ -0,0 +1,63 @@
+import { AssetType, MarketData } from '../../types';
+import { QuoteProvider } from './quoteProvider';
+import { createSeededRandom, hashString } from '../../utils/seededRandom';
+
+type MockPrice = { price: number; change: number; changePercent: number };
+
+// Mock data for common stocks for development/demo
+const MOCK_STOCK_PRICES: { [key: string]: MockPrice } = {
+  'AAPL': { price: 192.53, change: 2.41, changePercent: 1.27 },
+  'GOOGL': { price: 174.29, change: -1.22, changePercent: -0.69 },
+  'MSFT': { price: 417.32, change: 5.18, changePercent: 1.26 },
+  'TSLA': { price: 248.50, change: -3.21, changePercent: -1.27 },
+  'AMZN': { price: 186.43, change: 1.85, changePercent: 1.00 },
+  'META': { price: 504.20, change: 8.15, changePercent: 1.64 },
+  'NVDA': { price: 126.09, change: 2.53, changePercent: 2.05 }
+};
+
+// Mock data for common cryptocurrencies for development/demo
+const MOCK_CRYPTO_PRICES: { [key: string]: MockPrice } = {
+  'bitcoin': { price: 67245.32, change: 1245.67, changePercent: 1.89 },
+  'ethereum': { price: 3421.56, change: -85.43, changePercent: -2.44 },
+  'polkadot': { price: 6.78, change: 0.23, changePercent: 3.51 },
+  'cardano': { price: 0.47, change: -0.02, changePercent: -4.08 },
+  'solana': { price: 157.89, change: 5.67, changePercent: 3.72 },
+  'chainlink': { price: 14.56, change: 0.89, changePercent: 6.51 },
+  'matic-network': { price: 0.85, change: -0.03, changePercent: -3.41 }
+};
+
+export const getMockQuote = (type: AssetType, symbol: string): MarketData => {
+  const key = type === 'crypto' ? symbol.toLowerCase() : symbol.toUpperCase();
+
+  // Unknown symbols get seeded values so repeated requests (and mock history) stay stable
+  const random = createSeededRandom(hashString(`${type}:${key}`));
+  const data = (type === 'crypto' ? MOCK_CRYPTO_PRICES : MOCK_STOCK_PRICES)[key] || (type === 'crypto'
+    ? { price: 1 + random() * 100, change: (random() - 0.5) * 10, changePercent: (random() - 0.5) * 10 }
+    : { price: 100 + random() * 200, change: (random() - 0.5) * 10, changePercent: (random() - 0.5) * 5 });
+
+  return {
+    symbol: symbol.toUpperCase(),
+    price: Number(data.price.toFixed(2)),
+    change: Number(data.change.toFixed(2)),
+    changePercent: Number(data.changePercent.toFixed(2)),
+    timestamp: new Date(),
+    currency: 'USD',
+    provider: 'Simulated',
+    isSimulated: true
+  };
+};
+
+class MockQuoteProvider implements QuoteProvider {
+  readonly name = 'Simulated';
+  readonly simulated = true;
+
+  supports(): boolean {
+    return true;
+  }
+
+  async getQuotes(type: AssetType, symbols: string[]): Promise<Map<string, MarketData>> {
+    return new Map(symbols.map(symbol => [symbol, getMockQuote(type, symbol)]));
+  }
+}
+
+export default MockQuoteProvider;
@@ -0,0 +1,41 @@
+import { AssetType, MarketData } from '../../types';
+
+export interface ProviderFailure {
+  provider: string;
+  error: string;
+}
+
+export interface QuoteProvider {
+  readonly name: string;
+  // Simulated providers are skipped when mock data is disabled
+  readonly simulated: boolean;
+  supports(type: AssetType): boolean;
+  // Returns quotes keyed by the requested symbol. Symbols the provider doesn't know
+  // are left out; upstream failures throw so the chain can record them, and a failure
+  // for only some symbols throws PartialQuoteError with the quotes that did arrive.
+  getQuotes(type: AssetType, symbols: string[]): Promise<Map<string, MarketData>>;
+}
+
+export class QuoteUnavailableError extends Error {
+  failures: ProviderFailure[];
+
+  constructor(symbol: string, failures: ProviderFailure[]) {
+    super(`No quote provider could price ${symbol}`);
+    this.name = 'QuoteUnavailableError';
+    this.failures = failures;
+  }
+}
+
+// Some symbols were priced and others failed upstream. The failed ones must not be
+// mistaken for symbols the provider doesn't know.
+export class PartialQuoteError extends Error {
+  quotes: Map<string, MarketData>;
+  failedSymbols: string[];
+
+  constructor(quotes: Map<string, MarketData>, failedSymbols: string[], reason: string) {
+    super(reason);
+    this.name = 'PartialQuoteError';
+    this.quotes = quotes;
+    this.failedSymbols = failedSymbols;
+  }
+}
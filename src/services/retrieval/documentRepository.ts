@@ -0,0 +1,68 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { VectorData } from './retrievalBackend';
+import logger from '../../utils/logger';
+
+// The embedded store's documents; vectors are rebuilt from them on load
+export interface DocumentRepository {
+  load(): Promise<VectorData[]>;
+  // Replaces everything stored
+  save(documents: VectorData[]): Promise<void>;
+}
+
+export class InMemoryDocumentRepository implements DocumentRepository {
+  private documents: VectorData[] = [];
+
+  async load(): Promise<VectorData[]> {
+    return this.documents.map(document => ({ ...document }));
+  }
+
+  async save(documents: VectorData[]): Promise<void> {
+    this.documents = documents.map(document => ({ ...document }));
+  }
+}
+
+// Keeps all documents in one JSON file. Writes from this process are serialized;
+// several instances must not share a file.
+export class FileDocumentRepository implements DocumentRepository {
+  private filePath: string;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<VectorData[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  save(documents: VectorData[]): Promise<void> {
+    const write = this.writes.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+      // Write to a temp file first so a crash never leaves a truncated store
+      const tmp = `${this.filePath}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(documents), 'utf8');
+      await fs.rename(tmp, this.filePath);
+    });
+    // A failed write is reported to its caller without blocking the ones queued after it
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+}
+
+export const createDocumentRepository = (): DocumentRepository => {
+  if (process.env.RETRIEVAL_STORE === 'memory') {
+    return new InMemoryDocumentRepository();
+  }
+  const filePath = process.env.RETRIEVAL_STORE_FILE || 'data/retrieval/documents.json';
+  logger.info(`Using file retrieval store at ${filePath}`);
+  return new FileDocumentRepository(filePath);
+};
@@ -0,0 +1,247 @@
+import { DataServiceHealth, Reference } from '../../types';
+import { QueryRequest, QueryResponse, RetrievalBackend, RetrievalStats, VectorData } from './retrievalBackend';
+import { DocumentRepository, createDocumentRepository } from './documentRepository';
+import { Ingester } from './ingesters';
+import TfIdfIndex from './tfidfIndex';
+import logger from '../../utils/logger';
+
+export interface EmbeddedRetrievalOptions {
+  retentionDays: number;
+  maxDocuments: number;
+  // 0 only ingests on triggerIngestion
+  ingestIntervalMs: number;
+  // Below this cosine similarity a document is not a match, unless it was selected by symbol
+  minSimilarity: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_LIMIT = 10;
+
+const envNumber = (name: string, fallback: number): number => {
+  const value = parseFloat(process.env[name] ?? '');
+  return Number.isNaN(value) || value < 0 ? fallback : value;
+};
+
+const loadOptions = (): EmbeddedRetrievalOptions => ({
+  retentionDays: envNumber('RETRIEVAL_RETENTION_DAYS', 30),
+  maxDocuments: envNumber('RETRIEVAL_MAX_DOCUMENTS', 5000),
+  ingestIntervalMs: envNumber('RETRIEVAL_INGEST_INTERVAL_MS', 15 * 60 * 1000),
+  minSimilarity: 0.05
+});
+
+const symbolsOf = (document: VectorData): string[] =>
+  [document.metadata.symbol, ...(Array.isArray(document.metadata.symbols) ? document.metadata.symbols : [])]
+    .filter((symbol): symbol is string => typeof symbol === 'string')
+    .map(symbol => symbol.toUpperCase());
+
+const timeOf = (document: VectorData): number => new Date(document.metadata.timestamp).getTime();
+
+const newestFirst = (a: VectorData, b: VectorData): number => timeOf(b) - timeOf(a);
+
+const toReference = (document: VectorData): Reference => ({
+  id: document.id,
+  source: document.metadata.source,
+  type: document.metadata.type,
+  timestamp: new Date(document.metadata.timestamp),
+  url: document.metadata.url,
+  title: document.metadata.title,
+  symbol: document.metadata.symbol
+});
+
+// In-process retrieval over TF-IDF vectors, so analysis has context without the external
+// data service. Documents come from the ingesters (news feeds and market snapshots by
+// default), are kept for RETRIEVAL_RETENTION_DAYS and persisted through the repository.
+class EmbeddedRetrievalBackend implements RetrievalBackend {
+  readonly name = 'embedded';
+  private repository: DocumentRepository;
+  private ingesters: Record<string, Ingester>;
+  private options: EmbeddedRetrievalOptions;
+  private documents = new Map<string, VectorData>();
+  private index = new TfIdfIndex();
+  private loading: Promise<void> | null = null;
+  // Ingestion runs are chained so overlapping triggers don't fetch the same data twice
+  private ingestion: Promise<void> = Promise.resolve();
+  private lastIngestedAt: Date | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    repository: DocumentRepository = createDocumentRepository(),
+    ingesters: Record<string, Ingester> = {},
+    options: EmbeddedRetrievalOptions = loadOptions()
+  ) {
+    this.repository = repository;
+    this.ingesters = ingesters;
+    this.options = options;
+  }
+
+  start(): void {
+    if (this.timer || this.options.ingestIntervalMs <= 0 || Object.keys(this.ingesters).length === 0) {
+      return;
+    }
+    const ingest = () => this.triggerIngestion('all').catch(error => logger.error('Retrieval ingestion failed:', error));
+    void ingest();
+    this.timer = setInterval(() => void ingest(), this.options.ingestIntervalMs);
+    this.timer.unref();
+    logger.info(`Ingesting retrieval documents every ${this.options.ingestIntervalMs}ms`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  // Adds documents, replacing those with the same id, and persists the store
+  async add(documents: VectorData[]): Promise<void> {
+    await this.load();
+    documents.forEach(document => this.indexDocument(document));
+    this.prune();
+    await this.repository.save(Array.from(this.documents.values()));
+  }
+
+  async query(request: QueryRequest): Promise<QueryResponse> {
+    const startedAt = Date.now();
+    await this.load();
+
+    const symbols = request.symbols?.map(symbol => symbol.toUpperCase());
+    const similarities = this.index.similarities(request.query);
+    const matches = this.filter(request.type, symbols, request.timeRange)
+      .map(document => ({ document, similarity: similarities.get(document.id) ?? 0 }))
+      .filter(match => match.similarity >= this.options.minSimilarity || (symbols && symbols.length > 0))
+      .sort((a, b) => b.similarity - a.similarity || newestFirst(a.document, b.document));
+
+    const results = matches
+      .slice(0, request.limit ?? DEFAULT_LIMIT)
+      .map(({ document, similarity }) => ({ ...document, distance: Math.round((1 - similarity) * 10000) / 10000 }));
+
+    return {
+      results,
+      total: matches.length,
+      query: request.query,
+      processingTime: Date.now() - startedAt,
+      references: results.map(toReference)
+    };
+  }
+
+  async getRecentData(type?: string, limit: number = DEFAULT_LIMIT): Promise<VectorData[]> {
+    await this.load();
+    return this.filter(type ? [type] : undefined).sort(newestFirst).slice(0, limit);
+  }
+
+  async searchBySymbol(symbol: string, type?: string, limit: number = DEFAULT_LIMIT): Promise<VectorData[]> {
+    await this.load();
+    return this.filter(type ? [type] : undefined, [symbol.toUpperCase()]).sort(newestFirst).slice(0, limit);
+  }
+
+  async getStats(): Promise<RetrievalStats> {
+    await this.load();
+    const byType: Record<string, number> = {};
+    for (const document of this.documents.values()) {
+      byType[document.metadata.type] = (byType[document.metadata.type] ?? 0) + 1;
+    }
+    return {
+      backend: this.name,
+      documents: this.documents.size,
+      terms: this.index.vocabularySize,
+      byType,
+      lastIngestedAt: this.lastIngestedAt
+    };
+  }
+
+  // `all` runs every ingester; otherwise the ingester of that name. A failing ingester
+  // is logged and doesn't stop the others.
+  async triggerIngestion(type: string): Promise<void> {
+    const names = type === 'all' ? Object.keys(this.ingesters) : [type];
+    if (names.some(name => !this.ingesters[name])) {
+      throw new Error(`Unknown ingestion type "${type}"; expected all or one of ${Object.keys(this.ingesters).join(', ')}`);
+    }
+
+    const run = this.ingestion.then(async () => {
+      const batches = await Promise.all(names.map(name => this.ingesters[name]().catch(error => {
+        logger.warn(`Retrieval ${name} ingestion failed: ${error.message}`);
+        return [] as VectorData[];
+      })));
+      const documents = batches.flat();
+      await this.add(documents);
+      this.lastIngestedAt = new Date();
+      logger.info(`Ingested ${documents.length} retrieval documents (${names.join(', ')}); ${this.documents.size} stored`);
+    });
+    this.ingestion = run.catch(() => undefined);
+    return run;
+  }
+
+  async getHealth(): Promise<DataServiceHealth> {
+    const startedAt = Date.now();
+    let status: DataServiceHealth['status'] = 'healthy';
+    try {
+      await this.load();
+    } catch {
+      status = 'unhealthy';
+    }
+    return {
+      backend: 'embedded',
+      status,
+      url: null,
+      checkedAt: new Date(),
+      latencyMs: Date.now() - startedAt,
+      circuit: null,
+      documents: this.documents.size,
+      lastIngestedAt: this.lastIngestedAt
+    };
+  }
+
+  private filter(types?: string[], symbols?: string[], timeRange?: QueryRequest['timeRange']): VectorData[] {
+    const start = timeRange ? new Date(timeRange.start).getTime() : -Infinity;
+    const end = timeRange ? new Date(timeRange.end).getTime() : Infinity;
+    return Array.from(this.documents.values()).filter(document =>
+      (!types || types.length === 0 || types.includes(document.metadata.type))
+      && (!symbols || symbols.length === 0 || symbolsOf(document).some(symbol => symbols.includes(symbol)))
+      && timeOf(document) >= start && timeOf(document) <= end);
+  }
+
+  // Symbols are indexed with the text so "AAPL" finds news that only names Apple
+  private indexDocument(document: VectorData): void {
+    this.documents.set(document.id, document);
+    this.index.set(document.id, `${document.content} ${symbolsOf(document).join(' ')}`);
+  }
+
+  // Drops documents past the retention window, then the oldest beyond maxDocuments
+  private prune(): void {
+    const cutoff = Date.now() - this.options.retentionDays * DAY_MS;
+    const kept = Array.from(this.documents.values())
+      .filter(document => timeOf(document) >= cutoff)
+      .sort(newestFirst)
+      .slice(0, this.options.maxDocuments);
+    const keptIds = new Set(kept.map(document => document.id));
+
+    for (const id of Array.from(this.documents.keys())) {
+      if (!keptIds.has(id)) {
+        this.documents.delete(id);
+        this.index.remove(id);
+      }
+    }
+  }
+
+  // Reads the persisted documents once; a failed read is retried on the next call
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.repository.load().then(documents => {
+        documents.forEach(document => this.indexDocument(document));
+        this.prune();
+        logger.info(`Loaded ${this.documents.size} retrieval documents`);
+      }).catch(error => {
+        this.loading = null;
+        logger.error('Failed to load retrieval documents:', error);
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+}
+
+export default EmbeddedRetrievalBackend;
@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import HttpRetrievalBackend, {
+  DataServiceCircuitOpenError,
+  DataServiceOptions,
+  DataServiceRequestError,
+  DataServiceUnavailableError
+} from './httpRetrievalBackend';
+
+const OPTIONS: DataServiceOptions = {
+  timeoutMs: 100,
+  healthTimeoutMs: 100,
+  maxRetries: 2,
+  retryBaseDelayMs: 1,
+  breakerThreshold: 5,
+  breakerResetMs: 60000
+};
+
+// Serves every request with `respond` (or never answers when it returns null) and counts hits
+const withServer = async (
+  respond: (res: http.ServerResponse) => void | null,
+  callback: (baseUrl: string, hits: () => number) => Promise<void>
+): Promise<void> => {
+  let hits = 0;
+  const server = http.createServer((req, res) => {
+    hits++;
+    respond(res);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  try {
+    await callback(`http://127.0.0.1:${(server.address() as AddressInfo).port}`, () => hits);
+  } finally {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  }
+};
+
+const status = (code: number) => (res: http.ServerResponse) => {
+  res.writeHead(code, { 'Content-Type': 'application/json' });
+  res.end('{}');
+};
+
+test('5xx responses to read calls are retried', async () => {
+  await withServer(status(503), async (baseUrl, hits) => {
+    const backend = new HttpRetrievalBackend(baseUrl, OPTIONS);
+    await assert.rejects(backend.getStats(), DataServiceUnavailableError);
+    assert.equal(hits(), 3);
+  });
+});
+
+test('timeouts are not retried', async () => {
+  await withServer(() => null, async (baseUrl, hits) => {
+    const backend = new HttpRetrievalBackend(baseUrl, OPTIONS);
+    await assert.rejects(backend.getStats(), /timed out/);
+    assert.equal(hits(), 1);
+  });
+});
+
+test('other 4xx responses are neither retried nor counted against the breaker', async () => {
+  await withServer(status(404), async (baseUrl, hits) => {
+    const backend = new HttpRetrievalBackend(baseUrl, { ...OPTIONS, breakerThreshold: 1 });
+    await assert.rejects(backend.getStats(), DataServiceRequestError);
+    await assert.rejects(backend.getStats(), DataServiceRequestError);
+    assert.equal(hits(), 2);
+    assert.equal(backend.isAvailable(), true);
+  });
+});
+
+test('ingestion is not retried', async () => {
+  await withServer(status(500), async (baseUrl, hits) => {
+    const backend = new HttpRetrievalBackend(baseUrl, OPTIONS);
+    await assert.rejects(backend.triggerIngestion('news'), DataServiceUnavailableError);
+    assert.equal(hits(), 1);
+  });
+});
+
+test('every failed attempt counts toward the breaker, which then fails fast', async () => {
+  await withServer(status(502), async (baseUrl, hits) => {
+    const backend = new HttpRetrievalBackend(baseUrl, { ...OPTIONS, breakerThreshold: 3 });
+    await assert.rejects(backend.getStats(), DataServiceUnavailableError);
+    assert.equal(backend.isAvailable(), false);
+
+    await assert.rejects(backend.getStats(), DataServiceCircuitOpenError);
+    assert.equal(hits(), 3);
+  });
+});
@@ -0,0 +1,251 @@
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { DataServiceHealth } from '../../types';
+import { CircuitBreaker } from '../../utils/circuitBreaker';
+import logger from '../../utils/logger';
+import { QueryRequest, QueryResponse, RetrievalBackend, RetrievalStats, VectorData } from './retrievalBackend';
+
+export interface DataServiceOptions {
+  timeoutMs: number;
+  healthTimeoutMs: number;
+  // Extra attempts for idempotent calls
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  breakerThreshold: number;
+  breakerResetMs: number;
+}
+
+const MAX_RETRY_DELAY_MS = 5000;
+// /health is polled; repeated probes within this window reuse the last result
+const HEALTH_CACHE_MS = 10000;
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+const envInt = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] ?? '', 10);
+  return Number.isNaN(value) || value < 0 ? fallback : value;
+};
+
+const loadOptions = (): DataServiceOptions => ({
+  timeoutMs: envInt('DATA_SERVICE_TIMEOUT_MS', 10000),
+  healthTimeoutMs: envInt('DATA_SERVICE_HEALTH_TIMEOUT_MS', 2000),
+  maxRetries: envInt('DATA_SERVICE_MAX_RETRIES', 2),
+  retryBaseDelayMs: envInt('DATA_SERVICE_RETRY_BASE_DELAY_MS', 250),
+  breakerThreshold: Math.max(envInt('DATA_SERVICE_BREAKER_THRESHOLD', 5), 1),
+  breakerResetMs: envInt('DATA_SERVICE_BREAKER_RESET_MS', 30000)
+});
+
+export class DataServiceError extends Error {
+  readonly operation: string;
+  // HTTP status of the response, null when there was none
+  readonly status: number | null;
+
+  constructor(message: string, operation: string, status: number | null = null) {
+    super(message);
+    this.name = 'DataServiceError';
+    this.operation = operation;
+    this.status = status;
+  }
+}
+
+// The service could not be reached, timed out, or failed with 429 or 5xx
+export class DataServiceUnavailableError extends DataServiceError {
+  constructor(message: string, operation: string, status: number | null = null) {
+    super(message, operation, status);
+    this.name = 'DataServiceUnavailableError';
+  }
+}
+
+// The circuit breaker is open, so no request was made
+export class DataServiceCircuitOpenError extends DataServiceUnavailableError {
+  readonly retryAt: Date;
+
+  constructor(operation: string, retryAfterMs: number) {
+    super(`Data service is unavailable (circuit open); ${operation} not attempted`, operation);
+    this.name = 'DataServiceCircuitOpenError';
+    this.retryAt = new Date(Date.now() + retryAfterMs);
+  }
+}
+
+// The service rejected the request (4xx other than 429); retrying won't help
+export class DataServiceRequestError extends DataServiceError {
+  constructor(message: string, operation: string, status: number | null) {
+    super(message, operation, status);
+    this.name = 'DataServiceRequestError';
+  }
+}
+
+const isTimeout = (error: unknown): boolean =>
+  axios.isAxiosError(error) && (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT');
+
+const toDataServiceError = (operation: string, error: unknown): DataServiceError => {
+  const status = axios.isAxiosError(error) ? error.response?.status ?? null : null;
+  if (status !== null && status !== 429 && status < 500) {
+    return new DataServiceRequestError(`Data service rejected ${operation} with HTTP ${status}`, operation, status);
+  }
+  const reason = status !== null ? `HTTP ${status}` : isTimeout(error) ? 'timed out' : error instanceof Error ? error.message : String(error);
+  return new DataServiceUnavailableError(`Data service ${operation} failed: ${reason}`, operation, status);
+};
+
+// Client for the external data service at DATA_SERVICE_URL. Idempotent calls are retried
+// with jittered exponential backoff, and a circuit breaker stops calling the service after
+// repeated failures so requests fail fast instead of each waiting out the timeout.
+class HttpRetrievalBackend implements RetrievalBackend {
+  readonly name = 'http';
+  private client: AxiosInstance;
+  private baseUrl: string;
+  private options: DataServiceOptions;
+  private breaker: CircuitBreaker;
+  private lastHealth: DataServiceHealth | null = null;
+
+  constructor(baseUrl: string = 'http://localhost:3002', options: DataServiceOptions = loadOptions()) {
+    this.baseUrl = baseUrl;
+    this.options = options;
+    this.breaker = new CircuitBreaker({ failureThreshold: options.breakerThreshold, resetTimeoutMs: options.breakerResetMs });
+    this.client = axios.create({
+      baseURL: `${baseUrl}/api`,
+      timeout: options.timeoutMs,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    // Add request/response interceptors for logging
+    this.client.interceptors.request.use(
+      (config) => {
+        logger.debug(`Data service request: ${config.method?.toUpperCase()} ${config.url}`);
+        return config;
+      },
+      (error) => {
+        logger.error('Data service request error:', error);
+        return Promise.reject(error);
+      }
+    );
+
+    this.client.interceptors.response.use(
+      (response) => {
+        logger.debug(`Data service response: ${response.status} ${response.config.url}`);
+        return response;
+      },
+      (error) => {
+        logger.debug('Data service response error:', {
+          status: error.response?.status,
+          message: error.message,
+          url: error.config?.url,
+        });
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  // Queries only read, so they are retried like GETs
+  async query(request: QueryRequest): Promise<QueryResponse> {
+    return this.request<QueryResponse>('query', () => this.client.post('/query', request), true);
+  }
+
+  isAvailable(): boolean {
+    return this.breaker.getStatus().state !== 'open';
+  }
+
+  async getRecentData(type?: string, limit?: number): Promise<VectorData[]> {
+    const params: { type?: string; limit?: number } = {};
+    if (type) params.type = type;
+    if (limit) params.limit = limit;
+
+    const data = await this.request<{ results: VectorData[] }>('recent data lookup', () => this.client.get('/recent', { params }), true);
+    return data.results;
+  }
+
+  async searchBySymbol(symbol: string, type?: string, limit?: number): Promise<VectorData[]> {
+    const params: { type?: string; limit?: number } = {};
+    if (type) params.type = type;
+    if (limit) params.limit = limit;
+
+    const data = await this.request<{ results: VectorData[] }>(
+      `symbol search for ${symbol}`,
+      () => this.client.get(`/symbol/${encodeURIComponent(symbol)}`, { params }),
+      true
+    );
+    return data.results;
+  }
+
+  async getStats(): Promise<RetrievalStats> {
+    return this.request<RetrievalStats>('stats lookup', () => this.client.get('/stats'), true);
+  }
+
+  // Not retried: a retry after a timeout could start a second ingestion
+  async triggerIngestion(type: string): Promise<void> {
+    await this.request(`${type} ingestion`, () => this.client.post('/ingest', { type }), false);
+    logger.info(`Triggered ${type} data ingestion`);
+  }
+
+  // Probes the service directly, bypassing the breaker and retries, with a short timeout
+  async getHealth(): Promise<DataServiceHealth> {
+    if (this.lastHealth && Date.now() - this.lastHealth.checkedAt.getTime() < HEALTH_CACHE_MS) {
+      return { ...this.lastHealth, circuit: this.breaker.getStatus() };
+    }
+
+    const startedAt = Date.now();
+    let status: DataServiceHealth['status'];
+    try {
+      const response = await this.client.get('/health', { timeout: this.options.healthTimeoutMs });
+      status = response.status === 200 && response.data?.status === 'healthy' ? 'healthy' : 'unhealthy';
+    } catch (error: unknown) {
+      status = axios.isAxiosError(error) && error.response ? 'unhealthy' : 'unreachable';
+      logger.debug(`Data service health check failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    this.lastHealth = {
+      backend: 'http',
+      status,
+      url: this.baseUrl,
+      checkedAt: new Date(),
+      latencyMs: Date.now() - startedAt,
+      circuit: this.breaker.getStatus(),
+      documents: null,
+      lastIngestedAt: null
+    };
+    return this.lastHealth;
+  }
+
+  // Sends a request through the circuit breaker, retrying idempotent ones. Network
+  // errors, timeouts, 429 and 5xx count against the breaker; other 4xx show the
+  // service is up and are thrown as DataServiceRequestError without retrying.
+  // Timeouts aren't retried either: each one already waited the full timeout, so
+  // retrying would multiply the wait before the breaker trips during an outage.
+  private async request<T>(operation: string, send: () => Promise<AxiosResponse<T>>, idempotent: boolean): Promise<T> {
+    const attempts = idempotent ? this.options.maxRetries + 1 : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      if (!this.breaker.tryAcquire()) {
+        throw new DataServiceCircuitOpenError(operation, this.breaker.retryAfterMs());
+      }
+
+      try {
+        const response = await send();
+        this.breaker.recordSuccess();
+        return response.data;
+      } catch (error: unknown) {
+        const failure = toDataServiceError(operation, error);
+        if (!(failure instanceof DataServiceUnavailableError)) {
+          this.breaker.recordSuccess();
+          throw failure;
+        }
+
+        // Every path records an outcome, so a half-open trial always settles the circuit
+        const opened = this.breaker.recordFailure(failure.message);
+        if (opened) {
+          const { consecutiveFailures } = this.breaker.getStatus();
+          logger.warn(`Data service circuit opened after ${consecutiveFailures} consecutive failure(s) (${failure.message}); next attempt in ${this.options.breakerResetMs}ms`);
+        }
+        if (opened || isTimeout(error) || attempt >= attempts) {
+          throw failure;
+        }
+
+        const delay = Math.min(this.options.retryBaseDelayMs * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+        await sleep(delay / 2 + Math.random() * delay / 2);
+      }
+    }
+  }
+}
+
+export default HttpRetrievalBackend;
@@ -0,0 +1,29 @@
+import HttpRetrievalBackend from './httpRetrievalBackend';
+import EmbeddedRetrievalBackend from './embeddedRetrievalBackend';
+import { RetrievalBackend } from './retrievalBackend';
+import { createMarketIngester, createNewsIngester } from './ingesters';
+import logger from '../../utils/logger';
+
+export * from './retrievalBackend';
+export * from './httpRetrievalBackend';
+export * from './documentRepository';
+export type { Ingester } from './ingesters';
+export { HttpRetrievalBackend, EmbeddedRetrievalBackend };
+
+// RETRIEVAL_BACKEND picks `http` (default, the data service at DATA_SERVICE_URL) or
+// `embedded` (the in-process TF-IDF store), which has to be opted into
+export const createRetrievalBackend = (): RetrievalBackend => {
+  const name = process.env.RETRIEVAL_BACKEND || 'http';
+
+  if (name === 'embedded') {
+    logger.info('Using the embedded retrieval store');
+    return new EmbeddedRetrievalBackend(undefined, {
+      news: createNewsIngester(),
+      market: createMarketIngester()
+    });
+  }
+  if (name !== 'http') {
+    logger.warn(`Unknown RETRIEVAL_BACKEND "${name}", using http`);
+  }
+  return new HttpRetrievalBackend(process.env.DATA_SERVICE_URL);
+};
@@ -0,0 +1,72 @@
+import { createHash } from 'crypto';
+import NewsService from '../newsService';
+import MarketDataService from '../marketDataService';
+import { findInstrument } from '../symbols';
+import { VectorData } from './retrievalBackend';
+import logger from '../../utils/logger';
+
+// Produces documents for the embedded store; ids are stable so re-ingesting replaces them
+export type Ingester = () => Promise<VectorData[]>;
+
+const NEWS_SCAN_LIMIT = 200;
+const DEFAULT_MARKET_SYMBOLS = 'AAPL,MSFT,GOOGL,AMZN,META,NVDA,TSLA,BTC,ETH,SOL';
+
+const hash = (value: string): string => createHash('sha1').update(value).digest('hex').slice(0, 16);
+
+// Every item from the configured feeds, tagged with the tickers it mentions
+export const createNewsIngester = (newsService: NewsService = new NewsService()): Ingester => async () => {
+  const items = await newsService.getLatestFinancialNews(NEWS_SCAN_LIMIT);
+  return items.map(item => ({
+    id: `news:${hash(item.url || `${item.source}\n${item.title}`)}`,
+    metadata: {
+      source: item.source,
+      type: 'news',
+      timestamp: item.publishedAt.toISOString(),
+      title: item.title,
+      url: item.url || undefined,
+      symbol: item.symbols?.[0],
+      symbols: item.symbols ?? [],
+      sentiment: item.sentiment
+    },
+    content: item.description ? `${item.title}\n${item.description}` : item.title
+  }));
+};
+
+// One snapshot per symbol and day from RETRIEVAL_MARKET_SYMBOLS; later runs on the same
+// day replace it with the current quote
+export const createMarketIngester = (
+  marketDataService: MarketDataService = new MarketDataService(),
+  symbols: string[] = (process.env.RETRIEVAL_MARKET_SYMBOLS || DEFAULT_MARKET_SYMBOLS).split(',').map(symbol => symbol.trim()).filter(Boolean)
+): Ingester => async () => {
+  const documents = await Promise.all(symbols.map(async (symbol): Promise<VectorData | null> => {
+    const instrument = findInstrument(symbol);
+    if (!instrument) {
+      logger.warn(`Skipping unknown retrieval market symbol ${symbol}`);
+      return null;
+    }
+    try {
+      const quote = await marketDataService.getQuote(instrument);
+      if (!quote) {
+        return null;
+      }
+      const direction = quote.change >= 0 ? 'up' : 'down';
+      return {
+        id: `market:${instrument.symbol}:${quote.timestamp.toISOString().slice(0, 10)}`,
+        metadata: {
+          source: quote.provider,
+          type: instrument.type,
+          timestamp: quote.timestamp.toISOString(),
+          symbol: instrument.symbol,
+          simulated: quote.isSimulated
+        },
+        content: `${instrument.name} (${instrument.symbol}) ${instrument.type === 'crypto' ? 'cryptocurrency' : 'stock'} market data: `
+          + `price ${quote.price} ${quote.currency}, ${direction} ${Math.abs(quote.changePercent).toFixed(2)}% `
+          + `(${quote.change >= 0 ? '+' : ''}${quote.change}) on the day${quote.isSimulated ? ' (simulated)' : ''}.`
+      };
+    } catch (error: any) {
+      logger.warn(`Failed to ingest a quote for ${instrument.symbol}: ${error.message}`);
+      return null;
+    }
+  }));
+  return documents.filter((document): document is VectorData => document !== null);
+};
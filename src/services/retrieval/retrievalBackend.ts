@@ -0,0 +1,57 @@
+import { DataServiceHealth, Reference } from '../../types';
+
+export interface QueryRequest {
+  query: string;
+  type?: string[];
+  limit?: number;
+  timeRange?: {
+    start: Date;
+    end: Date;
+  };
+  symbols?: string[];
+}
+
+export interface VectorData {
+  id: string;
+  metadata: {
+    source: string;
+    type: string;
+    timestamp: string;
+    symbol?: string;
+    [key: string]: any;
+  };
+  content: string;
+  distance?: number;
+}
+
+export interface QueryResponse {
+  results: VectorData[];
+  total: number;
+  query: string;
+  processingTime: number;
+  cached?: boolean;
+  references?: Reference[];
+}
+
+// Document counts and the like, as reported by the backend
+export type RetrievalStats = Record<string, unknown>;
+
+// Where retrieval context comes from: the external data service or the embedded store.
+// Lookups throw when the backend fails; DataService turns that into empty context.
+export interface RetrievalBackend {
+  readonly name: string;
+  // Similarity search over documents matching the type, symbol and time filters
+  query(request: QueryRequest): Promise<QueryResponse>;
+  // Newest documents first
+  getRecentData(type?: string, limit?: number): Promise<VectorData[]>;
+  searchBySymbol(symbol: string, type?: string, limit?: number): Promise<VectorData[]>;
+  getStats(): Promise<RetrievalStats>;
+  // Pulls fresh data of the given type ('all' for everything) into the store
+  triggerIngestion(type: string): Promise<void>;
+  getHealth(): Promise<DataServiceHealth>;
+  // False while the backend is known to be down, so callers can skip it instead of waiting
+  isAvailable(): boolean;
+  // Background work such as periodic ingestion
+  start?(): void;
+  stop?(): void;
+}
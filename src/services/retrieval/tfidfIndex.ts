@@ -0,0 +1,107 @@
+import { analyzeText } from '../../utils/textAnalysis';
+
+const termCounts = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const { term } of analyzeText(text)) {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  return counts;
+};
+
+// Sparse TF-IDF vectors (sublinear tf, smoothed idf) compared by cosine similarity.
+// Vectors are derived from term counts, so adding documents only marks the norms stale.
+class TfIdfIndex {
+  private documents = new Map<string, Map<string, number>>();
+  // term -> ids of the documents containing it
+  private postings = new Map<string, Set<string>>();
+  private norms = new Map<string, number>();
+  private normsStale = false;
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  get vocabularySize(): number {
+    return this.postings.size;
+  }
+
+  set(id: string, text: string): void {
+    this.remove(id);
+    const counts = termCounts(text);
+    this.documents.set(id, counts);
+    for (const term of counts.keys()) {
+      let ids = this.postings.get(term);
+      if (!ids) {
+        ids = new Set();
+        this.postings.set(term, ids);
+      }
+      ids.add(id);
+    }
+    this.normsStale = true;
+  }
+
+  remove(id: string): void {
+    const counts = this.documents.get(id);
+    if (!counts) {
+      return;
+    }
+    for (const term of counts.keys()) {
+      const ids = this.postings.get(term);
+      ids?.delete(id);
+      if (ids?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.documents.delete(id);
+    this.norms.delete(id);
+    this.normsStale = true;
+  }
+
+  // Cosine similarity (0 to 1) of the text to every document sharing a term with it
+  similarities(text: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const query = termCounts(text);
+    this.refreshNorms();
+
+    let queryNorm = 0;
+    for (const [term, count] of query) {
+      const weight = this.weight(term, count);
+      queryNorm += weight * weight;
+      for (const id of this.postings.get(term) ?? []) {
+        const documentWeight = this.weight(term, (this.documents.get(id) as Map<string, number>).get(term) as number);
+        scores.set(id, (scores.get(id) ?? 0) + weight * documentWeight);
+      }
+    }
+
+    queryNorm = Math.sqrt(queryNorm);
+    for (const [id, dot] of scores) {
+      scores.set(id, dot / (queryNorm * (this.norms.get(id) || 1)));
+    }
+    return scores;
+  }
+
+  private idf(term: string): number {
+    return Math.log((this.documents.size + 1) / ((this.postings.get(term)?.size ?? 0) + 1)) + 1;
+  }
+
+  private weight(term: string, count: number): number {
+    return (1 + Math.log(count)) * this.idf(term);
+  }
+
+  // idf depends on the whole corpus, so every norm changes when a document does
+  private refreshNorms(): void {
+    if (!this.normsStale) {
+      return;
+    }
+    for (const [id, counts] of this.documents) {
+      let sum = 0;
+      for (const [term, count] of counts) {
+        sum += this.weight(term, count) ** 2;
+      }
+      this.norms.set(id, Math.sqrt(sum));
+    }
+    this.normsStale = false;
+  }
+}
+
+export default TfIdfIndex;
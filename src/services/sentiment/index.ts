@@ -0,0 +1,30 @@
+import LexiconSentimentScorer from './lexiconSentimentScorer';
+import LLMSentimentScorer from './llmSentimentScorer';
+import { SentimentScorer } from './sentimentScorer';
+import { MeteredLLMProvider, createLLMProvider } from '../llm';
+import { usageService } from '../usageService';
+import { RequestCaller } from '../../utils/requestContext';
+import logger from '../../utils/logger';
+
+export * from './sentimentScorer';
+export { LexiconSentimentScorer, LLMSentimentScorer };
+
+// Feeds are scored for everyone, whichever request happened to refresh them, so the
+// LLM scorer's usage is recorded and budgeted under its own system user
+export const SENTIMENT_USAGE_CALLER: RequestCaller = { userId: 'system:news-sentiment' };
+
+// NEWS_SENTIMENT_SCORER picks `lexicon` (default) or `llm`. The LLM scorer uses the
+// configured LLM provider, is metered like analysis calls, and falls back to the lexicon.
+export const createSentimentScorer = (): SentimentScorer => {
+  const lexicon = new LexiconSentimentScorer();
+  if (process.env.NEWS_SENTIMENT_SCORER !== 'llm') {
+    return lexicon;
+  }
+
+  const provider = createLLMProvider();
+  if (!provider) {
+    logger.warn('NEWS_SENTIMENT_SCORER is llm but no LLM provider is configured; using the lexicon');
+    return lexicon;
+  }
+  return new LLMSentimentScorer(new MeteredLLMProvider(provider, usageService, SENTIMENT_USAGE_CALLER), lexicon);
+};
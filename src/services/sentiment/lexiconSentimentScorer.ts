@@ -0,0 +1,84 @@
+import { SentimentInput, SentimentResult, SentimentScorer, labelForScore } from './sentimentScorer';
+
+// Financial-news vocabulary with weights from 1 (mild) to 3 (strong). Words are
+// matched after stripping common inflections, so "surged" and "surges" hit "surge".
+const LEXICON: Record<string, number> = {
+  // Positive
+  surge: 3, soar: 3, skyrocket: 3, record: 2, rally: 2, jump: 2, beat: 2, upgrade: 2,
+  outperform: 2, bullish: 2, rebound: 2, boom: 2, breakthrough: 2, profit: 1, profitable: 2,
+  gain: 1, rise: 1, climb: 1, advance: 1, grow: 1, growth: 1, strong: 1, strength: 1,
+  exceed: 2, top: 1, raise: 1, boost: 1, optimism: 2, optimistic: 2, recover: 1, recovery: 1,
+  expand: 1, expansion: 1, win: 1, approval: 2, approve: 2, dividend: 1, buyback: 1, upbeat: 2,
+  positive: 1, improve: 1, robust: 2, resilient: 1, tailwind: 1, milestone: 1, partnership: 1,
+  // Negative
+  plunge: -3, crash: -3, collapse: -3, bankruptcy: -3, bankrupt: -3, fraud: -3, default: -2,
+  tumble: -2, slump: -2, sink: -2, slide: -2, selloff: -2, downgrade: -2, miss: -2, loss: -2,
+  lawsuit: -2, sue: -2, probe: -2, investigation: -2, recall: -2, layoff: -2, bearish: -2,
+  warn: -2, warning: -2, scandal: -3, penalty: -2, fine: -1, halt: -2, suspend: -2,
+  fall: -1, drop: -1, decline: -1, dip: -1, slip: -1, weak: -1, weakness: -1, cut: -1,
+  concern: -1, fear: -2, worry: -1, risk: -1, volatile: -1, volatility: -1, uncertainty: -1,
+  pessimism: -2, pessimistic: -2, slowdown: -2, recession: -2, inflation: -1, deficit: -1,
+  shortfall: -2, disappoint: -2, disappointing: -2, delay: -1, headwind: -1, negative: -1,
+  downturn: -2, underperform: -2, hack: -2, breach: -2, outage: -1, struggle: -1
+};
+
+// Flip the sign of the next few words
+const NEGATIONS = new Set(['not', 'no', 'never', 'without', "didn't", "doesn't", "don't", "isn't", "wasn't", "won't", 'fails', 'failed']);
+const NEGATION_SPAN = 3;
+
+// Headlines carry most of the signal; descriptions often repeat boilerplate
+const TITLE_WEIGHT = 2;
+// Normalizes raw sums into [-1, 1]; larger values need more evidence to approach the ends
+const NORMALIZATION_ALPHA = 15;
+
+const SUFFIXES = ['ing', 'ed', 'es', 's', 'd'];
+
+const lookup = (word: string): number => {
+  if (LEXICON[word] !== undefined) {
+    return LEXICON[word];
+  }
+  for (const suffix of SUFFIXES) {
+    if (word.length > suffix.length + 2 && word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      // "slipped" -> "slipp" -> "slip"
+      const candidates = [stem, `${stem}e`, stem.replace(/(.)\1$/, '$1')];
+      const hit = candidates.find(candidate => LEXICON[candidate] !== undefined);
+      if (hit) {
+        return LEXICON[hit];
+      }
+    }
+  }
+  return 0;
+};
+
+const scoreText = (text: string): number => {
+  let total = 0;
+  let negateFor = 0;
+
+  for (const word of text.toLowerCase().replace(/sell-off/g, 'selloff').match(/[a-z']+/g) || []) {
+    if (NEGATIONS.has(word)) {
+      negateFor = NEGATION_SPAN;
+      continue;
+    }
+    const weight = lookup(word);
+    total += negateFor > 0 ? -weight : weight;
+    negateFor = Math.max(negateFor - 1, 0);
+  }
+
+  return total;
+};
+
+// Local, dependency-free scorer used by default
+class LexiconSentimentScorer implements SentimentScorer {
+  readonly name = 'lexicon';
+
+  async score(inputs: SentimentInput[]): Promise<SentimentResult[]> {
+    return inputs.map(input => {
+      const raw = scoreText(input.title) * TITLE_WEIGHT + scoreText(input.body);
+      const score = Math.round((raw / Math.sqrt(raw * raw + NORMALIZATION_ALPHA)) * 1000) / 1000;
+      return { score, label: labelForScore(score) };
+    });
+  }
+}
+
+export default LexiconSentimentScorer;
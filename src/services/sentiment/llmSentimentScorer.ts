@@ -0,0 +1,54 @@
+import { LLMProvider } from '../llm';
+import { SentimentInput, SentimentResult, SentimentScorer, labelForScore } from './sentimentScorer';
+import logger from '../../utils/logger';
+
+// Headlines per completion
+const BATCH_SIZE = 20;
+const BODY_CHARS = 300;
+
+// Asks the model for a score per headline. Batches the model fails on (errors, wrong
+// count, out-of-range values) are scored by the fallback instead.
+class LLMSentimentScorer implements SentimentScorer {
+  readonly name = 'llm';
+  private provider: LLMProvider;
+  private fallback: SentimentScorer;
+
+  constructor(provider: LLMProvider, fallback: SentimentScorer) {
+    this.provider = provider;
+    this.fallback = fallback;
+  }
+
+  async score(inputs: SentimentInput[]): Promise<SentimentResult[]> {
+    const results: SentimentResult[] = [];
+    for (let i = 0; i < inputs.length; i += BATCH_SIZE) {
+      results.push(...await this.scoreBatch(inputs.slice(i, i + BATCH_SIZE)));
+    }
+    return results;
+  }
+
+  private async scoreBatch(inputs: SentimentInput[]): Promise<SentimentResult[]> {
+    const items = inputs.map((input, i) => `${i + 1}. ${input.title}${input.body ? ` - ${input.body.slice(0, BODY_CHARS)}` : ''}`);
+
+    try {
+      const { content } = await this.provider.complete([
+        {
+          role: 'system',
+          content: 'You rate the market sentiment of financial news items for investors in the companies involved. Respond with only a JSON object {"scores": [...]} holding one number per item, in order, from -1 (very negative) through 0 (neutral) to 1 (very positive).'
+        },
+        { role: 'user', content: items.join('\n') }
+      ], { responseFormat: 'json', temperature: 0, maxTokens: 20 + inputs.length * 8 });
+
+      const scores = JSON.parse(content.slice(content.indexOf('{'), content.lastIndexOf('}') + 1)).scores;
+      if (!Array.isArray(scores) || scores.length !== inputs.length
+        || !scores.every(score => typeof score === 'number' && score >= -1 && score <= 1)) {
+        throw new Error(`expected ${inputs.length} scores between -1 and 1`);
+      }
+      return scores.map((score: number) => ({ score: Math.round(score * 1000) / 1000, label: labelForScore(score) }));
+    } catch (error: any) {
+      logger.warn(`LLM sentiment scoring failed, using ${this.fallback.name}: ${error.message}`);
+      return this.fallback.score(inputs);
+    }
+  }
+}
+
+export default LLMSentimentScorer;
@@ -0,0 +1,32 @@
+import { NewsSentiment } from '../../types';
+
+export interface SentimentInput {
+  title: string;
+  body: string;
+}
+
+export interface SentimentResult {
+  // -1 (very negative) to 1 (very positive)
+  score: number;
+  label: NewsSentiment;
+}
+
+// Scores are comparable across scorers, so items scored by a fallback can be mixed in
+export interface SentimentScorer {
+  readonly name: string;
+  // One result per input, in order
+  score(inputs: SentimentInput[]): Promise<SentimentResult[]>;
+}
+
+// Scores within this distance of zero count as neutral
+const NEUTRAL_BAND = 0.15;
+
+export const labelForScore = (score: number): NewsSentiment => {
+  if (score >= NEUTRAL_BAND) {
+    return 'positive';
+  }
+  if (score <= -NEUTRAL_BAND) {
+    return 'negative';
+  }
+  return 'neutral';
+};
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseStructuredAnalysis, parseStructuredAssessment } from './structuredAnalysis';
+
+const valid = {
+  answer: ' Apple looks fairly valued. ',
+  riskLevel: 'medium',
+  riskRationale: ' Earnings are steady. ',
+  confidence: 0.6,
+  citedReferenceIds: ['ref-1', 'made-up'],
+  recommendedActions: [' Review position size ', ' '],
+  timeHorizon: 'long-term'
+};
+
+test('a valid response is parsed, trimmed and stripped of unknown reference ids', () => {
+  const result = parseStructuredAnalysis(JSON.stringify(valid), ['ref-1', 'ref-2']);
+  assert.deepEqual(result, {
+    valid: true,
+    value: {
+      answer: 'Apple looks fairly valued.',
+      riskLevel: 'medium',
+      riskRationale: 'Earnings are steady.',
+      confidence: 0.6,
+      citedReferenceIds: ['ref-1'],
+      recommendedActions: ['Review position size'],
+      timeHorizon: 'long-term'
+    }
+  });
+});
+
+test('JSON wrapped in fences or prose is found', () => {
+  const raw = `Here is the analysis:\n\`\`\`json\n${JSON.stringify(valid)}\n\`\`\``;
+  assert.equal(parseStructuredAnalysis(raw, []).valid, true);
+});
+
+test('responses without a JSON object are rejected', () => {
+  assert.deepEqual(parseStructuredAnalysis('no json here', []), {
+    valid: false,
+    errors: ['Invalid JSON: Response does not contain a JSON object']
+  });
+  const broken = parseStructuredAnalysis('{"answer": "x",}', []);
+  assert.equal(broken.valid, false);
+  assert.match(broken.valid ? '' : broken.errors[0], /^Invalid JSON: /);
+});
+
+test('every invalid field is reported', () => {
+  const result = parseStructuredAnalysis(JSON.stringify({
+    answer: '  ',
+    riskLevel: 'extreme',
+    riskRationale: 42,
+    confidence: 1.5,
+    citedReferenceIds: [1],
+    recommendedActions: 'buy',
+    timeHorizon: 'forever'
+  }), []);
+
+  assert.deepEqual(result, {
+    valid: false,
+    errors: [
+      '"answer" must be a non-empty string',
+      '"riskLevel" must be one of low, medium, high',
+      '"riskRationale" must be a non-empty string',
+      '"confidence" must be a number between 0 and 1',
+      '"citedReferenceIds" must be an array of strings',
+      '"recommendedActions" must be an array of strings',
+      '"timeHorizon" must be one of short-term, medium-term, long-term'
+    ]
+  });
+});
+
+test('an assessment does not need an answer and drops one that is sent', () => {
+  const withoutAnswer = parseStructuredAssessment(JSON.stringify({ ...valid, answer: undefined }), ['ref-1']);
+  assert.equal(withoutAnswer.valid, true);
+
+  const withAnswer = parseStructuredAssessment(JSON.stringify(valid), []);
+  assert.ok(withAnswer.valid);
+  assert.equal('answer' in withAnswer.value, false);
+});
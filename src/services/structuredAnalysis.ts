@@ -0,0 +1,130 @@
+import { FinancialAnalysis, TimeHorizon } from '../types';
+
+export interface StructuredAnalysis {
+  answer: string;
+  riskLevel: FinancialAnalysis['riskLevel'];
+  riskRationale: string;
+  confidence: number;
+  citedReferenceIds: string[];
+  recommendedActions: string[];
+  timeHorizon: TimeHorizon;
+}
+
+export type StructuredAssessment = Omit<StructuredAnalysis, 'answer'>;
+
+export type ParseResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: string[] };
+
+const RISK_LEVELS: FinancialAnalysis['riskLevel'][] = ['low', 'medium', 'high'];
+const TIME_HORIZONS: TimeHorizon[] = ['short-term', 'medium-term', 'long-term'];
+
+type JsonObject = Record<string, unknown>;
+
+// Shown to the model verbatim, so keep it in sync with readAssessment
+export const ANALYSIS_SCHEMA = `{
+  "answer": string,                 // the full answer shown to the user, plain prose
+  "riskLevel": "low" | "medium" | "high",
+  "riskRationale": string,          // one or two sentences explaining the risk level
+  "confidence": number,             // 0 to 1, how well the available data supports the answer
+  "citedReferenceIds": string[],    // ids of the provided references the answer relies on
+  "recommendedActions": string[],   // concrete next steps, may be empty
+  "timeHorizon": "short-term" | "medium-term" | "long-term"
+}`;
+
+export const ASSESSMENT_SCHEMA = ANALYSIS_SCHEMA.replace(/^\s*"answer".*\n/m, '');
+
+// Models often wrap JSON in markdown fences or add a sentence before it
+const extractJson = (raw: string): unknown => {
+  const start = raw.indexOf('{');
+  const end = raw.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('Response does not contain a JSON object');
+  }
+  return JSON.parse(raw.slice(start, end + 1));
+};
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isUnitInterval = (value: unknown): value is number =>
+  typeof value === 'number' && !Number.isNaN(value) && value >= 0 && value <= 1;
+
+const isOneOf = <T extends string>(values: readonly T[]) => (value: unknown): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
+
+// The value when it passes the guard; otherwise records the error and returns undefined
+const field = <T>(value: unknown, guard: (value: unknown) => value is T, error: string, errors: string[]): T | undefined => {
+  if (guard(value)) {
+    return value;
+  }
+  errors.push(error);
+  return undefined;
+};
+
+const parseObject = (raw: string): ParseResult<JsonObject> => {
+  let data: unknown;
+  try {
+    data = extractJson(raw);
+  } catch (error: unknown) {
+    return { valid: false, errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  return isObject(data) ? { valid: true, value: data } : { valid: false, errors: ['Response must be a JSON object'] };
+};
+
+// Null when a field is invalid, with the reasons added to errors
+const readAssessment = (data: JsonObject, knownReferenceIds: string[], errors: string[]): StructuredAssessment | null => {
+  const riskLevel = field(data.riskLevel, isOneOf(RISK_LEVELS), `"riskLevel" must be one of ${RISK_LEVELS.join(', ')}`, errors);
+  const riskRationale = field(data.riskRationale, isNonEmptyString, '"riskRationale" must be a non-empty string', errors);
+  const confidence = field(data.confidence, isUnitInterval, '"confidence" must be a number between 0 and 1', errors);
+  const citedReferenceIds = field(data.citedReferenceIds, isStringArray, '"citedReferenceIds" must be an array of strings', errors);
+  const recommendedActions = field(data.recommendedActions, isStringArray, '"recommendedActions" must be an array of strings', errors);
+  const timeHorizon = field(data.timeHorizon, isOneOf(TIME_HORIZONS), `"timeHorizon" must be one of ${TIME_HORIZONS.join(', ')}`, errors);
+
+  if (riskLevel === undefined || riskRationale === undefined || confidence === undefined
+    || citedReferenceIds === undefined || recommendedActions === undefined || timeHorizon === undefined) {
+    return null;
+  }
+
+  // Hallucinated ids are dropped rather than failing the whole response
+  const known = new Set(knownReferenceIds);
+  return {
+    riskLevel,
+    riskRationale: riskRationale.trim(),
+    confidence,
+    citedReferenceIds: citedReferenceIds.filter(id => known.has(id)),
+    recommendedActions: recommendedActions.map(action => action.trim()).filter(Boolean),
+    timeHorizon
+  };
+};
+
+export const parseStructuredAnalysis = (raw: string, knownReferenceIds: string[]): ParseResult<StructuredAnalysis> => {
+  const parsed = parseObject(raw);
+  if (!parsed.valid) {
+    return parsed;
+  }
+
+  const errors: string[] = [];
+  const answer = field(parsed.value.answer, isNonEmptyString, '"answer" must be a non-empty string', errors);
+  const assessment = readAssessment(parsed.value, knownReferenceIds, errors);
+  return answer === undefined || assessment === null
+    ? { valid: false, errors }
+    : { valid: true, value: { answer: answer.trim(), ...assessment } };
+};
+
+export const parseStructuredAssessment = (raw: string, knownReferenceIds: string[]): ParseResult<StructuredAssessment> => {
+  const parsed = parseObject(raw);
+  if (!parsed.valid) {
+    return parsed;
+  }
+
+  const errors: string[] = [];
+  const assessment = readAssessment(parsed.value, knownReferenceIds, errors);
+  return assessment ? { valid: true, value: assessment } : { valid: false, errors };
+};
@@ -0,0 +1,119 @@
+import { AssetType, Instrument } from '../types';
+import { cache } from './cache';
+import { ProviderFailure } from './quotes';
+import {
+  INSTRUMENTS,
+  SymbolLookupUnavailableError,
+  SymbolSearchProvider,
+  createSymbolSearchProviders,
+  findInstrument
+} from './symbols';
+import logger from '../utils/logger';
+
+export interface SymbolSearchResult {
+  instruments: Instrument[];
+  // Search providers that could not be reached; their results are missing
+  failures: ProviderFailure[];
+}
+
+// Catalog match quality: lower is better, null is no match
+const catalogRank = (instrument: Instrument, needle: string): number | null => {
+  const symbol = instrument.symbol.toLowerCase();
+  const name = instrument.name.toLowerCase();
+  const checks = [
+    symbol === needle,
+    name === needle || instrument.providerIds.coinGecko === needle,
+    symbol.startsWith(needle),
+    name.split(/\s+/).some(word => word.startsWith(needle)),
+    name.includes(needle)
+  ];
+  const rank = checks.indexOf(true);
+  return rank === -1 ? null : rank;
+};
+
+// Same instrument from the catalog and a search provider collapses to one entry
+const identity = (instrument: Instrument): string =>
+  `${instrument.type}:${instrument.providerIds.coinGecko || instrument.providerIds.finnhub || instrument.symbol}`;
+
+// Maps what users type ("BTC", "Bitcoin", "bitcoin", "aapl") onto one instrument, checking
+// the built-in catalog first and the search providers after that.
+class SymbolResolver {
+  private providers: SymbolSearchProvider[];
+
+  constructor(providers: SymbolSearchProvider[] = createSymbolSearchProviders()) {
+    this.providers = providers;
+  }
+
+  async search(query: string, type?: AssetType, limit: number = 10): Promise<SymbolSearchResult> {
+    const needle = query.trim().toLowerCase();
+    const catalogMatches = INSTRUMENTS
+      .filter(instrument => !type || instrument.type === type)
+      .map(instrument => ({ instrument, rank: catalogRank(instrument, needle) }))
+      .filter((match): match is { instrument: Instrument; rank: number } => match.rank !== null)
+      .sort((a, b) => a.rank - b.rank)
+      .map(match => match.instrument);
+
+    const { results, failures } = await this.searchProviders(query.trim(), type);
+
+    const seen = new Set<string>();
+    const instruments = [...catalogMatches, ...results].filter(instrument => {
+      const key = identity(instrument);
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+
+    return { instruments: instruments.slice(0, limit), failures };
+  }
+
+  // Resolves to null for symbols no source knows. Throws SymbolLookupUnavailableError
+  // when the symbol isn't in the catalog and a search provider could not be reached.
+  async resolve(input: string, type?: AssetType): Promise<Instrument | null> {
+    const query = input.trim().replace(/^\$/, '');
+    if (!query) {
+      return null;
+    }
+
+    const known = findInstrument(query, type);
+    if (known) {
+      return known;
+    }
+
+    const needle = query.toLowerCase();
+    const { results, failures } = await this.searchProviders(query, type);
+    const match = results.find(instrument =>
+      instrument.symbol.toLowerCase() === needle ||
+      instrument.providerIds.coinGecko === needle ||
+      instrument.name.toLowerCase() === needle
+    );
+
+    if (match) {
+      return match;
+    }
+    if (failures.length > 0) {
+      throw new SymbolLookupUnavailableError(query, failures);
+    }
+    return null;
+  }
+
+  private async searchProviders(query: string, type?: AssetType): Promise<{ results: Instrument[]; failures: ProviderFailure[] }> {
+    const providers = this.providers.filter(provider => !type || provider.type === type);
+    const failures: ProviderFailure[] = [];
+
+    const settled = await Promise.all(providers.map(async provider => {
+      try {
+        return await cache.getOrLoad('symbols', `${provider.name}:${query.toLowerCase()}`, () => provider.search(query));
+      } catch (error: any) {
+        logger.warn(`Symbol search via ${provider.name} failed for "${query}": ${error.message}`);
+        failures.push({ provider: provider.name, error: error.message });
+        return [];
+      }
+    }));
+
+    return { results: settled.flat(), failures };
+  }
+}
+
+export default SymbolResolver;
@@ -0,0 +1,80 @@
+import { AssetType, Instrument } from '../../types';
+
+const stock = (symbol: string, name: string, exchange: string): Instrument => ({
+  symbol,
+  name,
+  type: 'stock',
+  exchange,
+  providerIds: { finnhub: symbol }
+});
+
+const coin = (symbol: string, name: string, coinGeckoId: string): Instrument => ({
+  symbol,
+  name,
+  type: 'crypto',
+  exchange: null,
+  providerIds: { coinGecko: coinGeckoId }
+});
+
+// Widely held instruments resolved without a network call. Anything else is
+// looked up through the search providers.
+export const INSTRUMENTS: Instrument[] = [
+  stock('AAPL', 'Apple Inc.', 'NASDAQ'),
+  stock('MSFT', 'Microsoft Corporation', 'NASDAQ'),
+  stock('GOOGL', 'Alphabet Inc. Class A', 'NASDAQ'),
+  stock('GOOG', 'Alphabet Inc. Class C', 'NASDAQ'),
+  stock('AMZN', 'Amazon.com Inc.', 'NASDAQ'),
+  stock('META', 'Meta Platforms Inc.', 'NASDAQ'),
+  stock('NVDA', 'NVIDIA Corporation', 'NASDAQ'),
+  stock('TSLA', 'Tesla Inc.', 'NASDAQ'),
+  stock('NFLX', 'Netflix Inc.', 'NASDAQ'),
+  stock('AMD', 'Advanced Micro Devices Inc.', 'NASDAQ'),
+  stock('INTC', 'Intel Corporation', 'NASDAQ'),
+  stock('ADBE', 'Adobe Inc.', 'NASDAQ'),
+  stock('PYPL', 'PayPal Holdings Inc.', 'NASDAQ'),
+  stock('COIN', 'Coinbase Global Inc.', 'NASDAQ'),
+  stock('PEP', 'PepsiCo Inc.', 'NASDAQ'),
+  stock('QQQ', 'Invesco QQQ Trust', 'NASDAQ'),
+  stock('JPM', 'JPMorgan Chase & Co.', 'NYSE'),
+  stock('BAC', 'Bank of America Corporation', 'NYSE'),
+  stock('V', 'Visa Inc.', 'NYSE'),
+  stock('MA', 'Mastercard Incorporated', 'NYSE'),
+  stock('JNJ', 'Johnson & Johnson', 'NYSE'),
+  stock('UNH', 'UnitedHealth Group Incorporated', 'NYSE'),
+  stock('WMT', 'Walmart Inc.', 'NYSE'),
+  stock('PG', 'Procter & Gamble Company', 'NYSE'),
+  stock('KO', 'Coca-Cola Company', 'NYSE'),
+  stock('XOM', 'Exxon Mobil Corporation', 'NYSE'),
+  stock('HD', 'Home Depot Inc.', 'NYSE'),
+  stock('DIS', 'Walt Disney Company', 'NYSE'),
+  stock('ORCL', 'Oracle Corporation', 'NYSE'),
+  stock('CRM', 'Salesforce Inc.', 'NYSE'),
+  stock('SPY', 'SPDR S&P 500 ETF Trust', 'NYSE Arca'),
+  stock('VOO', 'Vanguard S&P 500 ETF', 'NYSE Arca'),
+  coin('BTC', 'Bitcoin', 'bitcoin'),
+  coin('ETH', 'Ethereum', 'ethereum'),
+  coin('SOL', 'Solana', 'solana'),
+  coin('ADA', 'Cardano', 'cardano'),
+  coin('DOT', 'Polkadot', 'polkadot'),
+  coin('LINK', 'Chainlink', 'chainlink'),
+  coin('MATIC', 'Polygon', 'matic-network'),
+  coin('XRP', 'XRP', 'ripple'),
+  coin('DOGE', 'Dogecoin', 'dogecoin'),
+  coin('LTC', 'Litecoin', 'litecoin'),
+  coin('BNB', 'BNB', 'binancecoin'),
+  coin('AVAX', 'Avalanche', 'avalanche-2'),
+  coin('USDT', 'Tether', 'tether'),
+  coin('USDC', 'USD Coin', 'usd-coin')
+];
+
+// Exact match on ticker, name or provider id, case-insensitive
+export const findInstrument = (input: string, type?: AssetType): Instrument | null => {
+  const needle = input.toLowerCase();
+  return INSTRUMENTS.find(instrument =>
+    (!type || instrument.type === type) && (
+      instrument.symbol.toLowerCase() === needle ||
+      instrument.name.toLowerCase() === needle ||
+      instrument.providerIds.coinGecko === needle
+    )
+  ) || null;
+};
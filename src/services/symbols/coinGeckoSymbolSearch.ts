@@ -0,0 +1,29 @@
+import axios from 'axios';
+import { Instrument } from '../../types';
+import { SymbolSearchProvider } from './symbolSearchProvider';
+
+class CoinGeckoSymbolSearch implements SymbolSearchProvider {
+  readonly name = 'CoinGecko';
+  readonly type = 'crypto' as const;
+
+  async search(query: string): Promise<Instrument[]> {
+    const response = await axios.get('https://api.coingecko.com/api/v3/search', {
+      params: { query },
+      timeout: 10000
+    });
+
+    // CoinGecko orders coins by market cap, so copycat tokens sharing a ticker rank below the original
+    const coins: any[] = response.data?.coins || [];
+    return coins
+      .filter(coin => typeof coin.id === 'string' && typeof coin.symbol === 'string')
+      .map(coin => ({
+        symbol: coin.symbol.toUpperCase(),
+        name: coin.name || coin.id,
+        type: 'crypto',
+        exchange: null,
+        providerIds: { coinGecko: coin.id }
+      }));
+  }
+}
+
+export default CoinGeckoSymbolSearch;
@@ -0,0 +1,38 @@
+import axios from 'axios';
+import { Instrument } from '../../types';
+import { SymbolSearchProvider } from './symbolSearchProvider';
+
+class FinnhubSymbolSearch implements SymbolSearchProvider {
+  readonly name = 'Finnhub';
+  readonly type = 'stock' as const;
+  private baseUrl = 'https://finnhub.io/api/v1';
+  private apiKey: string;
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+  }
+
+  async search(query: string): Promise<Instrument[]> {
+    const response = await axios.get(`${this.baseUrl}/search`, {
+      params: {
+        q: query,
+        token: this.apiKey || 'demo'
+      },
+      timeout: 10000
+    });
+
+    const results: any[] = response.data?.result || [];
+    return results
+      .filter(result => typeof result.symbol === 'string' && result.symbol.length > 0)
+      .map(result => ({
+        symbol: result.displaySymbol || result.symbol,
+        name: result.description || result.symbol,
+        type: 'stock',
+        // Finnhub's search doesn't report the listing venue
+        exchange: null,
+        providerIds: { finnhub: result.symbol }
+      }));
+  }
+}
+
+export default FinnhubSymbolSearch;
@@ -0,0 +1,11 @@
+import FinnhubSymbolSearch from './finnhubSymbolSearch';
+import CoinGeckoSymbolSearch from './coinGeckoSymbolSearch';
+import { SymbolSearchProvider } from './symbolSearchProvider';
+
+export * from './symbolSearchProvider';
+export { INSTRUMENTS, findInstrument } from './catalog';
+
+export const createSymbolSearchProviders = (): SymbolSearchProvider[] => [
+  new FinnhubSymbolSearch(process.env.FINNHUB_API_KEY || ''),
+  new CoinGeckoSymbolSearch()
+];
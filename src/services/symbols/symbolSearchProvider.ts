@@ -0,0 +1,28 @@
+import { AssetType, Instrument } from '../../types';
+import { ProviderFailure } from '../quotes';
+
+export interface SymbolSearchProvider {
+  readonly name: string;
+  readonly type: AssetType;
+  // Results in the provider's relevance order
+  search(query: string): Promise<Instrument[]>;
+}
+
+// Thrown when a symbol is not in the catalog and every search provider failed,
+// so "unknown" cannot be told apart from "could not check"
+export class SymbolLookupUnavailableError extends Error {
+  failures: ProviderFailure[];
+
+  constructor(symbol: string, failures: ProviderFailure[]) {
+    super(`Symbol lookup unavailable for ${symbol}`);
+    this.name = 'SymbolLookupUnavailableError';
+    this.failures = failures;
+  }
+}
+
+export class UnknownSymbolError extends Error {
+  constructor(symbol: string) {
+    super(`Unknown symbol: ${symbol}`);
+    this.name = 'UnknownSymbolError';
+  }
+}
@@ -0,0 +1,121 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { UsageEntry } from '../types';
+import logger from '../utils/logger';
+
+// Usage is kept as daily aggregates rather than one record per call
+export interface UsageRepository {
+  // Adds the counts to the entry for the same day, user, key and model
+  add(entry: UsageEntry): Promise<void>;
+  // Entries for days from..to (YYYY-MM-DD, inclusive), optionally for one user
+  list(from: string, to: string, userId?: string): Promise<UsageEntry[]>;
+}
+
+const entryKey = (entry: UsageEntry): string => [entry.day, entry.userId, entry.apiKeyId ?? '', entry.model].join('\u0000');
+
+const merge = (target: UsageEntry, entry: UsageEntry): void => {
+  target.requests += entry.requests;
+  target.promptTokens += entry.promptTokens;
+  target.completionTokens += entry.completionTokens;
+  target.cost += entry.cost;
+};
+
+export class InMemoryUsageRepository implements UsageRepository {
+  private entries = new Map<string, UsageEntry>();
+
+  async add(entry: UsageEntry): Promise<void> {
+    const existing = this.entries.get(entryKey(entry));
+    if (existing) {
+      merge(existing, entry);
+    } else {
+      this.entries.set(entryKey(entry), { ...entry });
+    }
+  }
+
+  async list(from: string, to: string, userId?: string): Promise<UsageEntry[]> {
+    return Array.from(this.entries.values())
+      .filter(entry => entry.day >= from && entry.day <= to && (userId === undefined || entry.userId === userId))
+      .map(entry => ({ ...entry }));
+  }
+}
+
+// Stores one JSON document per day under the given directory. Writes from this process
+// are serialized; several instances must not share a directory.
+export class FileUsageRepository implements UsageRepository {
+  private directory: string;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  add(entry: UsageEntry): Promise<void> {
+    const write = this.writes.then(async () => {
+      const entries = await this.readDay(entry.day);
+      const existing = entries.find(candidate => entryKey(candidate) === entryKey(entry));
+      if (existing) {
+        merge(existing, entry);
+      } else {
+        entries.push({ ...entry });
+      }
+      await this.writeDay(entry.day, entries);
+    });
+    // A failed write is reported to its caller without blocking the ones queued after it
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  async list(from: string, to: string, userId?: string): Promise<UsageEntry[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const days = files
+      .filter(file => /^\d{4}-\d{2}-\d{2}\.json$/.test(file))
+      .map(file => path.basename(file, '.json'))
+      .filter(day => day >= from && day <= to);
+
+    const entries = (await Promise.all(days.map(day => this.readDay(day)))).flat();
+    return entries.filter(entry => userId === undefined || entry.userId === userId);
+  }
+
+  private async readDay(day: string): Promise<UsageEntry[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(day), 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async writeDay(day: string, entries: UsageEntry[]): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write to a temp file first so a crash never leaves a truncated day
+    const target = this.filePath(day);
+    const tmp = `${target}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(entries), 'utf8');
+    await fs.rename(tmp, target);
+  }
+
+  private filePath(day: string): string {
+    return path.join(this.directory, `${path.basename(day)}.json`);
+  }
+}
+
+export const createUsageRepository = (): UsageRepository => {
+  if (process.env.USAGE_STORE === 'file') {
+    const directory = process.env.USAGE_STORE_DIR || 'data/usage';
+    logger.info(`Using file usage repository at ${directory}`);
+    return new FileUsageRepository(directory);
+  }
+  return new InMemoryUsageRepository();
+};
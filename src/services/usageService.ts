@@ -0,0 +1,230 @@
+import { UsageBucket, UsageBudget, UsageEntry, UsageReport, UsageTotals } from '../types';
+import { LLMUsage } from './llm/llmProvider';
+import { UsageRepository, createUsageRepository } from './usageRepository';
+import { ANONYMOUS_USER_ID, RequestCaller } from '../utils/requestContext';
+import logger from '../utils/logger';
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface UsageQuery {
+  granularity: 'day' | 'month';
+  // YYYY-MM-DD, inclusive
+  from: string;
+  to: string;
+  userId?: string;
+  apiKeyId?: string;
+}
+
+export interface BudgetConfig {
+  userMonthlyLimit: number | null;
+  totalMonthlyLimit: number | null;
+  action: 'reject' | 'downgrade';
+  downgradeModel: string | null;
+}
+
+// List prices at the time of writing; LLM_PRICING overrides or extends them
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 }
+};
+
+const loadPrices = (): Record<string, ModelPrice> => {
+  if (!process.env.LLM_PRICING) {
+    return DEFAULT_PRICES;
+  }
+  try {
+    return { ...DEFAULT_PRICES, ...JSON.parse(process.env.LLM_PRICING) };
+  } catch (error: any) {
+    logger.error(`Ignoring invalid LLM_PRICING: ${error.message}`);
+    return DEFAULT_PRICES;
+  }
+};
+
+const loadBudgets = (): BudgetConfig => {
+  const limit = (value: string | undefined): number | null => (parseFloat(value || '') > 0 ? parseFloat(value as string) : null);
+  return {
+    userMonthlyLimit: limit(process.env.LLM_USER_MONTHLY_BUDGET_USD),
+    totalMonthlyLimit: limit(process.env.LLM_MONTHLY_BUDGET_USD),
+    action: process.env.LLM_BUDGET_ACTION === 'downgrade' ? 'downgrade' : 'reject',
+    downgradeModel: process.env.LLM_DOWNGRADE_MODEL || null
+  };
+};
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 });
+
+const addTo = (totals: UsageTotals, entry: UsageEntry): void => {
+  totals.requests += entry.requests;
+  totals.promptTokens += entry.promptTokens;
+  totals.completionTokens += entry.completionTokens;
+  totals.totalTokens += entry.promptTokens + entry.completionTokens;
+  totals.cost += entry.cost;
+};
+
+const roundCost = (cost: number): number => Math.round(cost * 1e6) / 1e6;
+
+const roundTotals = <T extends UsageTotals>(totals: T): T => ({ ...totals, cost: roundCost(totals.cost) });
+
+const today = (): string => new Date().toISOString().slice(0, 10);
+
+const startOfNextMonth = (): Date => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+};
+
+export class BudgetExceededError extends Error {
+  readonly budget: UsageBudget;
+  readonly resetsAt: Date;
+
+  constructor(budget: UsageBudget) {
+    super(budget.scope === 'user' ? 'Monthly LLM budget exceeded for this user' : 'Monthly LLM budget exceeded');
+    this.name = 'BudgetExceededError';
+    this.budget = budget;
+    this.resetsAt = startOfNextMonth();
+  }
+}
+
+// Records LLM token usage with an estimated cost and enforces monthly budgets per user
+// (LLM_USER_MONTHLY_BUDGET_USD) and for the whole deployment (LLM_MONTHLY_BUDGET_USD).
+// Once a budget is spent, calls are rejected or moved to LLM_DOWNGRADE_MODEL.
+class UsageService {
+  private repository: UsageRepository;
+  private prices: Record<string, ModelPrice>;
+  private budgets: BudgetConfig;
+  private unpricedModels = new Set<string>();
+
+  constructor(
+    repository: UsageRepository = createUsageRepository(),
+    prices: Record<string, ModelPrice> = loadPrices(),
+    budgets: BudgetConfig = loadBudgets()
+  ) {
+    this.repository = repository;
+    this.prices = prices;
+    this.budgets = budgets;
+
+    if (budgets.action === 'downgrade' && !budgets.downgradeModel) {
+      logger.warn('LLM_BUDGET_ACTION is downgrade but LLM_DOWNGRADE_MODEL is not set; over-budget calls will be rejected');
+    }
+  }
+
+  // The model the caller's next call should use, given the budgets already spent
+  async selectModel(caller: RequestCaller, model: string): Promise<string> {
+    const exceeded = (await this.getBudgets(caller.userId ?? ANONYMOUS_USER_ID)).find(budget => budget.remaining <= 0);
+    if (!exceeded) {
+      return model;
+    }
+
+    const { action, downgradeModel } = this.budgets;
+    if (action === 'downgrade' && downgradeModel) {
+      if (model !== downgradeModel) {
+        logger.info(`Monthly ${exceeded.scope} LLM budget spent, using ${downgradeModel} instead of ${model}`);
+      }
+      return downgradeModel;
+    }
+    throw new BudgetExceededError(exceeded);
+  }
+
+  async record(caller: RequestCaller, model: string, usage: LLMUsage): Promise<void> {
+    await this.repository.add({
+      day: today(),
+      userId: caller.userId ?? ANONYMOUS_USER_ID,
+      apiKeyId: caller.apiKeyId ?? null,
+      model,
+      requests: 1,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      cost: this.estimateCost(model, usage)
+    });
+  }
+
+  // Current-month budgets that apply to a user; without one only the total budget
+  async getBudgets(userId?: string): Promise<UsageBudget[]> {
+    const { userMonthlyLimit, totalMonthlyLimit, action } = this.budgets;
+    const wantsUser = userMonthlyLimit !== null && userId !== undefined;
+    if (!wantsUser && totalMonthlyLimit === null) {
+      return [];
+    }
+
+    const to = today();
+    const entries = await this.repository.list(`${to.slice(0, 7)}-01`, to);
+    const spent = (filter: (entry: UsageEntry) => boolean): number =>
+      entries.filter(filter).reduce((sum, entry) => sum + entry.cost, 0);
+
+    const budgets: UsageBudget[] = [];
+    if (wantsUser) {
+      budgets.push({ scope: 'user', limit: userMonthlyLimit, spent: spent(entry => entry.userId === userId), remaining: 0, action });
+    }
+    if (totalMonthlyLimit !== null) {
+      budgets.push({ scope: 'total', limit: totalMonthlyLimit, spent: spent(() => true), remaining: 0, action });
+    }
+    return budgets.map(budget => ({
+      ...budget,
+      spent: roundCost(budget.spent),
+      remaining: roundCost(Math.max(budget.limit - budget.spent, 0))
+    }));
+  }
+
+  async getReport(query: UsageQuery): Promise<UsageReport> {
+    const entries = (await this.repository.list(query.from, query.to, query.userId))
+      .filter(entry => query.apiKeyId === undefined || entry.apiKeyId === query.apiKeyId);
+
+    const totals = emptyTotals();
+    const buckets = new Map<string, UsageBucket>();
+    for (const entry of entries) {
+      const period = query.granularity === 'month' ? entry.day.slice(0, 7) : entry.day;
+      let bucket = buckets.get(period);
+      if (!bucket) {
+        bucket = { period, ...emptyTotals(), models: {} };
+        buckets.set(period, bucket);
+      }
+      bucket.models[entry.model] = bucket.models[entry.model] || emptyTotals();
+      addTo(bucket.models[entry.model], entry);
+      addTo(bucket, entry);
+      addTo(totals, entry);
+    }
+
+    return {
+      granularity: query.granularity,
+      from: query.from,
+      to: query.to,
+      userId: query.userId ?? null,
+      totals: roundTotals(totals),
+      buckets: Array.from(buckets.values())
+        .sort((a, b) => a.period.localeCompare(b.period))
+        .map(bucket => ({
+          ...roundTotals(bucket),
+          models: Object.fromEntries(Object.entries(bucket.models).map(([model, modelTotals]) => [model, roundTotals(modelTotals)]))
+        })),
+      budgets: await this.getBudgets(query.userId)
+    };
+  }
+
+  // Providers report dated model names (gpt-4o-2024-08-06), so the longest matching
+  // price prefix wins. Unpriced models (e.g. self-hosted ones) cost nothing.
+  private estimateCost(model: string, usage: LLMUsage): number {
+    const match = Object.keys(this.prices)
+      .filter(name => model === name || model.startsWith(`${name}-`))
+      .sort((a, b) => b.length - a.length)[0];
+
+    if (!match) {
+      if (!this.unpricedModels.has(model)) {
+        this.unpricedModels.add(model);
+        logger.warn(`No price configured for model ${model}; its usage is recorded at no cost`);
+      }
+      return 0;
+    }
+
+    const price = this.prices[match];
+    return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1e6;
+  }
+}
+
+export const usageService = new UsageService();
+
+export default UsageService;
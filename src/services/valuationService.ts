@@ -0,0 +1,112 @@
+import { AssetType, Holding, HoldingValuation, MarketData, PortfolioValuation } from '../types';
+import MarketDataService from './marketDataService';
+import SymbolResolver from './symbolResolver';
+import FxService from './fxService';
+import { UnknownSymbolError } from './symbols';
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+const percentOf = (part: number, whole: number): number | null =>
+  whole > 0 ? Math.round((part / whole) * 10000) / 100 : null;
+
+// Prices sets of holdings for stored portfolios and for holdings sent with an analysis request
+class ValuationService {
+  private marketDataService: MarketDataService;
+  private symbolResolver: SymbolResolver;
+  private fxService: FxService;
+
+  constructor(
+    marketDataService: MarketDataService = new MarketDataService(),
+    symbolResolver: SymbolResolver = new SymbolResolver(),
+    fxService: FxService = new FxService()
+  ) {
+    this.marketDataService = marketDataService;
+    this.symbolResolver = symbolResolver;
+    this.fxService = fxService;
+  }
+
+  // Prices every holding in the given currency. Holdings that cannot be priced are reported
+  // in `errors` and left out of the totals rather than failing the whole valuation.
+  async valueHoldings(holdings: (Holding & { id?: string })[], currency: string): Promise<PortfolioValuation> {
+    // Lookups start in the same tick so MarketDataService batches crypto quotes
+    const quotes = await Promise.allSettled(holdings.map(holding => this.priceHolding(holding, currency)));
+
+    const errors: Record<string, string> = {};
+    const priced: { holding: Holding & { id?: string }; quote: MarketData }[] = [];
+    quotes.forEach((result, i) => {
+      const holding = holdings[i];
+      if (result.status === 'fulfilled') {
+        priced.push({ holding, quote: result.value });
+      } else {
+        errors[holding.id || holding.symbol] = result.reason?.message || 'Failed to price holding';
+      }
+    });
+
+    const totalValue = priced.reduce((sum, { holding, quote }) => sum + holding.quantity * quote.price, 0);
+    const allocation: PortfolioValuation['allocation'] = {
+      stock: { value: 0, weight: 0 },
+      crypto: { value: 0, weight: 0 }
+    };
+
+    const valuations: HoldingValuation[] = priced.map(({ holding, quote }) => {
+      const marketValue = holding.quantity * quote.price;
+      // Derived from the percent move because some providers report no absolute change
+      const dailyChange = marketValue - marketValue / (1 + quote.changePercent / 100);
+      allocation[holding.type].value += marketValue;
+
+      return {
+        ...(holding.id && { positionId: holding.id }),
+        // The quote carries the resolved ticker, so ad-hoc holdings like "bitcoin" report as BTC
+        symbol: quote.symbol,
+        type: holding.type,
+        quantity: holding.quantity,
+        costBasis: holding.costBasis,
+        price: quote.price,
+        marketValue: roundMoney(marketValue),
+        unrealizedPnL: roundMoney(marketValue - holding.costBasis),
+        unrealizedPnLPercent: percentOf(marketValue - holding.costBasis, holding.costBasis),
+        dailyChange: roundMoney(dailyChange),
+        weight: totalValue > 0 ? Math.round((marketValue / totalValue) * 10000) / 10000 : 0,
+        isSimulated: quote.isSimulated
+      };
+    });
+
+    for (const type of Object.keys(allocation) as AssetType[]) {
+      const slice = allocation[type];
+      slice.weight = totalValue > 0 ? Math.round((slice.value / totalValue) * 10000) / 10000 : 0;
+      slice.value = roundMoney(slice.value);
+    }
+
+    const totalCost = priced.reduce((sum, { holding }) => sum + holding.costBasis, 0);
+    const dailyChange = valuations.reduce((sum, valuation) => sum + valuation.dailyChange, 0);
+
+    return {
+      currency,
+      totalValue: roundMoney(totalValue),
+      totalCost: roundMoney(totalCost),
+      unrealizedPnL: roundMoney(totalValue - totalCost),
+      unrealizedPnLPercent: percentOf(totalValue - totalCost, totalCost),
+      dailyChange: roundMoney(dailyChange),
+      dailyChangePercent: percentOf(dailyChange, totalValue - dailyChange),
+      holdings: valuations,
+      allocation,
+      errors,
+      isSimulated: valuations.some(valuation => valuation.isSimulated),
+      valuedAt: new Date()
+    };
+  }
+
+  private async priceHolding(holding: Holding, currency: string): Promise<MarketData> {
+    const instrument = await this.symbolResolver.resolve(holding.symbol, holding.type);
+    if (!instrument) {
+      throw new UnknownSymbolError(holding.symbol);
+    }
+
+    const quote = await this.marketDataService.getQuote(instrument);
+    if (!quote) {
+      throw new Error(`No data found for symbol: ${holding.symbol}`);
+    }
+    return this.fxService.convertQuote(quote, currency);
+  }
+}
+
+export default ValuationService;
@@ -0,0 +1,17 @@
+import { Watchlist } from '../types';
+import { JsonDocumentStore, createJsonDocumentStore } from './jsonDocumentStore';
+
+export type WatchlistRepository = JsonDocumentStore<Watchlist>;
+
+const reviveWatchlist = (data: any): Watchlist => ({
+  ...data,
+  createdAt: new Date(data.createdAt),
+  updatedAt: new Date(data.updatedAt)
+});
+
+export const createWatchlistRepository = (): WatchlistRepository => createJsonDocumentStore({
+  label: 'watchlist repository',
+  envPrefix: 'WATCHLIST',
+  defaultDirectory: 'data/watchlists',
+  revive: reviveWatchlist
+});
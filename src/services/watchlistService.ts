@@ -0,0 +1,243 @@
+import { randomUUID } from 'crypto';
+import { DigestHeadline, Instrument, MarketData, Watchlist, WatchlistDigest, WatchlistItem } from '../types';
+import MarketDataService from './marketDataService';
+import NewsService from './newsService';
+import SymbolResolver from './symbolResolver';
+import FxService from './fxService';
+import OpenAIService from './openaiService';
+import { dataService } from './dataService';
+import { VectorData } from './retrieval';
+import { UnknownSymbolError } from './symbols';
+import { WatchlistRepository, createWatchlistRepository } from './watchlistRepository';
+import { mentionPatterns } from '../utils/instrumentMentions';
+import logger from '../utils/logger';
+
+export interface WatchlistInput {
+  userId: string;
+  name: string;
+  symbols: WatchlistItem[];
+}
+
+export type WatchlistChanges = Partial<Pick<WatchlistInput, 'name' | 'symbols'>>;
+
+export interface DigestOptions {
+  currency: string;
+  headlineLimit: number;
+  summary: boolean;
+}
+
+// Feed items scanned for watchlist mentions
+const FEED_SCAN_LIMIT = 50;
+// Data-service news records requested per symbol
+const DATA_SERVICE_NEWS_PER_SYMBOL = 5;
+
+class WatchlistService {
+  private repository: WatchlistRepository;
+  private marketDataService: MarketDataService;
+  private newsService: NewsService;
+  private symbolResolver: SymbolResolver;
+  private fxService: FxService;
+  private openaiService: OpenAIService;
+
+  constructor(
+    repository: WatchlistRepository = createWatchlistRepository(),
+    marketDataService: MarketDataService = new MarketDataService(),
+    newsService: NewsService = new NewsService(),
+    symbolResolver: SymbolResolver = new SymbolResolver(),
+    fxService: FxService = new FxService(),
+    openaiService: OpenAIService = new OpenAIService()
+  ) {
+    this.repository = repository;
+    this.marketDataService = marketDataService;
+    this.newsService = newsService;
+    this.symbolResolver = symbolResolver;
+    this.fxService = fxService;
+    this.openaiService = openaiService;
+  }
+
+  async createWatchlist(input: WatchlistInput): Promise<Watchlist> {
+    const now = new Date();
+    const watchlist: Watchlist = {
+      id: randomUUID(),
+      userId: input.userId,
+      name: input.name,
+      symbols: await this.resolveItems(input.symbols),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.repository.save(watchlist);
+    return watchlist;
+  }
+
+  async listWatchlists(userId?: string): Promise<Watchlist[]> {
+    return this.repository.list(userId);
+  }
+
+  // With an owner, watchlists of other users are treated as missing
+  async getWatchlist(id: string, owner?: string): Promise<Watchlist | null> {
+    const watchlist = await this.repository.get(id);
+    return watchlist && (owner === undefined || watchlist.userId === owner) ? watchlist : null;
+  }
+
+  // A symbols list replaces the current one
+  async updateWatchlist(id: string, changes: WatchlistChanges, owner?: string): Promise<Watchlist | null> {
+    const watchlist = await this.getWatchlist(id, owner);
+    if (!watchlist) {
+      return null;
+    }
+
+    if (changes.name !== undefined) {
+      watchlist.name = changes.name;
+    }
+    if (changes.symbols !== undefined) {
+      watchlist.symbols = await this.resolveItems(changes.symbols);
+    }
+    watchlist.updatedAt = new Date();
+    await this.repository.save(watchlist);
+    return watchlist;
+  }
+
+  async deleteWatchlist(id: string, owner?: string): Promise<boolean> {
+    return await this.getWatchlist(id, owner) !== null && this.repository.delete(id);
+  }
+
+  // Quotes, matching headlines and an optional summary in one response. Symbols that
+  // can't be quoted are reported in `errors` instead of failing the digest.
+  async getDigest(id: string, options: DigestOptions, owner?: string): Promise<WatchlistDigest | null> {
+    const watchlist = await this.getWatchlist(id, owner);
+    if (!watchlist) {
+      return null;
+    }
+
+    const errors: Record<string, string> = {};
+    const instruments: Instrument[] = [];
+    const quotes: MarketData[] = [];
+
+    // Lookups start in the same tick so MarketDataService batches crypto quotes
+    const settled = await Promise.allSettled(watchlist.symbols.map(item => this.quoteItem(item, options.currency)));
+    settled.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        instruments.push(result.value.instrument);
+        quotes.push(result.value.quote);
+      } else {
+        errors[watchlist.symbols[i].symbol] = result.reason?.message || 'Failed to quote symbol';
+      }
+    });
+
+    const digest: WatchlistDigest = {
+      watchlistId: watchlist.id,
+      name: watchlist.name,
+      currency: options.currency,
+      quotes,
+      headlines: await this.gatherHeadlines(instruments, options.headlineLimit),
+      errors,
+      summary: null,
+      isSimulated: quotes.some(quote => quote.isSimulated),
+      generatedAt: new Date()
+    };
+
+    if (options.summary) {
+      try {
+        digest.summary = await this.openaiService.summarizeDigest(digest);
+      } catch (error: any) {
+        logger.warn(`Could not summarize watchlist ${watchlist.id}: ${error.message}`);
+      }
+    }
+
+    return digest;
+  }
+
+  private async resolveItems(items: WatchlistItem[]): Promise<WatchlistItem[]> {
+    const resolved = await Promise.all(items.map(async item => {
+      const instrument = await this.symbolResolver.resolve(item.symbol, item.type);
+      if (!instrument) {
+        throw new UnknownSymbolError(item.symbol);
+      }
+      return { symbol: instrument.symbol, type: instrument.type };
+    }));
+
+    // "bitcoin" and "BTC" in the same request become one entry
+    const seen = new Set<string>();
+    return resolved.filter(item => {
+      const key = `${item.type}:${item.symbol}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private async quoteItem(item: WatchlistItem, currency: string): Promise<{ instrument: Instrument; quote: MarketData }> {
+    const instrument = await this.symbolResolver.resolve(item.symbol, item.type);
+    if (!instrument) {
+      throw new UnknownSymbolError(item.symbol);
+    }
+
+    const quote = await this.marketDataService.getQuote(instrument);
+    if (!quote) {
+      throw new Error(`No data found for symbol: ${item.symbol}`);
+    }
+    return { instrument, quote: await this.fxService.convertQuote(quote, currency) };
+  }
+
+  // Feed headlines that mention a watchlist instrument plus the data service's news
+  // records for each symbol, newest first. Either source may be unavailable.
+  private async gatherHeadlines(instruments: Instrument[], limit: number): Promise<DigestHeadline[]> {
+    if (instruments.length === 0 || limit === 0) {
+      return [];
+    }
+
+    const patterns = instruments.map(instrument => ({ symbol: instrument.symbol, patterns: mentionPatterns(instrument) }));
+    const mentions = (text: string): string[] => patterns
+      .filter(entry => entry.patterns.some(pattern => pattern.test(text)))
+      .map(entry => entry.symbol);
+
+    const [feedItems, symbolRecords] = await Promise.all([
+      this.newsService.getLatestFinancialNews(FEED_SCAN_LIMIT),
+      Promise.all(instruments.map(instrument => dataService
+        .searchBySymbol(instrument.symbol, 'news', DATA_SERVICE_NEWS_PER_SYMBOL)
+        .catch((): VectorData[] => [])))
+    ]);
+
+    const headlines: DigestHeadline[] = feedItems
+      .map(item => ({
+        title: item.title,
+        url: item.url || null,
+        source: item.source,
+        publishedAt: item.publishedAt,
+        symbols: mentions(`${item.title} ${item.description}`)
+      }))
+      .filter(headline => headline.symbols.length > 0);
+
+    symbolRecords.forEach((records, i) => {
+      records.forEach(record => {
+        const title = record.metadata.title || record.content.split('\n')[0].slice(0, 200);
+        headlines.push({
+          title,
+          url: record.metadata.url || null,
+          source: record.metadata.source,
+          publishedAt: new Date(record.metadata.timestamp),
+          symbols: Array.from(new Set([instruments[i].symbol, ...mentions(record.content)]))
+        });
+      });
+    });
+
+    // The same story often arrives from both sources
+    const seen = new Set<string>();
+    return headlines
+      .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime())
+      .filter(headline => {
+        const key = headline.url || headline.title.toLowerCase();
+        if (seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      })
+      .slice(0, limit);
+  }
+}
+
+export default WatchlistService;
@@ -0,0 +1,131 @@
+import axios from 'axios';
+import http from 'http';
+import https from 'https';
+import { createHmac } from 'crypto';
+import { AlertDelivery } from '../types';
+import { BlockedAddressError, assertPublicHost, isPublicHostname, publicOnlyLookup } from '../utils/publicAddress';
+import logger from '../utils/logger';
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+// What alert owners see; the upstream status and error are only logged, so a webhook URL
+// can't be used to learn how a host responds
+const DELIVERY_FAILED = 'Delivery failed';
+const DESTINATION_BLOCKED = 'Webhook destination is not a public address';
+
+const httpAgent = new http.Agent({ lookup: publicOnlyLookup });
+const httpsAgent = new https.Agent({ lookup: publicOnlyLookup });
+
+export class WebhookTargetError extends Error {
+  constructor(url: string, reason: string) {
+    super(`webhookUrl ${url} is not allowed: ${reason}`);
+    this.name = 'WebhookTargetError';
+  }
+}
+
+// Webhooks may only point at public hosts, so alerts can't be used to reach internal
+// services. Checked again on every delivery, since DNS can change after creation.
+export const assertWebhookTarget = async (url: string): Promise<void> => {
+  try {
+    await assertPublicHost(new URL(url).hostname);
+  } catch (error: any) {
+    throw new WebhookTargetError(url, error instanceof BlockedAddressError ? error.message : 'its host could not be resolved');
+  }
+};
+
+export const isPublicWebhookUrl = (url: URL): boolean => isPublicHostname(url.hostname);
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+// Receivers verify a delivery by recomputing the HMAC over `${timestamp}.${body}` with the
+// alert's secret and comparing it to X-Webhook-Signature. The timestamp lets them reject replays.
+export const signPayload = (secret: string, timestamp: string, body: string): string =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+// Network errors, timeouts, 429 and 5xx are worth another attempt; other 4xx are not
+const isRetryable = (status: number | null): boolean =>
+  status === null || status === 429 || status >= 500;
+
+class WebhookService {
+  private maxAttempts: number;
+  private baseDelayMs: number;
+
+  constructor() {
+    this.maxAttempts = parseInt(process.env.ALERT_WEBHOOK_MAX_ATTEMPTS || '', 10) || DEFAULT_MAX_ATTEMPTS;
+    this.baseDelayMs = parseInt(process.env.ALERT_WEBHOOK_BASE_DELAY_MS || '', 10) || DEFAULT_BASE_DELAY_MS;
+  }
+
+  // Posts the payload, retrying with exponential backoff (1s, 2s, 4s, ... plus up to 20%
+  // jitter). Never throws; the outcome of the last attempt is returned. onAttempt sees the
+  // delivery state after every attempt so callers can record progress.
+  async deliver(
+    url: string,
+    secret: string,
+    payload: object,
+    onAttempt?: (delivery: AlertDelivery) => Promise<void>
+  ): Promise<AlertDelivery> {
+    const body = JSON.stringify(payload);
+    const delivery: AlertDelivery = { status: 'pending', attempts: 0, lastError: null, deliveredAt: null };
+    const hostname = new URL(url).hostname;
+    let responseStatus: number | null = null;
+    let blockedTarget = false;
+
+    while (delivery.attempts < this.maxAttempts) {
+      if (delivery.attempts > 0) {
+        const delay = Math.min(this.baseDelayMs * 2 ** (delivery.attempts - 1), MAX_DELAY_MS);
+        await sleep(delay + Math.random() * delay * 0.2);
+      }
+
+      delivery.attempts++;
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      let detail: string | null;
+      try {
+        // IP literals never reach the agents' lookup, so they are checked here
+        if (!isPublicHostname(hostname)) {
+          throw new BlockedAddressError(hostname);
+        }
+        const response = await axios.post(url, body, {
+          timeout: REQUEST_TIMEOUT_MS,
+          maxRedirects: 0,
+          proxy: false,
+          httpAgent,
+          httpsAgent,
+          validateStatus: () => true,
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'finsor-alerts/1.0',
+            'X-Webhook-Timestamp': timestamp,
+            'X-Webhook-Signature': signPayload(secret, timestamp, body)
+          }
+        });
+        responseStatus = response.status;
+        detail = response.status >= 200 && response.status < 300 ? null : `HTTP ${response.status}`;
+      } catch (error: any) {
+        responseStatus = null;
+        blockedTarget = error instanceof BlockedAddressError || error.cause instanceof BlockedAddressError;
+        detail = error.message;
+      }
+      delivery.lastError = detail === null ? null : blockedTarget ? DESTINATION_BLOCKED : DELIVERY_FAILED;
+
+      if (delivery.lastError === null) {
+        delivery.status = 'delivered';
+        delivery.deliveredAt = new Date();
+      } else if (blockedTarget || !isRetryable(responseStatus) || delivery.attempts >= this.maxAttempts) {
+        delivery.status = 'failed';
+        logger.warn(`Webhook delivery to ${url} failed after ${delivery.attempts} attempt(s): ${detail}`);
+      }
+
+      await onAttempt?.({ ...delivery });
+      if (delivery.status !== 'pending') {
+        break;
+      }
+    }
+
+    return delivery;
+  }
+}
+
+export default WebhookService;
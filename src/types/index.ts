@@ -1,17 +1,47 @@
 export interface FinancialQuery {
   question: string;
   userId?: string;
+  // ISO 4217 code prices in the answer should be expressed in (default USD)
+  currency?: string;
+  // What the user already owns; priced and summarized into the prompt when present
+  holdings?: Holding[];
 }
 
+export type TimeHorizon = 'short-term' | 'medium-term' | 'long-term';
+
 export interface FinancialAnalysis {
   answer: string;
   confidence: number;
   sources: string[];
   riskLevel: 'low' | 'medium' | 'high';
+  riskRationale: string;
+  citedReferenceIds: string[];
+  recommendedActions: string[];
+  timeHorizon: TimeHorizon | null;
+  // 'structured' when the model returned valid JSON, 'heuristic' when we fell back to keyword scanning
+  assessmentMethod: 'structured' | 'heuristic';
   disclaimer: string;
   references: Reference[];
+  // Only present when holdings were sent with the question
+  concentrationRisks?: ConcentrationRisk[];
+}
+
+// A position or asset class that is, or would become after the trade the question
+// describes, a larger share of the portfolio than the configured threshold. Weights are fractions.
+export interface ConcentrationRisk {
+  scope: 'position' | 'assetClass';
+  subject: string;
+  currentWeight: number;
+  projectedWeight: number | null;
+  threshold: number;
+  message: string;
 }
 
+export type AnalysisStreamEvent =
+  | { type: 'references'; references: Reference[] }
+  | { type: 'token'; content: string }
+  | ({ type: 'done' } & Omit<FinancialAnalysis, 'answer' | 'references'>);
+
 export interface Reference {
   id: string;
   source: string;
@@ -20,6 +50,8 @@ export interface Reference {
   url?: string;
   title?: string;
   symbol?: string;
+  // Set when the referenced data is a simulated placeholder
+  isSimulated?: boolean;
 }
 
 export interface MarketData {
@@ -28,15 +60,427 @@ export interface MarketData {
   change: number;
   changePercent: number;
   timestamp: Date;
+  // ISO 4217 code that price and change are quoted in
+  currency: string;
+  // Name of the quote provider that served this price
+  provider: string;
+  // True for mock prices; these are never served when simulation is disabled
+  isSimulated: boolean;
+}
+
+export interface BatchQuotes {
+  // Keyed by the upper-cased symbol as requested
+  quotes: Record<string, MarketData>;
+  errors: Record<string, string>;
+}
+
+export interface Instrument {
+  // Display ticker, e.g. AAPL or BTC
+  symbol: string;
+  name: string;
+  type: AssetType;
+  exchange: string | null;
+  // Identifiers the upstream APIs expect, e.g. CoinGecko's "bitcoin" for BTC
+  providerIds: {
+    finnhub?: string;
+    coinGecko?: string;
+  };
+}
+
+// Messages on the /ws/prices socket
+export interface PriceStreamRequest {
+  action: 'subscribe' | 'unsubscribe';
+  stocks?: string[];
+  crypto?: string[];
+}
+
+export type PriceStreamMessage =
+  | { type: 'subscriptions'; stocks: string[]; crypto: string[] }
+  | { type: 'quote'; data: MarketData }
+  | { type: 'error'; error: string; symbol?: string };
+
+export type CandleInterval = '1m' | '5m' | '1h' | '1d';
+
+export interface HistoryRange {
+  from: Date;
+  to: Date;
+  interval: CandleInterval;
+}
+
+export interface OHLCV {
+  timestamp: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  // Traded within the candle; null when the provider has no per-interval volume
+  volume: number | null;
+}
+
+export interface PriceHistory {
+  symbol: string;
+  interval: CandleInterval;
+  from: Date;
+  to: Date;
+  candles: OHLCV[];
+  // ISO 4217 code of the OHLC prices
+  currency: string;
+  provider: string;
+  // True when upstreams failed and the candles come from the seeded mock series
+  isSimulated: boolean;
 }
 
+export type AssetType = 'stock' | 'crypto';
+
+export interface TechnicalIndicators {
+  symbol: string;
+  type: AssetType;
+  interval: CandleInterval;
+  // Price-level indicators (moving averages, Bollinger bands, MACD) are in this currency
+  currency: string;
+  isSimulated: boolean;
+  timestamps: Date[];
+  // Indicator name (e.g. "rsi14", "macd") -> line name -> values aligned with timestamps.
+  // Values are null during each indicator's warm-up period.
+  indicators: Record<string, Record<string, (number | null)[]>>;
+}
+
+export type NewsSentiment = 'positive' | 'negative' | 'neutral';
+
 export interface NewsItem {
   title: string;
   description: string;
   url: string;
   source: string;
   publishedAt: Date;
-  sentiment?: 'positive' | 'negative' | 'neutral';
+  sentiment?: NewsSentiment;
+  // -1 (very negative) to 1 (very positive)
+  sentimentScore?: number;
+  // Tickers of the instruments the item mentions by ticker, cashtag or name
+  symbols?: string[];
+  category?: string;
+  region?: string;
+  // The same story as published by other feeds
+  alsoReportedBy?: NewsDuplicate[];
+}
+
+export interface NewsDuplicate {
+  title: string;
+  source: string;
+  url: string;
+  publishedAt: Date;
+}
+
+export interface NewsFeed {
+  id: string;
+  name: string;
+  url: string;
+  category: string;
+  region: string;
+  // When several feeds carry the same story, the highest weight represents it
+  weight: number;
+  enabled: boolean;
+  timeoutMs: number;
+}
+
+export interface NewsFeedHealth {
+  id: string;
+  name: string;
+  url: string;
+  category: string;
+  region: string;
+  enabled: boolean;
+  // pending: not fetched yet; failing: the last fetch failed
+  status: 'ok' | 'failing' | 'pending' | 'disabled';
+  lastAttemptAt: Date | null;
+  lastSuccessAt: Date | null;
+  lastErrorAt: Date | null;
+  lastError: string | null;
+  consecutiveErrors: number;
+  totalErrors: number;
+  totalFetches: number;
+  // Items in the last successful fetch
+  itemCount: number | null;
+  lastDurationMs: number | null;
+}
+
+export interface SymbolSentiment {
+  symbol: string;
+  // Items published within the window that mention the symbol
+  articles: number;
+  positive: number;
+  negative: number;
+  neutral: number;
+  // Mean item score, -1 to 1; null without articles
+  averageScore: number | null;
+  sentiment: NewsSentiment | null;
+  since: Date;
+  headlines: NewsItem[];
+}
+
+export interface NewsSearchHit extends NewsItem {
+  // BM25 relevance; 0 for items matched only by exclusions
+  score: number;
+}
+
+export interface NewsSearchResult {
+  query: string;
+  sort: 'relevance' | 'date';
+  // Matches across all pages
+  total: number;
+  items: NewsSearchHit[];
+  // Pass as ?cursor= for the next page; null on the last page
+  nextCursor: string | null;
+}
+
+export interface ConversationTurn {
+  id: string;
+  question: string;
+  answer: string;
+  riskLevel: FinancialAnalysis['riskLevel'];
+  confidence: number;
+  sources: string[];
+  references: Reference[];
+  createdAt: Date;
+}
+
+export interface Conversation {
+  id: string;
+  userId?: string;
+  turns: ConversationTurn[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Holding {
+  symbol: string;
+  type: AssetType;
+  quantity: number;
+  // Total amount paid for the holding, in the portfolio currency
+  costBasis: number;
+}
+
+export interface Position extends Holding {
+  id: string;
+  acquiredAt: Date;
+}
+
+export interface Portfolio {
+  id: string;
+  userId?: string;
+  name: string;
+  // ISO 4217 code for cost basis and valuation; fixed at creation
+  currency: string;
+  positions: Position[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface HoldingValuation extends Holding {
+  positionId?: string;
+  price: number;
+  marketValue: number;
+  unrealizedPnL: number;
+  unrealizedPnLPercent: number | null;
+  dailyChange: number;
+  // Share of the priced total, 0-1
+  weight: number;
+  isSimulated: boolean;
+}
+
+export interface AllocationSlice {
+  value: number;
+  weight: number;
+}
+
+export interface PortfolioValuation {
+  portfolioId?: string;
+  currency: string;
+  totalValue: number;
+  totalCost: number;
+  unrealizedPnL: number;
+  unrealizedPnLPercent: number | null;
+  dailyChange: number;
+  dailyChangePercent: number | null;
+  holdings: HoldingValuation[];
+  allocation: Record<AssetType, AllocationSlice>;
+  // Holdings that could not be priced, keyed by position id (symbol for ad-hoc holdings);
+  // they are left out of the totals
+  errors: Record<string, string>;
+  isSimulated: boolean;
+  valuedAt: Date;
+}
+
+// Thresholds are in the alert currency. A percentChange alert with a negative percent
+// fires on a drop of at least that size, a positive one on a rise.
+export type AlertCondition =
+  | { type: 'above' | 'below'; price: number }
+  | { type: 'percentChange'; percent: number; windowMinutes: number };
+
+export interface Alert {
+  id: string;
+  userId: string;
+  symbol: string;
+  assetType: AssetType;
+  currency: string;
+  condition: AlertCondition;
+  webhookUrl: string;
+  status: 'active' | 'paused';
+  // Whether the condition held at the last evaluation; alerts fire when it becomes true
+  conditionMet: boolean;
+  lastTriggeredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AlertDelivery {
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  // A generic reason; upstream statuses and errors are not exposed
+  lastError: string | null;
+  deliveredAt: Date | null;
+}
+
+export interface AlertTrigger {
+  id: string;
+  alertId: string;
+  symbol: string;
+  price: number;
+  currency: string;
+  // Percent move over the alert window, for percentChange alerts
+  changePercent: number | null;
+  message: string;
+  triggeredAt: Date;
+  delivery: AlertDelivery;
+}
+
+export interface WatchlistItem {
+  symbol: string;
+  type: AssetType;
+}
+
+export interface Watchlist {
+  id: string;
+  userId: string;
+  name: string;
+  symbols: WatchlistItem[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DigestHeadline {
+  title: string;
+  url: string | null;
+  source: string;
+  publishedAt: Date;
+  // Watchlist symbols the headline mentions
+  symbols: string[];
+}
+
+export interface WatchlistDigest {
+  watchlistId: string;
+  name: string;
+  currency: string;
+  quotes: MarketData[];
+  headlines: DigestHeadline[];
+  // Symbols that could not be quoted, with the reason
+  errors: Record<string, string>;
+  // Short LLM overview; null when not requested or no provider could produce one
+  summary: string | null;
+  isSimulated: boolean;
+  generatedAt: Date;
+}
+
+// `admin` grants every other scope plus key management
+export type ApiScope = 'analyze' | 'market' | 'news' | 'portfolio' | 'admin';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  // Requests made with the key act as this user
+  userId: string;
+  scopes: ApiScope[];
+  // First characters of the key, so holders can tell their keys apart
+  prefix: string;
+  // Rate-limit tokens per 15 minutes across all route groups; null leaves only the group limits
+  rateLimit: number | null;
+  // Requests per UTC day; null is unlimited
+  dailyQuota: number | null;
+  createdAt: Date;
+  revokedAt: Date | null;
+}
+
+// LLM usage of one user through one key (null for anonymous requests) on one model
+// and UTC day. Cost is estimated from the configured per-model prices, in USD.
+export interface UsageEntry {
+  day: string;
+  userId: string;
+  apiKeyId: string | null;
+  model: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export interface UsageBucket extends UsageTotals {
+  // YYYY-MM-DD or YYYY-MM
+  period: string;
+  models: Record<string, UsageTotals>;
+}
+
+export interface UsageBudget {
+  scope: 'user' | 'total';
+  limit: number;
+  spent: number;
+  remaining: number;
+  action: 'reject' | 'downgrade';
+}
+
+export interface UsageReport {
+  granularity: 'day' | 'month';
+  from: string;
+  to: string;
+  userId: string | null;
+  totals: UsageTotals;
+  buckets: UsageBucket[];
+  // Budgets for the current month that apply to the report's user
+  budgets: UsageBudget[];
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: Date | null;
+  // When an open circuit lets the next trial request through
+  retryAt: Date | null;
+  lastFailureAt: Date | null;
+  lastError: string | null;
+}
+
+export interface DataServiceHealth {
+  // http: the external data service; embedded: the in-process store
+  backend: 'http' | 'embedded';
+  // unhealthy: the service answered but not as healthy; unreachable: no answer in time
+  status: 'healthy' | 'unhealthy' | 'unreachable';
+  // http only
+  url: string | null;
+  checkedAt: Date;
+  latencyMs: number;
+  circuit: CircuitBreakerStatus | null;
+  // embedded only
+  documents: number | null;
+  lastIngestedAt: Date | null;
 }
 
 export interface ApiResponse<T> {
@@ -44,4 +488,9 @@ export interface ApiResponse<T> {
   data?: T;
   error?: string;
   timestamp: Date;
+  // Set when the handler read through the cache; cacheAge is in seconds
+  cached?: boolean;
+  cacheAge?: number;
+  // Extra machine-readable error context, e.g. the quote providers that failed
+  details?: Record<string, unknown>;
 }
\ No newline at end of file
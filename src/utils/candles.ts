@@ -0,0 +1,35 @@
+import { CandleInterval, OHLCV } from '../types';
+
+export const INTERVAL_MS: Record<CandleInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+};
+
+export const alignToInterval = (time: number, interval: CandleInterval): number => {
+  return Math.floor(time / INTERVAL_MS[interval]) * INTERVAL_MS[interval];
+};
+
+// Buckets raw [timestamp ms, price] samples into OHLC candles. Volume is left null: the
+// sources we aggregate (CoinGecko's total_volumes) only report a rolling 24h total at each
+// sample, and differences of rolling totals are not the volume traded within a candle.
+export const aggregateToCandles = (prices: [number, number][], interval: CandleInterval): OHLCV[] => {
+  const buckets = new Map<number, OHLCV>();
+
+  for (const [time, price] of [...prices].sort((a, b) => a[0] - b[0])) {
+    const bucket = alignToInterval(time, interval);
+    const candle = buckets.get(bucket);
+
+    if (!candle) {
+      buckets.set(bucket, { timestamp: new Date(bucket), open: price, high: price, low: price, close: price, volume: null });
+      continue;
+    }
+
+    candle.high = Math.max(candle.high, price);
+    candle.low = Math.min(candle.low, price);
+    candle.close = price;
+  }
+
+  return Array.from(buckets.values());
+};
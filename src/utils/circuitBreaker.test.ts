@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CircuitBreaker } from './circuitBreaker';
+
+const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+test('the circuit opens after the threshold of consecutive failures', () => {
+  const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 60000 });
+
+  assert.equal(breaker.recordFailure('first'), false);
+  assert.equal(breaker.recordFailure('second'), false);
+  assert.equal(breaker.tryAcquire(), true);
+  assert.equal(breaker.recordFailure('third'), true);
+
+  const status = breaker.getStatus();
+  assert.equal(status.state, 'open');
+  assert.equal(status.consecutiveFailures, 3);
+  assert.equal(status.lastError, 'third');
+  assert.ok(status.retryAt);
+  assert.equal(breaker.tryAcquire(), false);
+  assert.ok(breaker.retryAfterMs() > 0);
+});
+
+test('a success resets the failure count', () => {
+  const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 60000 });
+  breaker.recordFailure('one');
+  breaker.recordSuccess();
+  assert.equal(breaker.recordFailure('two'), false);
+  assert.equal(breaker.getStatus().state, 'closed');
+});
+
+test('after the reset timeout a single trial is let through', async () => {
+  const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 10 });
+  breaker.recordFailure('down');
+  await delay(15);
+
+  assert.equal(breaker.getStatus().state, 'half-open');
+  assert.equal(breaker.tryAcquire(), true);
+  assert.equal(breaker.tryAcquire(), false);
+});
+
+test('a successful trial closes the circuit', async () => {
+  const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 10 });
+  breaker.recordFailure('down');
+  await delay(15);
+  breaker.tryAcquire();
+  breaker.recordSuccess();
+
+  assert.equal(breaker.getStatus().state, 'closed');
+  assert.equal(breaker.tryAcquire(), true);
+  assert.equal(breaker.tryAcquire(), true);
+});
+
+test('a failed trial re-opens the circuit for another timeout', async () => {
+  const breaker = new CircuitBreaker({ failureThreshold: 5, resetTimeoutMs: 10 });
+  for (let i = 0; i < 5; i++) {
+    breaker.recordFailure('down');
+  }
+  await delay(15);
+  breaker.tryAcquire();
+
+  assert.equal(breaker.recordFailure('still down'), true);
+  assert.equal(breaker.getStatus().state, 'open');
+  assert.equal(breaker.tryAcquire(), false);
+  await delay(15);
+  assert.equal(breaker.tryAcquire(), true);
+});
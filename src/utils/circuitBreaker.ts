@@ -0,0 +1,83 @@
+import { CircuitBreakerStatus, CircuitState } from '../types';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before a trial request is let through
+  resetTimeoutMs: number;
+}
+
+// Classic three-state breaker. Closed: requests flow and consecutive failures are counted.
+// Open: requests are refused until resetTimeoutMs has passed. Half-open: a single trial
+// request is let through; its success closes the circuit, its failure re-opens it.
+export class CircuitBreaker {
+  private options: CircuitBreakerOptions;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private lastFailureAt: Date | null = null;
+  private lastError: string | null = null;
+
+  constructor(options: CircuitBreakerOptions) {
+    this.options = options;
+  }
+
+  // Whether a request may go ahead now. In half-open state only the first caller gets
+  // a yes, and must report its outcome.
+  tryAcquire(): boolean {
+    if (this.state === 'open' && Date.now() - (this.openedAt as number) >= this.options.resetTimeoutMs) {
+      this.state = 'half-open';
+    }
+    if (this.state === 'closed') {
+      return true;
+    }
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  // Milliseconds until an open circuit lets a trial request through
+  retryAfterMs(): number {
+    return this.state === 'open' && this.openedAt !== null
+      ? Math.max(this.openedAt + this.options.resetTimeoutMs - Date.now(), 0)
+      : 0;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  // Returns true when this failure opened the circuit
+  recordFailure(error: string): boolean {
+    this.consecutiveFailures++;
+    this.lastFailureAt = new Date();
+    this.lastError = error;
+    this.trialInFlight = false;
+
+    if (this.state === 'half-open' || (this.state === 'closed' && this.consecutiveFailures >= this.options.failureThreshold)) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      return true;
+    }
+    return false;
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    // Reports half-open once the timeout has passed, even before the next request
+    const state = this.state === 'open' && this.retryAfterMs() === 0 ? 'half-open' : this.state;
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt === null ? null : new Date(this.openedAt),
+      retryAt: state === 'open' ? new Date(Date.now() + this.retryAfterMs()) : null,
+      lastFailureAt: this.lastFailureAt,
+      lastError: this.lastError
+    };
+  }
+}
@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { bollinger, computeIndicator, ema, macd, parseIndicatorSet, rsi, sma, warmUpPeriod } from './indicators';
+
+const close = (actual: number | null, expected: number, message?: string) => {
+  assert.ok(actual !== null, message);
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${message ?? ''} expected ${expected}, got ${actual}`);
+};
+
+test('sma averages each trailing window', () => {
+  assert.deepEqual(sma([1, 2, 3, 4, 5], 3), [null, null, 2, 3, 4]);
+});
+
+test('ema is seeded with the sma and then smoothed', () => {
+  const values = ema([2, 4, 6, 8], 2);
+  assert.deepEqual(values.slice(0, 1), [null]);
+  close(values[1], 3);
+  close(values[2], 6 * (2 / 3) + 3 / 3);
+  close(values[3], 8 * (2 / 3) + (values[2] as number) / 3);
+});
+
+test('ema skips leading nulls before seeding', () => {
+  const values = ema([null, null, 1, 3, 5], 2);
+  assert.deepEqual(values.slice(0, 3), [null, null, null]);
+  close(values[3], 2);
+});
+
+test('rsi is 100 with only gains, 0 with only losses and null during warm-up', () => {
+  const rising = rsi([1, 2, 3, 4, 5, 6], 3);
+  assert.deepEqual(rising.slice(0, 3), [null, null, null]);
+  assert.deepEqual(rising.slice(3), [100, 100, 100]);
+  assert.deepEqual(rsi([6, 5, 4, 3], 3).slice(3), [0]);
+  assert.deepEqual(rsi([1, 2], 3), [null, null]);
+});
+
+test('rsi uses Wilder smoothing', () => {
+  // Changes: +2, -1, +1 -> avg gain 1, avg loss 1/3 -> RSI 75
+  const values = rsi([10, 12, 11, 12, 10], 3);
+  close(values[3], 75);
+  // Next change -2: gain 2/3, loss (2/3 + 2) / 3 = 8/9 -> RS 0.75
+  close(values[4], 100 - 100 / 1.75);
+});
+
+test('macd is the fast minus slow ema, with a signal line and histogram', () => {
+  const closes = Array.from({ length: 40 }, (_, i) => 100 + Math.sin(i / 3) * 5 + i * 0.2);
+  const result = macd(closes, 3, 6, 4);
+  const fast = ema(closes, 3);
+  const slow = ema(closes, 6);
+
+  assert.equal(result.macd[4], null);
+  close(result.macd[10], (fast[10] as number) - (slow[10] as number));
+  assert.equal(result.signal.findIndex(value => value !== null), 5 + 4 - 1);
+  close(result.histogram[20], (result.macd[20] as number) - (result.signal[20] as number));
+});
+
+test('bollinger bands sit stdDev population deviations around the sma', () => {
+  const { upper, middle, lower } = bollinger([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+  close(middle[7], 5);
+  close(upper[7], 9);
+  close(lower[7], 1);
+  assert.equal(upper[6], null);
+});
+
+test('warmUpPeriod covers the candles an indicator needs before its first value', () => {
+  const closes = Array.from({ length: 60 }, (_, i) => 50 + (i % 7));
+  for (const spec of parseIndicatorSet('sma20,ema10,rsi14,macd,bollinger')) {
+    const lines = computeIndicator(spec, closes);
+    for (const [line, values] of Object.entries(lines)) {
+      assert.notEqual(values[warmUpPeriod(spec)], null, `${spec.name} ${line}`);
+    }
+  }
+});
+
+test('computeIndicator rounds to four decimals', () => {
+  const { value } = computeIndicator({ name: 'sma3', kind: 'sma', period: 3 }, [1, 1, 1.00001, 2 / 3]);
+  assert.deepEqual(value, [null, null, 1, 0.8889]);
+});
+
+test('parseIndicatorSet applies defaults, dedupes and rejects bad input', () => {
+  assert.deepEqual(parseIndicatorSet('SMA, rsi, sma'), [
+    { name: 'sma', kind: 'sma', period: 20 },
+    { name: 'rsi', kind: 'rsi', period: 14 }
+  ]);
+  assert.deepEqual(parseIndicatorSet('macd'), [{ name: 'macd', kind: 'macd', fast: 12, slow: 26, signal: 9 }]);
+  assert.deepEqual(parseIndicatorSet('bollinger10'), [{ name: 'bollinger10', kind: 'bollinger', period: 10, stdDev: 2 }]);
+  assert.throws(() => parseIndicatorSet(' , '), /At least one/);
+  assert.throws(() => parseIndicatorSet('sma1'), /Invalid period/);
+  assert.throws(() => parseIndicatorSet('ema501'), /Invalid period/);
+  assert.throws(() => parseIndicatorSet('vwap'), /Unknown indicator: vwap/);
+});
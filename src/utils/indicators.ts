@@ -0,0 +1,188 @@
+// Technical indicator math over close prices. Every function returns an array
+// aligned with its input, using null for points inside the warm-up period.
+
+export type IndicatorSpec =
+  | { name: string; kind: 'sma' | 'ema' | 'rsi'; period: number }
+  | { name: string; kind: 'macd'; fast: number; slow: number; signal: number }
+  | { name: string; kind: 'bollinger'; period: number; stdDev: number };
+
+const MAX_PERIOD = 500;
+
+const round = (value: number | null): number | null => {
+  return value === null ? null : Number(value.toFixed(4));
+};
+
+export const sma = (values: number[], period: number): (number | null)[] => {
+  const result: (number | null)[] = [];
+  let sum = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) {
+      sum -= values[i - period];
+    }
+    result.push(i >= period - 1 ? sum / period : null);
+  }
+
+  return result;
+};
+
+// Seeded with the SMA of the first `period` non-null values
+export const ema = (values: (number | null)[], period: number): (number | null)[] => {
+  const result: (number | null)[] = values.map(() => null);
+  const k = 2 / (period + 1);
+  const start = values.findIndex(value => value !== null);
+  if (start === -1 || values.length - start < period) {
+    return result;
+  }
+
+  let previous = 0;
+  for (let i = start; i < start + period; i++) {
+    previous += values[i] as number;
+  }
+  previous /= period;
+  result[start + period - 1] = previous;
+
+  for (let i = start + period; i < values.length; i++) {
+    previous = (values[i] as number) * k + previous * (1 - k);
+    result[i] = previous;
+  }
+
+  return result;
+};
+
+// Wilder's RSI
+export const rsi = (values: number[], period: number): (number | null)[] => {
+  const result: (number | null)[] = values.map(() => null);
+  if (values.length <= period) {
+    return result;
+  }
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    avgGain += Math.max(change, 0);
+    avgLoss += Math.max(-change, 0);
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  const toRsi = () => (avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss));
+  result[period] = toRsi();
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRsi();
+  }
+
+  return result;
+};
+
+export const macd = (values: number[], fast: number, slow: number, signalPeriod: number) => {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const line = values.map((_, i) => {
+    const f = fastEma[i];
+    const s = slowEma[i];
+    return f === null || s === null ? null : f - s;
+  });
+  const signal = ema(line, signalPeriod);
+  const histogram = line.map((value, i) => {
+    const sig = signal[i];
+    return value === null || sig === null ? null : value - sig;
+  });
+
+  return { macd: line, signal, histogram };
+};
+
+export const bollinger = (values: number[], period: number, stdDev: number) => {
+  const middle = sma(values, period);
+  const upper: (number | null)[] = [];
+  const lower: (number | null)[] = [];
+
+  middle.forEach((mean, i) => {
+    if (mean === null) {
+      upper.push(null);
+      lower.push(null);
+      return;
+    }
+    const window = values.slice(i - period + 1, i + 1);
+    const deviation = Math.sqrt(window.reduce((acc, v) => acc + (v - mean) ** 2, 0) / period);
+    upper.push(mean + stdDev * deviation);
+    lower.push(mean - stdDev * deviation);
+  });
+
+  return { upper, middle, lower };
+};
+
+// Number of leading candles before the spec produces values
+export const warmUpPeriod = (spec: IndicatorSpec): number => {
+  switch (spec.kind) {
+    case 'macd':
+      return spec.slow + spec.signal - 1;
+    default:
+      return spec.period;
+  }
+};
+
+export const computeIndicator = (spec: IndicatorSpec, closes: number[]): Record<string, (number | null)[]> => {
+  let lines: Record<string, (number | null)[]>;
+
+  switch (spec.kind) {
+    case 'sma':
+      lines = { value: sma(closes, spec.period) };
+      break;
+    case 'ema':
+      lines = { value: ema(closes, spec.period) };
+      break;
+    case 'rsi':
+      lines = { value: rsi(closes, spec.period) };
+      break;
+    case 'macd':
+      lines = macd(closes, spec.fast, spec.slow, spec.signal);
+      break;
+    case 'bollinger':
+      lines = bollinger(closes, spec.period, spec.stdDev);
+      break;
+  }
+
+  return Object.fromEntries(Object.entries(lines).map(([line, values]) => [line, values.map(round)]));
+};
+
+// Parses "sma20,ema50,rsi14,macd,bollinger". Throws with a user-facing message on bad input.
+export const parseIndicatorSet = (set: string): IndicatorSpec[] => {
+  const names = Array.from(new Set(set.split(',').map(name => name.trim().toLowerCase()).filter(Boolean)));
+  if (names.length === 0) {
+    throw new Error('At least one indicator is required');
+  }
+
+  return names.map((name): IndicatorSpec => {
+    const periodic = /^(sma|ema|rsi)(\d+)?$/.exec(name);
+    if (periodic) {
+      const kind = periodic[1] as 'sma' | 'ema' | 'rsi';
+      const period = periodic[2] ? parseInt(periodic[2], 10) : kind === 'rsi' ? 14 : 20;
+      if (period < 2 || period > MAX_PERIOD) {
+        throw new Error(`Invalid period for ${name} (expected 2-${MAX_PERIOD})`);
+      }
+      return { name, kind, period };
+    }
+
+    if (name === 'macd') {
+      return { name, kind: 'macd', fast: 12, slow: 26, signal: 9 };
+    }
+
+    const bands = /^bollinger(\d+)?$/.exec(name);
+    if (bands) {
+      const period = bands[1] ? parseInt(bands[1], 10) : 20;
+      if (period < 2 || period > MAX_PERIOD) {
+        throw new Error(`Invalid period for ${name} (expected 2-${MAX_PERIOD})`);
+      }
+      return { name, kind: 'bollinger', period, stdDev: 2 };
+    }
+
+    throw new Error(`Unknown indicator: ${name}`);
+  });
+};
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractMentionedSymbols, extractTickers, mentionPatterns, shortName } from './instrumentMentions';
+import { findInstrument } from '../services/symbols/catalog';
+
+const instrument = (symbol: string) => {
+  const found = findInstrument(symbol);
+  assert.ok(found, `${symbol} is in the catalog`);
+  return found;
+};
+
+test('shortName strips stacked legal suffixes', () => {
+  assert.equal(shortName(instrument('AMZN')), 'Amazon');
+  assert.equal(shortName(instrument('KO')), 'Coca-Cola');
+  assert.equal(shortName(instrument('DIS')), 'Walt Disney');
+  assert.equal(shortName(instrument('MA')), 'Mastercard');
+  assert.equal(shortName(instrument('UNH')), 'UnitedHealth');
+  assert.equal(shortName(instrument('PG')), 'Procter & Gamble');
+  assert.equal(shortName(instrument('JPM')), 'JPMorgan Chase');
+  assert.equal(shortName(instrument('GOOGL')), 'Alphabet');
+});
+
+test('extractTickers finds companies by their everyday names', () => {
+  assert.deepEqual(extractTickers('Coca-Cola shares rise'), ['KO']);
+  assert.deepEqual(extractTickers('Disney beats estimates'), ['DIS']);
+  assert.deepEqual(extractTickers('Mastercard posts record volume'), ['MA']);
+  assert.deepEqual(extractTickers('UnitedHealth cuts its outlook'), ['UNH']);
+  assert.deepEqual(extractTickers('JPMorgan raises dividend'), ['JPM']);
+  assert.deepEqual(extractTickers('Amazon expands same-day delivery'), ['AMZN']);
+  assert.deepEqual(extractTickers("Procter & Gamble's margins improve"), ['PG']);
+});
+
+test('extractTickers ignores names inside other words and ordinary words', () => {
+  assert.deepEqual(extractTickers('An avalanche of layoffs hits the sector'), []);
+  assert.deepEqual(extractTickers('New visa rules for tech workers'), []);
+  assert.deepEqual(extractTickers('Metaverse spending slows'), []);
+  assert.deepEqual(extractTickers('Avalanche network upgrade goes live'), ['AVAX']);
+});
+
+test('extractTickers matches tickers case-sensitively and cashtags', () => {
+  assert.deepEqual(extractTickers('AAPL and $XYZ move'), ['AAPL', 'XYZ']);
+  assert.deepEqual(extractTickers('the coin rallied'), []);
+});
+
+test('mentionPatterns cover names, aliases and the ticker', () => {
+  const matches = (symbol: string, text: string) => mentionPatterns(instrument(symbol)).some(pattern => pattern.test(text));
+  assert.ok(matches('DIS', 'Walt Disney earnings'));
+  assert.ok(matches('DIS', 'Disney+ subscribers grow'));
+  assert.ok(matches('KO', 'coca-cola volumes'));
+  assert.ok(matches('AVAX', 'AVAX rallies'));
+  assert.ok(!matches('AVAX', 'an avalanche of orders'));
+  assert.ok(!matches('MA', 'Mastercards'));
+});
+
+test('extractMentionedSymbols ignores upper-case words that are not catalog tickers', () => {
+  assert.deepEqual(extractMentionedSymbols('What ROI can I expect from an IPO? Ask the CEO.'), []);
+  assert.deepEqual(extractMentionedSymbols('Is NVDA a buy after the ETF inflows?'), [{ symbol: 'NVDA', type: 'stock' }]);
+});
+
+test('extractMentionedSymbols keeps mention order, types and the limit', () => {
+  assert.deepEqual(extractMentionedSymbols('Should I sell bitcoin for $PLTR or Apple?'), [
+    { symbol: 'BTC', type: 'crypto' },
+    { symbol: 'PLTR', type: 'stock' },
+    { symbol: 'AAPL', type: 'stock' }
+  ]);
+  assert.deepEqual(extractMentionedSymbols('ETH, SOL, BTC and AAPL', 2).map(({ symbol }) => symbol), ['ETH', 'SOL']);
+  assert.deepEqual(extractMentionedSymbols('the sol price'), []);
+});
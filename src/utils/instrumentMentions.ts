@@ -0,0 +1,105 @@
+import { AssetType, Instrument } from '../types';
+import { INSTRUMENTS } from '../services/symbols/catalog';
+
+export interface MentionedSymbol {
+  symbol: string;
+  type: AssetType;
+}
+
+// One legal suffix at the end of a name; shortName drops them until none is left, so
+// "UnitedHealth Group Incorporated" matches headlines that just say "UnitedHealth"
+const NAME_SUFFIX = /(?:,?\s+(?:inc|incorporated|corporation|corp|company|co|group|holdings|platforms|global|ltd|plc|trust|class [a-z]|& co)\.?|\.com)$/i;
+
+// What headlines call some companies instead of their legal name
+const NAME_ALIASES: Record<string, string[]> = {
+  GOOGL: ['Google'],
+  JPM: ['JPMorgan', 'JP Morgan'],
+  DIS: ['Disney'],
+  PG: ['P&G'],
+  XOM: ['Exxon', 'ExxonMobil']
+};
+
+// Names that are also ordinary words only count when capitalized, so "an avalanche of
+// layoffs" is not about AVAX
+const COMMON_WORD_NAMES = new Set(['apple', 'avalanche', 'intel', 'meta', 'oracle', 'polygon', 'tether', 'visa']);
+
+// $TSLA-style cashtags name a ticker even when it isn't in the catalog
+const CASHTAG = /(?:^|[^A-Za-z0-9])\$([A-Z]{1,5})\b/g;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words only; lookarounds rather than \b so names ending in punctuation still match
+const wholeWord = (text: string, flags: string = ''): RegExp =>
+  new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(text)}(?![A-Za-z0-9])`, flags);
+
+export const shortName = (instrument: Instrument): string => {
+  let name = instrument.name;
+  let stripped = name.replace(NAME_SUFFIX, '');
+  while (stripped !== name && stripped.length > 0) {
+    name = stripped;
+    stripped = name.replace(NAME_SUFFIX, '');
+  }
+  return name;
+};
+
+export const tickerPattern = (instrument: Instrument): RegExp | null =>
+  instrument.symbol.length > 1 ? new RegExp(`(^|[^A-Za-z0-9])\\$?${escapeRegExp(instrument.symbol)}\\b`) : null;
+
+export const namePatterns = (instrument: Instrument): RegExp[] =>
+  [shortName(instrument), ...(NAME_ALIASES[instrument.symbol] || [])].flatMap(name =>
+    COMMON_WORD_NAMES.has(name.toLowerCase())
+      ? [wholeWord(name), wholeWord(name.toUpperCase())]
+      : [wholeWord(name, 'i')]);
+
+// Tickers match case-sensitively as whole words (one-letter tickers are too ambiguous);
+// company and coin names match in any case unless they are ordinary words
+export const mentionPatterns = (instrument: Instrument): RegExp[] => {
+  const ticker = tickerPattern(instrument);
+  return ticker ? [...namePatterns(instrument), ticker] : namePatterns(instrument);
+};
+
+let catalogPatterns: Array<{ instrument: Instrument; names: RegExp[]; ticker: RegExp | null }> | null = null;
+
+// Where the text first mentions the pattern, or -1
+const firstIndex = (patterns: RegExp[], text: string): number =>
+  patterns.reduce((first, pattern) => {
+    const index = text.search(pattern);
+    return index !== -1 && (first === -1 || index < first) ? index : first;
+  }, -1);
+
+// Catalog instruments named in the text, plus cashtags (as stocks when they aren't in the
+// catalog), in the order they are first mentioned. When two instruments share a name
+// (Alphabet's share classes) the name only counts for the first one.
+export const extractMentionedSymbols = (text: string, limit: number = 3): MentionedSymbol[] => {
+  catalogPatterns = catalogPatterns || INSTRUMENTS.map(instrument => ({
+    instrument,
+    names: namePatterns(instrument),
+    ticker: tickerPattern(instrument)
+  }));
+
+  const found = new Map<string, MentionedSymbol & { index: number }>();
+  const claimedNames = new Set<string>();
+  for (const { instrument, names, ticker } of catalogPatterns) {
+    const nameKey = shortName(instrument).toLowerCase();
+    const index = firstIndex(claimedNames.has(nameKey) ? (ticker ? [ticker] : []) : (ticker ? [...names, ticker] : names), text);
+    if (index !== -1 && !found.has(instrument.symbol)) {
+      found.set(instrument.symbol, { symbol: instrument.symbol, type: instrument.type, index });
+      claimedNames.add(nameKey);
+    }
+  }
+
+  for (const match of text.matchAll(CASHTAG)) {
+    if (!found.has(match[1])) {
+      found.set(match[1], { symbol: match[1], type: 'stock', index: match.index ?? 0 });
+    }
+  }
+
+  return Array.from(found.values())
+    .sort((a, b) => a.index - b.index)
+    .slice(0, limit)
+    .map(({ symbol, type }) => ({ symbol, type }));
+};
+
+// Tickers of every instrument extractMentionedSymbols finds
+export const extractTickers = (text: string): string[] =>
+  extractMentionedSymbols(text, Infinity).map(({ symbol }) => symbol);
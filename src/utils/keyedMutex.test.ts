@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { KeyedMutex } from './keyedMutex';
+
+const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+test('tasks for one key run one at a time, in order', async () => {
+  const mutex = new KeyedMutex();
+  const events: string[] = [];
+  const task = (name: string, ms: number) => mutex.run('a', async () => {
+    events.push(`start ${name}`);
+    await delay(ms);
+    events.push(`end ${name}`);
+    return name;
+  });
+
+  assert.deepEqual(await Promise.all([task('1', 20), task('2', 5), task('3', 1)]), ['1', '2', '3']);
+  assert.deepEqual(events, ['start 1', 'end 1', 'start 2', 'end 2', 'start 3', 'end 3']);
+});
+
+test('tasks for different keys run concurrently', async () => {
+  const mutex = new KeyedMutex();
+  const events: string[] = [];
+  await Promise.all(['a', 'b'].map(key => mutex.run(key, async () => {
+    events.push(`start ${key}`);
+    await delay(5);
+    events.push(`end ${key}`);
+  })));
+
+  assert.deepEqual(events, ['start a', 'start b', 'end a', 'end b']);
+});
+
+test('a failed task rejects its caller without blocking the next one', async () => {
+  const mutex = new KeyedMutex();
+  const failed = mutex.run('a', async () => {
+    throw new Error('boom');
+  });
+  const next = mutex.run('a', async () => 'ran');
+
+  await assert.rejects(failed, /boom/);
+  assert.equal(await next, 'ran');
+});
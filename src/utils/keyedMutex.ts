@@ -0,0 +1,18 @@
+// Runs tasks one at a time per key, in the order they were queued. Tasks for different
+// keys run concurrently. A failed task doesn't stop the ones queued after it.
+export class KeyedMutex {
+  private tails = new Map<string, Promise<unknown>>();
+
+  async run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) || Promise.resolve();
+    const run = previous.catch(() => undefined).then(task);
+    this.tails.set(key, run);
+    try {
+      return await run;
+    } finally {
+      if (this.tails.get(key) === run) {
+        this.tails.delete(key);
+      }
+    }
+  }
+}
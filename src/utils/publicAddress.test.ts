@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LookupAddress } from 'dns';
+import { BlockedAddressError, assertPublicHost, isPublicAddress, isPublicHostname, publicOnlyLookup } from './publicAddress';
+
+test('isPublicAddress blocks private, loopback, link-local and reserved ranges', () => {
+  for (const address of [
+    '127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254',
+    '100.64.0.1', '0.0.0.0', '224.0.0.1', '255.255.255.255', '::1', '::', 'fe80::1', 'fd00::1',
+    'ff02::1', '64:ff9b::a9fe:a9fe', '::ffff:127.0.0.1', '::ffff:169.254.169.254'
+  ]) {
+    assert.equal(isPublicAddress(address), false, address);
+  }
+});
+
+test('isPublicAddress allows public addresses and rejects non-addresses', () => {
+  for (const address of ['1.1.1.1', '8.8.8.8', '172.32.0.1', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+    assert.equal(isPublicAddress(address), true, address);
+  }
+  assert.equal(isPublicAddress('example.com'), false);
+});
+
+test('isPublicHostname checks localhost names and IP literals without DNS', () => {
+  assert.equal(isPublicHostname('localhost'), false);
+  assert.equal(isPublicHostname('api.LOCALHOST'), false);
+  assert.equal(isPublicHostname('[::1]'), false);
+  assert.equal(isPublicHostname('10.0.0.1'), false);
+  assert.equal(isPublicHostname('[2606:4700:4700::1111]'), true);
+  assert.equal(isPublicHostname('hooks.example.com'), true);
+});
+
+test('assertPublicHost rejects private literals and names resolving to them', async () => {
+  await assert.rejects(assertPublicHost('169.254.169.254'), BlockedAddressError);
+  await assert.rejects(assertPublicHost('[::1]'), BlockedAddressError);
+  await assert.rejects(assertPublicHost('localhost'), BlockedAddressError);
+  await assertPublicHost('1.1.1.1');
+});
+
+const lookup = (hostname: string, options: { all?: boolean; family?: number } = {}) =>
+  new Promise<{ error: NodeJS.ErrnoException | null; address: string | LookupAddress[]; family?: number }>(resolve => {
+    publicOnlyLookup(hostname, options, (error, address, family) => resolve({ error, address, family }));
+  });
+
+test('publicOnlyLookup refuses hosts that resolve to non-public addresses', async () => {
+  const { error } = await lookup('127.0.0.1');
+  assert.ok(error instanceof BlockedAddressError);
+});
+
+test('publicOnlyLookup answers in the form the agent asked for', async () => {
+  const single = await lookup('8.8.8.8');
+  assert.equal(single.error, null);
+  assert.equal(single.address, '8.8.8.8');
+  assert.equal(single.family, 4);
+
+  const all = await lookup('8.8.8.8', { all: true });
+  assert.equal(all.error, null);
+  assert.deepEqual(all.address, [{ address: '8.8.8.8', family: 4 }]);
+});
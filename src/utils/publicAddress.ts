@@ -0,0 +1,65 @@
+import dns from 'dns';
+import { BlockList, LookupFunction, isIP } from 'net';
+
+// Addresses a server-side request must never reach: loopback, private, link-local (cloud
+// metadata), carrier-grade NAT, unique-local, multicast and reserved ranges. IPv4-mapped
+// IPv6 addresses are checked against the IPv4 rules.
+const blocked = new BlockList();
+([
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as [string, number][]).forEach(([network, prefix]) => blocked.addSubnet(network, prefix, 'ipv4'));
+([
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as [string, number][]).forEach(([network, prefix]) => blocked.addSubnet(network, prefix, 'ipv6'));
+
+export class BlockedAddressError extends Error {
+  constructor(host: string) {
+    super(`${host} is not a public address`);
+    this.name = 'BlockedAddressError';
+  }
+}
+
+export const isPublicAddress = (address: string): boolean => {
+  const family = isIP(address);
+  return family !== 0 && !blocked.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+// Checks what can be told without DNS: localhost names and IP literals. URL hostnames
+// keep IPv6 literals in brackets.
+export const isPublicHostname = (hostname: string): boolean => {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return false;
+  }
+  return isIP(host) === 0 || isPublicAddress(host);
+};
+
+const lookupAll = (hostname: string, family?: dns.LookupOptions['family']): Promise<dns.LookupAddress[]> =>
+  dns.promises.lookup(hostname, { family, all: true, verbatim: true });
+
+// Resolves the host and fails with BlockedAddressError unless every address is public
+export const assertPublicHost = async (hostname: string): Promise<void> => {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  if (!isPublicHostname(host)) {
+    throw new BlockedAddressError(host);
+  }
+  if (isIP(host) === 0 && (await lookupAll(host)).some(({ address }) => !isPublicAddress(address))) {
+    throw new BlockedAddressError(host);
+  }
+};
+
+// DNS lookup for http(s) agents that refuses non-public addresses. The check runs on the
+// addresses the socket then connects to, so a host that re-resolves to an internal address
+// after an earlier check (DNS rebinding) is still refused.
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookupAll(hostname, options.family).then(addresses => {
+    if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+      callback(new BlockedAddressError(hostname), '', 0);
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  }, error => callback(error, '', 0));
+};
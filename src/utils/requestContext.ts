@@ -0,0 +1,43 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+interface CacheLookup {
+  hit: boolean;
+  ageMs: number;
+}
+
+// The user requests without an API key act as
+export const ANONYMOUS_USER_ID = 'anonymous';
+
+// Who a request acts for, so services deep in a call can attribute work to them
+export interface RequestCaller {
+  userId?: string;
+  apiKeyId?: string;
+}
+
+interface RequestContext {
+  cacheLookups: CacheLookup[];
+  caller: RequestCaller;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export const runWithRequestContext = <T>(callback: () => T): T => {
+  return storage.run({ cacheLookups: [], caller: {} }, callback);
+};
+
+export const getRequestContext = (): RequestContext | undefined => storage.getStore();
+
+// Called by the cache so the response can report whether it was served from cache
+export const recordCacheLookup = (hit: boolean, ageMs: number): void => {
+  storage.getStore()?.cacheLookups.push({ hit, ageMs });
+};
+
+export const setRequestCaller = (caller: RequestCaller): void => {
+  const context = storage.getStore();
+  if (context) {
+    context.caller = caller;
+  }
+};
+
+// Empty outside a request (e.g. scheduled jobs)
+export const getRequestCaller = (): RequestCaller => storage.getStore()?.caller || {};
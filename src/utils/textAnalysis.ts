@@ -0,0 +1,120 @@
+// Tokenization and stemming shared by the local search indexes
+
+export interface AnalyzedTerm {
+  term: string;
+  // Word offset in the source text, counting dropped stopwords, so phrases keep their gaps
+  position: number;
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'he', 'her',
+  'his', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'our', 'she', 'so', 'than',
+  'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to', 'was', 'we', 'were',
+  'what', 'when', 'which', 'who', 'will', 'with', 'would', 'you', 'your'
+]);
+
+const isConsonant = (word: string, i: number): boolean => {
+  const char = word[i];
+  if ('aeiou'.includes(char)) {
+    return false;
+  }
+  return char === 'y' ? i === 0 || !isConsonant(word, i - 1) : true;
+};
+
+// Porter's m: the number of vowel-consonant sequences in the stem
+const measure = (stem: string): number => {
+  let m = 0;
+  let i = 0;
+  while (i < stem.length && isConsonant(stem, i)) i++;
+  while (i < stem.length) {
+    while (i < stem.length && !isConsonant(stem, i)) i++;
+    if (i >= stem.length) break;
+    m++;
+    while (i < stem.length && isConsonant(stem, i)) i++;
+  }
+  return m;
+};
+
+const hasVowel = (stem: string): boolean => stem.split('').some((_, i) => !isConsonant(stem, i));
+
+const endsWithDoubleConsonant = (word: string): boolean =>
+  word.length > 1 && word[word.length - 1] === word[word.length - 2] && isConsonant(word, word.length - 1);
+
+// consonant-vowel-consonant, where the last consonant is not w, x or y
+const endsCvc = (word: string): boolean => {
+  const n = word.length;
+  return n >= 3 && isConsonant(word, n - 3) && !isConsonant(word, n - 2) && isConsonant(word, n - 1)
+    && !'wxy'.includes(word[n - 1]);
+};
+
+const STEP2: [string, string][] = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'],
+  ['abli', 'able'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'],
+  ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'],
+  ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble']
+];
+
+const STEP3: [string, string][] = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', '']
+];
+
+const replaceSuffix = (word: string, rules: [string, string][]): string => {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return measure(stem) > 0 ? stem + replacement : word;
+    }
+  }
+  return word;
+};
+
+// Porter stemmer, steps 1 to 3: folds inflections and common derivations ("rates",
+// "rated", "rating" -> "rate") without the aggressive trimming of the later steps
+export const stem = (word: string): string => {
+  if (word.length <= 2 || !/^[a-z]+$/.test(word)) {
+    return word;
+  }
+
+  let w = word;
+  if (w.endsWith('sses') || w.endsWith('ies')) {
+    w = w.slice(0, -2);
+  } else if (!w.endsWith('ss') && w.endsWith('s')) {
+    w = w.slice(0, -1);
+  }
+
+  if (w.endsWith('eed')) {
+    if (measure(w.slice(0, -3)) > 0) {
+      w = w.slice(0, -1);
+    }
+  } else {
+    const suffix = ['ed', 'ing'].find(candidate => w.endsWith(candidate) && hasVowel(w.slice(0, -candidate.length)));
+    if (suffix) {
+      w = w.slice(0, -suffix.length);
+      if (w.endsWith('at') || w.endsWith('bl') || w.endsWith('iz')) {
+        w += 'e';
+      } else if (endsWithDoubleConsonant(w) && !'lsz'.includes(w[w.length - 1])) {
+        w = w.slice(0, -1);
+      } else if (measure(w) === 1 && endsCvc(w)) {
+        w += 'e';
+      }
+    }
+  }
+
+  if (w.endsWith('y') && hasVowel(w.slice(0, -1))) {
+    w = `${w.slice(0, -1)}i`;
+  }
+
+  return replaceSuffix(replaceSuffix(w, STEP2), STEP3);
+};
+
+// Lower-cased, stemmed words without stopwords; numbers ("q3", "4.5") are kept as written
+export const analyzeText = (text: string): AnalyzedTerm[] => {
+  const words = text.toLowerCase().replace(/['’]s\b/g, '').match(/[a-z0-9]+(?:\.[0-9]+)?/g) || [];
+  const terms: AnalyzedTerm[] = [];
+  words.forEach((word, position) => {
+    if (!STOPWORDS.has(word)) {
+      terms.push({ term: stem(word), position });
+    }
+  });
+  return terms;
+};
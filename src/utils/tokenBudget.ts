@@ -0,0 +1,31 @@
+import { ConversationTurn } from '../types';
+
+// Rough heuristic for English text with OpenAI tokenizers (~4 chars per token).
+// Good enough for budgeting; we always leave headroom below the model limit.
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export const estimateTokens = (text: string): number => {
+  return Math.ceil(text.length / CHARS_PER_TOKEN) + MESSAGE_OVERHEAD_TOKENS;
+};
+
+export const estimateTurnTokens = (turn: ConversationTurn): number => {
+  return estimateTokens(turn.question) + estimateTokens(turn.answer);
+};
+
+// Keep the most recent turns that fit within the budget, oldest dropped first.
+export const truncateHistory = (turns: ConversationTurn[], budget: number): ConversationTurn[] => {
+  const kept: ConversationTurn[] = [];
+  let used = 0;
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const cost = estimateTurnTokens(turns[i]);
+    if (used + cost > budget) {
+      break;
+    }
+    used += cost;
+    kept.unshift(turns[i]);
+  }
+
+  return kept;
+};
@@ -0,0 +1,60 @@
+import { SUPPORTED_CURRENCIES } from '../services/fx';
+
+export interface TradeIntent {
+  side: 'buy' | 'sell';
+  amount: number;
+  currency: string;
+}
+
+const SIGNS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY' };
+
+const CURRENCY_WORDS: Record<string, string> = {
+  dollar: 'USD', dollars: 'USD', bucks: 'USD',
+  euro: 'EUR', euros: 'EUR',
+  pound: 'GBP', pounds: 'GBP',
+  yen: 'JPY'
+};
+
+const BUY_VERBS = /\b(buy|buying|invest|investing|put|putting|add|adding|allocate|allocating|purchase|purchasing)\b/i;
+const SELL_VERBS = /\b(sell|selling|trim|trimming|reduce|reducing|dump|dumping|liquidate|liquidating)\b/i;
+
+const MULTIPLIERS: Record<string, number> = { k: 1e3, m: 1e6 };
+
+const parseAmount = (digits: string, suffix: string | undefined): number =>
+  parseFloat(digits.replace(/,/g, '')) * (suffix ? MULTIPLIERS[suffix.toLowerCase()] : 1);
+
+// Finds the first money amount in a question ("$1,000", "€500", "2k EUR", "300 pounds")
+const findAmount = (text: string): { amount: number; currency: string } | null => {
+  const signed = text.match(/([$€£¥])\s?(\d[\d,]*(?:\.\d+)?)\s?([km])?\b/i);
+  if (signed) {
+    return { amount: parseAmount(signed[2], signed[3]), currency: SIGNS[signed[1]] };
+  }
+
+  for (const match of text.matchAll(/(\d[\d,]*(?:\.\d+)?)\s?([km])?\s+([A-Za-z]+)/gi)) {
+    const word = match[3];
+    const currency = SUPPORTED_CURRENCIES.includes(word.toUpperCase()) ? word.toUpperCase() : CURRENCY_WORDS[word.toLowerCase()];
+    if (currency) {
+      return { amount: parseAmount(match[1], match[2]), currency };
+    }
+  }
+  return null;
+};
+
+// "Should I buy $1000 in Bitcoin?" → { side: 'buy', amount: 1000, currency: 'USD' }.
+// Null unless the question names both a trade direction and an amount of money.
+export const extractTradeIntent = (question: string): TradeIntent | null => {
+  const money = findAmount(question);
+  if (!money || !Number.isFinite(money.amount) || money.amount <= 0) {
+    return null;
+  }
+
+  const buy = question.search(BUY_VERBS);
+  const sell = question.search(SELL_VERBS);
+  if (buy === -1 && sell === -1) {
+    return null;
+  }
+
+  // The verb that comes first wins ("sell AAPL to buy BTC" is a sale)
+  const side = sell !== -1 && (buy === -1 || sell < buy) ? 'sell' : 'buy';
+  return { side, ...money };
+};